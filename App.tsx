@@ -1,262 +1,640 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useReducer } from 'react';
 import Town from './components/Town';
-import { Direction, GameStatus, Position } from './types';
-import { GRID_SIZE, TURN_ANGLE, AUDIO_FILES, DIRECTION_PHRASES, LEVEL_CONFIGS } from './constants';
-
-const App: React.FC = () => {
-  const [level, setLevel] = useState(1);
-  const [status, setStatus] = useState<GameStatus>(GameStatus.START);
-  const [playerPos, setPlayerPos] = useState<Position>({ x: 0, z: 0, rotation: 0 });
-  const [targetPos, setTargetPos] = useState({ x: 0, z: -GRID_SIZE });
+import LevelEditor from './components/LevelEditor';
+import GiveDirections from './components/GiveDirections';
+import ProfilePicker from './components/ProfilePicker';
+import ProgressScreen from './components/ProgressScreen';
+import TeacherDashboard from './components/TeacherDashboard';
+import ClassroomHost from './components/ClassroomHost';
+import ClassroomStudent from './components/ClassroomStudent';
+import { Direction, GameLevel, GameStatus, MemoryStyle, Position, VocabularySet, VoiceSettings } from './types';
+import { CARDINAL_DIRECTIONS, COMPASS_KEY_BINDINGS, DIRECTION_ICONS, DISTRACTOR_PHRASES, KEY_BINDINGS, VOCABULARY_SETS } from './constants';
+import { applyMove, createTown } from './services/townModel';
+import {
+  EngineLevel, MAX_HINT_LEVEL, buildAuthoredLevel, buildLevel, gameReducer, initialGameState, inputsFor, isCompassLevel, isCorrectMove, isLastStep,
+  isStepComplete, longestCompletedStep, reviewRoute, stepCommands, stepPhrases, visitedTrail
+} from './services/gameEngine';
+import { authoredTown } from './services/levelFiles';
+import { createRng, deriveSeed, pick } from './services/random';
+import { SpeechRecognizer, createWebSpeechRecognizer, matchAlternatives } from './services/speechRecognition';
+import { decodeLevelCode, encodeLevelCode, randomSeed, readLevelCodeFromUrl, writeLevelCodeToUrl } from './services/levelCode';
+import {
+  StudentProfile, getActiveProfileId, loadProfiles, recordAttempt, recordCompletion, recordMemorySpan, recordMove, recordReplay,
+  recordStepTime, resetProgress, saveProfile, setActiveProfileId
+} from './services/profileStore';
+import { appendSession, newSessionId } from './services/sessionLog';
+import { ClassroomTransport, createWebSocketTransport, defaultRelayUrl } from './services/classroom';
+import { AudioService, SpokenCommand, createWebAudioService, loadVoiceSettings, saveVoiceSettings } from './services/audioService';
+import VoicePicker from './components/VoicePicker';
+import ClipRecorder from './components/ClipRecorder';
+import LanguagePicker from './components/LanguagePicker';
+import LevelMap from './components/LevelMap';
+import Minimap from './components/Minimap';
+import RouteReview from './components/RouteReview';
+import CompassRose from './components/CompassRose';
+import CommandIndicator from './components/CommandIndicator';
+import AttemptReplay from './components/AttemptReplay';
+import Msg, { translator } from './components/Msg';
+import { HINT_PACING, NORMAL_PACING, difficultyFor, loadDifficultySettings, recordRunResult } from './services/difficulty';
+import { DIRECTION_MEANINGS_JA, LanguageSettings, MESSAGES, MessageKey, loadLanguageSettings, plainMessage, saveLanguageSettings } from './services/i18n';
+import { loadClips } from './services/clipStore';
+import { LeaderboardEntry, ScoreResult, addLeaderboardEntry, scoreRun } from './services/scoring';
+import { CAMERA_MODES, CameraMode, loadCameraMode, loadQualitySetting, saveCameraMode } from './services/renderQuality';
+import { AttemptEventBody, AttemptRecording, logAttemptEvent, rebuildAttemptLevel, saveAttempt, startAttempt } from './services/attemptLog';
+import { EmbedEvent, listenToHost, postToHost, readEmbedConfig } from './services/embed';
+import { createLrsClient, statementFor, studentActor, xapiBase } from './services/xapi';
+
+const isKnownLevel = (lvl: number) => Number.isInteger(lvl) && lvl >= 1;
+
+const codeFromUrl = (() => {
+  const fromUrl = readLevelCodeFromUrl();
+  return fromUrl && isKnownLevel(fromUrl.level) ? fromUrl : null;
+})();
+// Learning platforms iframe the game with `?embed=1`; see services/embed.ts.
+const embed = readEmbedConfig(window.location.search);
+const lrsClient = embed?.lrs ? createLrsClient(embed.lrs) : null;
+const initialCode = codeFromUrl ?? { level: embed?.level ?? 1, seed: embed?.seed ?? randomSeed(), landmarks: false, compass: embed?.vocabulary === 'compass' };
+const initialProfile = loadProfiles().find(p => p.id === getActiveProfileId()) ?? null;
+
+const defaultRecognizer = createWebSpeechRecognizer();
+
+// Projector mode: `?room=ABCD` opens the student join screen, `?relay=ws://host:port` overrides the relay.
+const urlParams = new URLSearchParams(window.location.search);
+const roomFromUrl = urlParams.get('room')?.toUpperCase() ?? '';
+const teacherSetup = urlParams.get('teacher') === 'setup';
+const defaultTransport = createWebSocketTransport(urlParams.get('relay') ?? defaultRelayUrl());
+const defaultAudio = createWebAudioService();
+
+interface AppProps {
+  recognizer?: SpeechRecognizer;
+  classroomTransport?: ClassroomTransport;
+  audio?: AudioService;
+}
+
+type GameMode = 'listen' | 'give' | 'host' | 'student' | 'replay';
+
+const CAMERA_BUTTONS: Record<CameraMode, { icon: string; label: MessageKey }> = {
+  first: { icon: 'fa-eye', label: 'cameraFirst' },
+  shoulder: { icon: 'fa-person-walking', label: 'cameraShoulder' },
+  overhead: { icon: 'fa-helicopter', label: 'cameraOverhead' }
+};
+
+// Compass buttons sit like arrow keys: north on top, then west, south and east.
+const COMPASS_BUTTON_CELLS: Partial<Record<Direction, string>> = {
+  [Direction.NORTH]: 'col-start-2',
+  [Direction.WEST]: 'col-start-1 row-start-2',
+  [Direction.SOUTH]: 'col-start-2 row-start-2',
+  [Direction.EAST]: 'col-start-3 row-start-2'
+};
+
+const App: React.FC<AppProps> = ({ recognizer = defaultRecognizer, classroomTransport = defaultTransport, audio = defaultAudio }) => {
+  const [level, setLevel] = useState(initialCode.level);
+  const [seed, setSeed] = useState(initialCode.seed);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState(false);
+  const [game, dispatch] = useReducer(gameReducer, initialGameState);
   const [showHelp, setShowHelp] = useState(false);
-  
-  const [fullPath, setFullPath] = useState<Direction[]>([]);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [commandsForCurrentStep, setCommandsForCurrentStep] = useState<Direction[]>([]);
-  const [movesMadeInStep, setMovesMadeInStep] = useState(0);
+  const [showEditor, setShowEditor] = useState(false);
+  const [lesson, setLesson] = useState<{ levels: GameLevel[]; index: number } | null>(null);
+  const [landmarkMode, setLandmarkMode] = useState(!!initialCode.landmarks);
+  const [compassMode, setCompassMode] = useState(!!initialCode.compass);
+  // Compass levels are chosen with compassMode; an embedding page may pick any other vocabulary.
+  const [vocabulary, setVocabulary] = useState<VocabularySet | undefined>(embed?.vocabulary === 'compass' ? undefined : embed?.vocabulary);
+  const [memoryMode, setMemoryMode] = useState(!!initialCode.memory);
+  const [gameMode, setGameMode] = useState<GameMode>(roomFromUrl ? 'student' : 'listen');
+  // Where the camera is in modes that drive the Town themselves instead of through the game state.
+  const [drivenPos, setDrivenPos] = useState<Position>({ x: 0, z: 0, rotation: 0 });
   const [isPreloadingLevel, setIsPreloadingLevel] = useState(true);
   const [isReplaying, setIsReplaying] = useState(false);
+  const [speakingMode, setSpeakingMode] = useState(false);
+  const [transcript, setTranscript] = useState<{ text: string; matched: Direction | null } | null>(null);
+  const [speechError, setSpeechError] = useState<string | null>(null);
+  const [profile, setProfile] = useState<StudentProfile | null>(initialProfile);
+  const [showProfiles, setShowProfiles] = useState(!initialProfile && !roomFromUrl && !embed);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showMap, setShowMap] = useState(false);
+  const [showMinimap, setShowMinimap] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [voice, setVoice] = useState<VoiceSettings>(loadVoiceSettings);
+  const [showVoice, setShowVoice] = useState(false);
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [language, setLanguage] = useState<LanguageSettings>(() => ({ ...loadLanguageSettings(), ...(embed?.locale ? { locale: embed.locale } : {}) }));
+  const [showLanguage, setShowLanguage] = useState(false);
+  const [difficultySettings, setDifficultySettings] = useState(loadDifficultySettings);
+  const [quality, setQuality] = useState(loadQualitySetting);
+  const [cameraMode, setCameraMode] = useState(loadCameraMode);
+  const [isAnimating, setIsAnimating] = useState(false);
+  // Levels loaded from a shared code play exactly as coded, without adapting to the student.
+  const [fromCode, setFromCode] = useState(!!codeFromUrl || embed?.seed !== undefined);
+  // A code's memory style wins over the teacher's setting, so the shared route is the same.
+  const [codeMemoryStyle, setCodeMemoryStyle] = useState<MemoryStyle | undefined>(codeFromUrl?.memory);
 
-  const audioAvailability = useRef<Record<Direction, boolean>>({
-    [Direction.STRAIGHT]: false,
-    [Direction.LEFT]: false,
-    [Direction.RIGHT]: false
-  });
-
-  const speakFallback = (text: string): Promise<void> => {
-    return new Promise((resolve) => {
-      const timeout = setTimeout(resolve, 3000); 
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = 'en-US';
-      utterance.rate = 0.8;
-      utterance.onend = () => { clearTimeout(timeout); resolve(); };
-      utterance.onerror = () => { clearTimeout(timeout); resolve(); };
-      window.speechSynthesis.speak(utterance);
-    });
+  const stepStartedAt = useRef(0);
+  const lastMoveAt = useRef(0);
+  // Move times are kept per step and cleared when a step restarts, so a retried step is only scored once.
+  const session = useRef<{ startedAt: number; replays: number; stepMoveTimes: number[][]; streak: number; bestStreak: number } | null>(null);
+  const [result, setResult] = useState<(ScoreResult & { entries: LeaderboardEntry[]; rank: number }) | null>(null);
+  // Every attempt is logged for the teacher to replay; `lastAttempt` is the one just finished.
+  const attempt = useRef<AttemptRecording | null>(null);
+  const [lastAttempt, setLastAttempt] = useState<AttemptRecording | null>(null);
+  const [replay, setReplay] = useState<{ attempt: AttemptRecording; level: EngineLevel } | null>(null);
+  const logEvent = (event: AttemptEventBody) => {
+    if (attempt.current) logAttemptEvent(attempt.current, event);
+  };
+  // Embedded games report to the host page, and to its LRS when one is configured.
+  const embedLevel = useRef({ levelKey: '', label: '' });
+  const report = (event: EmbedEvent) => {
+    if (!embed) return;
+    postToHost(embed, event);
+    const statement = lrsClient && statementFor(event, embed.lrs?.actor ?? studentActor(profileRef.current), xapiBase(), embed.lrs?.registration);
+    if (statement) lrsClient!.send(statement);
   };
 
-  const playAudioWithFallback = async (direction: Direction): Promise<void> => {
-    const url = AUDIO_FILES[direction];
-    const phrase = DIRECTION_PHRASES[direction];
+  const voiceReady = useRef<Promise<void>>(Promise.resolve());
+  useEffect(() => {
+    voiceReady.current = audio.setVoice(voice);
+    saveVoiceSettings(voice);
+  }, [audio, voice]);
 
-    if (!audioAvailability.current[direction]) {
-      return speakFallback(phrase);
-    }
+  useEffect(() => { loadClips().then(audio.setCustomClips); }, [audio]);
 
-    return new Promise((resolve) => {
-      const audio = new Audio(url);
-      const safetyTimeout = setTimeout(() => {
-        console.warn(`Audio playback timed out for ${direction}`);
-        resolve();
-      }, 4000);
-
-      audio.onended = () => { clearTimeout(safetyTimeout); resolve(); };
-      audio.onerror = () => {
-        clearTimeout(safetyTimeout);
-        audioAvailability.current[direction] = false;
-        speakFallback(phrase).then(resolve);
-      };
-      
-      const playPromise = audio.play();
-      if (playPromise !== undefined) {
-        playPromise.catch(() => {
-          clearTimeout(safetyTimeout);
-          audioAvailability.current[direction] = false;
-          speakFallback(phrase).then(resolve);
-        });
-      }
-    });
-  };
+  useEffect(() => saveLanguageSettings(language), [language]);
+  const messages = MESSAGES[language.locale];
+  const t = translator(language);
+  const tPlain = (key: MessageKey) => plainMessage(messages[key]);
 
-  const playSequence = async (commands: Direction[]) => {
-    for (const cmd of commands) {
-      await playAudioWithFallback(cmd);
-      await new Promise(r => setTimeout(r, 400));
-    }
-  };
+  const playSequence = (commands: Direction[], phrases: string[] = []) =>
+    audio.playSequence(commands.map((direction, idx) => ({ direction, phrase: phrases[idx] })));
 
-  const checkAudioFiles = async () => {
-    const directions = [Direction.STRAIGHT, Direction.LEFT, Direction.RIGHT];
-    const checks = directions.map(dir => {
-      return new Promise<void>((resolve) => {
-        const audio = new Audio();
-        const timer = setTimeout(() => {
-          audioAvailability.current[dir] = false;
-          resolve();
-        }, 1000);
-        audio.addEventListener('canplaythrough', () => { clearTimeout(timer); audioAvailability.current[dir] = true; resolve(); }, { once: true });
-        audio.addEventListener('error', () => { clearTimeout(timer); audioAvailability.current[dir] = false; resolve(); }, { once: true });
-        audio.src = AUDIO_FILES[dir];
-        audio.load();
-      });
-    });
-    await Promise.all(checks);
-  };
+  const authored = lesson ? lesson.levels[lesson.index] : null;
+  const town = useMemo(() => (authored ? authoredTown(authored) : createTown(seed)), [authored, seed]);
+  // Read the profile through a ref so recording moves doesn't rebuild the level being played.
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+  // Memory challenges are their own exercise, so they neither adapt nor unlock levels.
+  const memory = memoryMode && !authored;
+  const memoryStyle = memory ? (fromCode && codeMemoryStyle) || difficultySettings.memoryStyle : undefined;
+  const adaptive = !fromCode && !authored && !memory;
+  const difficulty = useMemo(
+    () => difficultyFor(level, adaptive ? profileRef.current : null, difficultySettings),
+    [level, seed, profile?.id, adaptive, difficultySettings]
+  );
+  const vocabularyOverride = compassMode ? undefined : vocabulary;
+  const levelConfig = useMemo(
+    () => (vocabularyOverride ? { ...difficulty.config, vocabulary: vocabularyOverride } : difficulty.config),
+    [difficulty, vocabularyOverride]
+  );
+  const engineLevel = useMemo(() => {
+    if (authored) return buildAuthoredLevel(authored, town);
+    return buildLevel(levelConfig, town, { landmarks: landmarkMode, compass: compassMode, memory: memoryStyle, weights: difficulty.weights });
+  }, [authored, levelConfig, difficulty, town, landmarkMode, compassMode, memoryStyle]);
 
-  const generateLevel = useCallback(async (lvl: number) => {
-    setIsPreloadingLevel(true);
-    setStatus(GameStatus.START);
-    
-    const config = LEVEL_CONFIGS.find(c => c.id === lvl) || LEVEL_CONFIGS[0];
-    const path: Direction[] = [];
-    let simX = 0, simZ = 0, simRot = 0;
-    const totalMovesNeeded = config.totalSteps * config.commandCountPerStep;
-
-    for (let i = 0; i < totalMovesNeeded; i++) {
-      const possible: Direction[] = [Direction.STRAIGHT, Direction.STRAIGHT, Direction.LEFT, Direction.RIGHT];
-      const move = possible[Math.floor(Math.random() * possible.length)];
-      path.push(move);
-      if (move === Direction.STRAIGHT) {
-        const rad = (simRot * Math.PI) / 180;
-        simX -= Math.sin(rad) * GRID_SIZE;
-        simZ -= Math.cos(rad) * GRID_SIZE;
-      } else if (move === Direction.LEFT) simRot += TURN_ANGLE;
-      else if (move === Direction.RIGHT) simRot -= TURN_ANGLE;
-    }
+  // Levels adapted to the student, or given another vocabulary by an embedding page, have no code,
+  // since a code can't carry either.
+  const levelCode = authored || difficulty.adapted || vocabularyOverride ? null : encodeLevelCode({ level, seed, landmarks: landmarkMode, compass: compassMode, memory: memoryStyle });
 
-    setFullPath(path);
-    const finalX = Math.round(simX / GRID_SIZE) * GRID_SIZE;
-    const finalZ = Math.round(simZ / GRID_SIZE) * GRID_SIZE;
-    setTargetPos({ x: finalX + 2.5, z: finalZ + 2.5 });
-    
-    setPlayerPos({ x: 0, z: 0, rotation: 0 });
-    setCurrentStep(0);
-    setMovesMadeInStep(0);
-    await Promise.all([checkAudioFiles(), new Promise(r => setTimeout(r, 500))]);
+  useEffect(() => audio.setPacing(authored ? NORMAL_PACING : difficulty.pacing), [audio, authored, difficulty]);
+  const allowReplay = (!!authored || difficulty.allowReplay) && !memory;
+
+  const { status, playerPos, currentStep, commandsForCurrentStep, movesMadeInStep } = game;
+  const targetPos = game.level?.target ?? { x: 0, z: 0 };
+  const goalLabel = game.level?.goalLabel || 'Red House';
+
+  const lives = difficultySettings.lives;
+  const generateLevel = useCallback(async (lvl: EngineLevel) => {
+    setIsPreloadingLevel(true);
+    dispatch({ type: 'LOAD_LEVEL', level: lvl, lives });
+    await Promise.all([voiceReady.current, new Promise(r => setTimeout(r, 500))]);
     setIsPreloadingLevel(false);
-  }, []);
+  }, [lives]);
+
+  useEffect(() => { generateLevel(engineLevel); }, [engineLevel, generateLevel]);
 
-  useEffect(() => { generateLevel(level); }, [level, generateLevel]);
+  useEffect(() => {
+    if (levelCode) writeLevelCodeToUrl(levelCode);
+  }, [levelCode]);
 
   const startStep = useCallback(async (stepIdx: number) => {
-    if (isPreloadingLevel) return;
-    
-    const config = LEVEL_CONFIGS.find(c => c.id === level)!;
-    const startIndex = stepIdx * config.commandCountPerStep;
-    const stepCommands = fullPath.slice(startIndex, startIndex + config.commandCountPerStep);
-    
-    setCommandsForCurrentStep(stepCommands);
-    setMovesMadeInStep(0);
-    setStatus(GameStatus.LISTENING);
+    if (isPreloadingLevel || !game.level) return;
     
+    const commands = stepCommands(game.level, stepIdx);
+    const phrases = stepPhrases(game.level, stepIdx);
+    dispatch({ type: 'START_STEP', step: stepIdx });
+    if (session.current) session.current.stepMoveTimes[stepIdx] = [];
+    logEvent({ type: 'play', step: stepIdx, commands, phrases });
+
+    let spoken: SpokenCommand[] = commands.map((direction, idx) => ({ direction, phrase: phrases[idx] }));
+    // Distractors carry the next command's direction only because SpokenCommand needs one;
+    // their phrase never matches a clip, so they are always spoken. They are drawn from the town
+    // seed and the step, so "Listen Again" repeats the same sentences.
+    if (memory && difficultySettings.distractors) {
+      const rng = createRng(deriveSeed(game.level.town.seed, `distractor-${stepIdx}`));
+      spoken = spoken.flatMap((cmd, idx) => idx === 0 ? [cmd] : [
+        { direction: cmd.direction, phrase: pick(rng, DISTRACTOR_PHRASES) },
+        cmd
+      ]);
+    }
+
     try {
-      await playSequence(stepCommands);
+      await audio.playSequence(spoken);
     } catch (err) {
       console.error("Audio sequence failed", err);
     } finally {
-      setStatus(GameStatus.MOVING);
+      dispatch({ type: 'FINISH_LISTENING' });
     }
-  }, [level, fullPath, isPreloadingLevel]);
+  }, [game.level, isPreloadingLevel, memory, difficultySettings.distractors]);
+
+  // Guests play without a profile; progress is only recorded for a picked student.
+  const updateProfile = useCallback((update: (p: StudentProfile) => StudentProfile) => {
+    setProfile(p => {
+      if (!p) return p;
+      const next = update(p);
+      saveProfile(next);
+      return next;
+    });
+  }, []);
+
+  const gameRef = useRef(game);
+  gameRef.current = game;
+
+  useEffect(() => {
+    if (status === GameStatus.MOVING) stepStartedAt.current = lastMoveAt.current = Date.now();
+  }, [status, currentStep]);
+
+  // Set as soon as a move is dispatched, so a second key press cannot sneak in before the
+  // detective starts walking; Town clears it when they arrive.
+  const animating = useRef(false);
+  const setAnimating = useCallback((value: boolean) => {
+    animating.current = value;
+    setIsAnimating(value);
+  }, []);
 
   const executeMove = useCallback((inputDir: Direction) => {
-    if (status !== GameStatus.MOVING) return;
-    
-    const expectedMove = commandsForCurrentStep[movesMadeInStep];
-    
-    if (inputDir === expectedMove) {
-      setPlayerPos(prev => {
-        let { x, z, rotation } = prev;
-        if (inputDir === Direction.STRAIGHT) {
-          const rad = (rotation * Math.PI) / 180;
-          return { ...prev, x: x - Math.sin(rad) * GRID_SIZE, z: z - Math.cos(rad) * GRID_SIZE };
-        } else if (inputDir === Direction.LEFT) return { ...prev, rotation: rotation + TURN_ANGLE };
-        else return { ...prev, rotation: rotation - TURN_ANGLE };
+    if (animating.current) return;
+    const current = gameRef.current;
+    if (current.status === GameStatus.MOVING && !isStepComplete(current)) {
+      const expected = current.commandsForCurrentStep[current.movesMadeInStep];
+      const correct = isCorrectMove(current.playerPos, expected, inputDir);
+      const finishesStep = correct && current.movesMadeInStep + 1 === current.commandsForCurrentStep.length;
+      const run = session.current;
+      if (run) {
+        if (correct) (run.stepMoveTimes[current.currentStep] ??= []).push(Date.now() - lastMoveAt.current);
+        run.streak = correct ? run.streak + 1 : 0;
+        run.bestStreak = Math.max(run.bestStreak, run.streak);
+      }
+      lastMoveAt.current = Date.now();
+      logEvent({ type: 'input', step: current.currentStep, index: current.movesMadeInStep, expected, given: inputDir, correct });
+      if (!correct) {
+        report({ type: 'move-wrong', ...embedLevel.current, step: current.currentStep + 1, move: current.movesMadeInStep + 1, expected, given: inputDir, livesLeft: current.livesLeft - 1 });
+      } else if (finishesStep) {
+        report({ type: 'step-completed', ...embedLevel.current, step: current.currentStep + 1, totalSteps: current.level!.steps.length });
+      }
+      updateProfile(p => {
+        const next = recordMove(p, expected, correct ? expected : inputDir);
+        return finishesStep ? recordStepTime(next, Date.now() - stepStartedAt.current) : next;
       });
-
-      const nextMovesCount = movesMadeInStep + 1;
-      setMovesMadeInStep(nextMovesCount);
-
-      if (nextMovesCount === commandsForCurrentStep.length) {
-        const config = LEVEL_CONFIGS.find(c => c.id === level)!;
-        if (currentStep + 1 === config.totalSteps) {
-          setTimeout(() => setStatus(GameStatus.SUCCESS), 400);
-        } else {
-          const nextIdx = currentStep + 1;
-          setCurrentStep(nextIdx);
-          setTimeout(() => startStep(nextIdx), 600);
-        }
+      const moved = applyMove(current.playerPos, expected);
+      if (correct && (moved.x !== current.playerPos.x || moved.z !== current.playerPos.z || moved.rotation !== current.playerPos.rotation)) {
+        setAnimating(true);
       }
-    } else {
-      setStatus(GameStatus.FAIL);
     }
-  }, [status, commandsForCurrentStep, movesMadeInStep, level, currentStep, startStep]);
+    dispatch({ type: 'MOVE', direction: inputDir });
+  }, [updateProfile, setAnimating]);
+
+  // Wait for the detective to finish the last move, then pause briefly before moving on.
+  useEffect(() => {
+    if (status !== GameStatus.MOVING || !isStepComplete(game) || isAnimating) return;
+    const timer = isLastStep(game)
+      ? setTimeout(() => dispatch({ type: 'COMPLETE_LEVEL' }), 250)
+      : setTimeout(() => startStep(currentStep + 1), 400);
+    return () => clearTimeout(timer);
+  }, [game, status, currentStep, startStep, isAnimating]);
+
+  const cycleCameraMode = () => {
+    const next = CAMERA_MODES[(CAMERA_MODES.indexOf(cameraMode) + 1) % CAMERA_MODES.length];
+    saveCameraMode(next);
+    setCameraMode(next);
+  };
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (status !== GameStatus.MOVING) return;
-    if (e.key === 'ArrowUp') executeMove(Direction.STRAIGHT);
-    else if (e.key === 'ArrowLeft') executeMove(Direction.LEFT);
-    else if (e.key === 'ArrowRight') executeMove(Direction.RIGHT);
-  }, [status, executeMove]);
+    const bindings = isCompassLevel(engineLevel) ? COMPASS_KEY_BINDINGS : KEY_BINDINGS;
+    const dir = bindings[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (dir && inputsFor(engineLevel).includes(dir)) executeMove(dir);
+  }, [status, executeMove, engineLevel]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleKeyDown]);
 
+  // Speaking mode listens only while moves are expected, so the game's own voice is not picked up.
+  const listening = speakingMode && status === GameStatus.MOVING && !isReplaying;
+  useEffect(() => {
+    if (!listening) return;
+    setSpeechError(null);
+    recognizer.start({
+      onTranscript: (alternatives, isFinal) => {
+        const matched = matchAlternatives(alternatives, inputsFor(engineLevel));
+        setTranscript({ text: alternatives[0] ?? '', matched: isFinal ? matched : null });
+        if (isFinal && matched) executeMove(matched);
+      },
+      onError: (message) => setSpeechError(message)
+    });
+    return () => recognizer.stop();
+  }, [listening, recognizer, engineLevel, executeMove]);
+
+  useEffect(() => { if (status !== GameStatus.MOVING) setTranscript(null); }, [status]);
+
   const replayStepAudio = async () => {
     if (isReplaying || status !== GameStatus.MOVING) return;
+    updateProfile(recordReplay);
+    if (session.current) session.current.replays++;
+    logEvent({ type: 'replay', step: currentStep });
+    setIsReplaying(true);
+    await playSequence(commandsForCurrentStep, stepPhrases(engineLevel, currentStep));
+    setIsReplaying(false);
+  };
+
+  // Hints get stronger each time: a slower replay, then the first word, then the arrow.
+  const takeHint = async () => {
+    if (isReplaying || status !== GameStatus.MOVING || game.hintLevel >= MAX_HINT_LEVEL) return;
+    dispatch({ type: 'USE_HINT' });
+    logEvent({ type: 'hint', step: currentStep, hintLevel: game.hintLevel + 1 });
+    if (game.hintLevel > 0) return;
     setIsReplaying(true);
-    await playSequence(commandsForCurrentStep);
+    await audio.playSequence(
+      commandsForCurrentStep.map((direction, idx) => ({ direction, phrase: stepPhrases(engineLevel, currentStep)[idx] })),
+      HINT_PACING
+    );
     setIsReplaying(false);
   };
 
-  const nextLevel = () => { if (level < 3) setLevel(prev => prev + 1); else setLevel(1); };
+  // Say the direction that was missed again while the mistake panel is up.
+  useEffect(() => {
+    if (status !== GameStatus.MISTAKE) return;
+    const missed = game.mistakes[game.mistakes.length - 1];
+    playSequence([missed.expected], [stepPhrases(engineLevel, missed.step)[missed.index]]);
+  }, [status]);
 
-  const currentConfig = LEVEL_CONFIGS.find(c => c.id === level)!;
+  const levelKey = authored ? authored.id : memory ? `${level}-memory` : String(level);
+  const modeLabels = [landmarkMode && 'landmarks', compassMode && 'compass', memory && 'memory'].filter(Boolean);
+  const levelLabel = authored ? authored.title : `Level ${level}${modeLabels.length > 0 ? ` (${modeLabels.join(', ')})` : ''}`;
+  // Shared codes get their own leaderboard so classmates compare the same town.
+  embedLevel.current = { levelKey, label: levelLabel };
+  const leaderboardKey = fromCode
+    ? encodeLevelCode({ level, seed, landmarks: landmarkMode, compass: compassMode, memory: memoryStyle }) + (vocabularyOverride ? `-${vocabularyOverride}` : '')
+    : levelKey;
 
-  const getDirectionIcon = (dir: Direction) => {
-    if (dir === Direction.STRAIGHT) return 'fa-arrow-up';
-    if (dir === Direction.LEFT) return 'fa-arrow-left';
-    return 'fa-arrow-right';
+  const startLevel = () => {
+    updateProfile(p => recordAttempt(p, levelKey));
+    session.current = { startedAt: Date.now(), replays: 0, stepMoveTimes: [], streak: 0, bestStreak: 0 };
+    attempt.current = startAttempt({
+      studentName: profile?.name ?? 'Guest',
+      levelLabel,
+      lives: game.lives,
+      level: authored
+        ? { kind: 'authored', level: authored, path: engineLevel.path }
+        : { kind: 'generated', seed, config: levelConfig, landmarks: landmarkMode, compass: compassMode, memory: memoryStyle, weights: difficulty.weights, path: engineLevel.path }
+    });
+    setResult(null);
+    setShowReview(false);
+    setLastAttempt(null);
+    report({ type: 'level-started', levelKey, label: levelLabel, level, seed, totalSteps: engineLevel.steps.length });
+    startStep(0);
+  };
+
+  useEffect(() => {
+    if (status !== GameStatus.START) logEvent({ type: 'status', status });
+  }, [status]);
+
+  useEffect(() => {
+    if (status !== GameStatus.SUCCESS && status !== GameStatus.FAIL) return;
+    const scored = status === GameStatus.SUCCESS && session.current ? scoreRun({
+      moveTimesMs: session.current.stepMoveTimes.flat(),
+      bestStreak: session.current.bestStreak,
+      mistakes: game.mistakes.length,
+      replays: session.current.replays,
+      hintsUsed: game.hintsUsed
+    }) : null;
+    if (scored) {
+      const board = addLeaderboardEntry(leaderboardKey, {
+        name: profile?.name ?? 'Guest',
+        avatar: profile?.avatar ?? '👤',
+        score: scored.score,
+        stars: scored.stars,
+        at: Date.now()
+      });
+      setResult({ ...scored, ...board });
+    }
+    if (status === GameStatus.SUCCESS) {
+      updateProfile(p => recordCompletion(p, levelKey, authored || memory ? undefined : level + 1, scored?.stars));
+    }
+    const memorySpan = memory ? longestCompletedStep(game) : undefined;
+    if (memorySpan) updateProfile(p => recordMemorySpan(p, memorySpan));
+    if (adaptive && session.current) {
+      const clean = game.mistakes.length === 0 && session.current.replays === 0 && game.hintsUsed === 0;
+      updateProfile(p => recordRunResult(p, status === GameStatus.SUCCESS && clean, status === GameStatus.FAIL));
+    }
+    if (!session.current) return;
+    report({
+      type: 'level-completed',
+      levelKey,
+      label: levelLabel,
+      outcome: status === GameStatus.SUCCESS ? 'success' : 'fail',
+      score: scored?.score,
+      stars: scored?.stars,
+      mistakes: game.mistakes.length,
+      durationMs: Date.now() - session.current.startedAt
+    });
+    const sessionId = newSessionId();
+    appendSession({
+      id: sessionId,
+      studentId: profile?.id ?? null,
+      studentName: profile?.name ?? 'Guest',
+      levelKey,
+      levelLabel,
+      startedAt: session.current.startedAt,
+      durationMs: Date.now() - session.current.startedAt,
+      outcome: status === GameStatus.SUCCESS ? 'success' : 'fail',
+      stepReached: currentStep + 1,
+      totalSteps: engineLevel.steps.length,
+      mistakes: game.mistakes,
+      replays: session.current.replays,
+      hintsUsed: game.hintsUsed,
+      score: scored?.score,
+      memorySpan
+    });
+    session.current = null;
+    if (attempt.current) {
+      attempt.current.id = sessionId;
+      saveAttempt(attempt.current);
+      setLastAttempt(attempt.current);
+      attempt.current = null;
+    }
+  }, [status]);
+
+  // Throws if the recording no longer matches the level generator, for the dashboard to report.
+  const startReplay = (recording: AttemptRecording) => {
+    const replayLevel = rebuildAttemptLevel(recording);
+    if (status !== GameStatus.START && status !== GameStatus.SUCCESS && status !== GameStatus.FAIL) generateLevel(engineLevel);
+    setShowReview(false);
+    setReplay({ attempt: recording, level: replayLevel });
+    setDrivenPos(replayLevel.start);
+    setGameMode('replay');
+  };
+
+  const pickProfile = (picked: StudentProfile | null) => {
+    setActiveProfileId(picked?.id ?? null);
+    setProfile(picked);
+    setShowProfiles(false);
+    if (picked && !codeFromUrl && !lesson) {
+      setLevel(picked.unlockedLevel);
+      setSeed(randomSeed());
+      setFromCode(false);
+    }
   };
 
+  useEffect(() => {
+    if (!embed) return;
+    postToHost(embed, { type: 'ready' });
+    return listenToHost(embed, settings => {
+      setLesson(null);
+      setGameMode('listen');
+      if (settings.level) setLevel(settings.level);
+      if (settings.seed !== undefined) {
+        setSeed(settings.seed);
+        setFromCode(true);
+      }
+      if (settings.vocabulary) {
+        setLandmarkMode(false);
+        setCompassMode(settings.vocabulary === 'compass');
+        setVocabulary(settings.vocabulary === 'compass' ? undefined : settings.vocabulary);
+      }
+      if (settings.locale) setLanguage(l => ({ ...l, locale: settings.locale! }));
+    });
+  }, []);
+
+  const playUnlockedLevel = (lvl: number) => {
+    setShowProgress(false);
+    setShowMap(false);
+    setLesson(null);
+    setGameMode('listen');
+    setLevel(lvl);
+    setSeed(randomSeed());
+    setFromCode(false);
+  };
+
+  const nextLevel = () => {
+    if (lesson) {
+      setLesson(lesson.index + 1 < lesson.levels.length ? { ...lesson, index: lesson.index + 1 } : null);
+      return;
+    }
+    setSeed(randomSeed());
+    setLevel(prev => prev + 1);
+    setFromCode(false);
+  };
+
+  const playLesson = (levels: GameLevel[]) => {
+    setShowEditor(false);
+    setLesson({ levels, index: 0 });
+  };
+
+  const loadLevelCode = () => {
+    const decoded = decodeLevelCode(codeInput);
+    if (!decoded || !isKnownLevel(decoded.level)) {
+      setCodeError(true);
+      return;
+    }
+    setCodeError(false);
+    setCodeInput('');
+    setLesson(null);
+    setLevel(decoded.level);
+    setSeed(decoded.seed);
+    setLandmarkMode(!!decoded.landmarks);
+    setCompassMode(!!decoded.compass);
+    setMemoryMode(!!decoded.memory);
+    setCodeMemoryStyle(decoded.memory);
+    setFromCode(true);
+  };
+
+  // After a mistake, show what the step's directions mean in Japanese.
+  const lastMistake = game.mistakes[game.mistakes.length - 1];
+  const hint = (status === GameStatus.FAIL || status === GameStatus.MISTAKE) && language.hints && lastMistake ? {
+    mistake: lastMistake,
+    commands: stepCommands(engineLevel, lastMistake.step),
+    phrases: stepPhrases(engineLevel, lastMistake.step)
+  } : null;
+
+  const nextPhrase = status === GameStatus.MOVING ? stepPhrases(engineLevel, currentStep)[movesMadeInStep] : undefined;
+
+  const totalSteps = engineLevel.steps.length;
+  const compass = isCompassLevel(engineLevel);
+  const extraControls = compass ? [] : engineLevel.vocabulary.filter(dir => !VOCABULARY_SETS.basic.includes(dir));
+
   return (
     <div className="relative w-screen h-screen overflow-hidden select-none bg-[#f0fdf4] font-sans">
-      <Town playerPos={playerPos} targetPos={targetPos} status={status} />
+      <Town
+        playerPos={gameMode === 'give' || gameMode === 'host' || gameMode === 'replay' ? drivenPos : playerPos}
+        targetPos={gameMode === 'replay' && replay ? replay.level.target : targetPos}
+        status={status}
+        town={gameMode === 'replay' && replay ? replay.level.town : engineLevel.town}
+        quality={quality}
+        cameraMode={cameraMode}
+        onAnimatingChange={setAnimating}
+      />
 
       {/* Stats UI */}
-      <div className="absolute top-4 left-4 pointer-events-none">
+      <div className={`absolute top-4 left-4 pointer-events-none ${gameMode !== 'listen' ? 'hidden' : ''}`}>
         <div className="bg-white/95 p-4 rounded-3xl shadow-xl border-4 border-green-500 min-w-[200px] pointer-events-auto">
           <div className="flex items-center gap-3 mb-1">
             <span className="text-3xl">🌟</span>
-            <span className="text-2xl font-black text-green-700">Level {level}</span>
+            <span className="text-2xl font-black text-green-700">{authored ? authored.title : t('level', { n: level })}</span>
+            <button
+              onClick={() => (profile ? setShowProgress(true) : setShowProfiles(true))}
+              title={tPlain(profile ? 'myProgress' : 'pickStudent')}
+              className="ml-auto flex items-center gap-1 bg-orange-50 border-2 border-orange-200 rounded-full pl-1 pr-3 py-0.5 active:scale-95 transition-all"
+            >
+              <span className="text-xl">{profile?.avatar ?? '👤'}</span>
+              <span className="text-xs font-black text-orange-600 max-w-[80px] truncate">{profile?.name ?? t('guest')}</span>
+            </button>
           </div>
           <div className="text-[10px] font-bold text-green-600 uppercase tracking-widest mb-2 flex justify-between">
-            <span>Step {currentStep + 1} / {currentConfig.totalSteps}</span>
-            <span className="text-blue-600">{currentConfig.commandCountPerStep} moves</span>
+            <span>{t('stepOf', { n: currentStep + 1, total: totalSteps })}</span>
+            <span className="text-blue-600">{t('moves', { n: stepCommands(engineLevel, currentStep).length })}</span>
           </div>
+          {game.lives > 1 && (
+            <div className="flex gap-1 mb-2" title={tPlain('livesLeft')}>
+              {Array.from({ length: game.lives }, (_, idx) => (
+                <i key={idx} className={`fas fa-heart ${idx < game.livesLeft ? 'text-red-500' : 'text-gray-300'}`}></i>
+              ))}
+            </div>
+          )}
           <div className="w-full bg-gray-200 h-3 rounded-full overflow-hidden border border-gray-300">
-            <div className="bg-green-500 h-full transition-all duration-500" style={{ width: `${((currentStep) / currentConfig.totalSteps) * 100}%` }} />
+            <div className="bg-green-500 h-full transition-all duration-500" style={{ width: `${((currentStep) / totalSteps) * 100}%` }} />
           </div>
+          <button onClick={() => setShowMinimap(m => !m)} className={`mt-2 text-[10px] font-black uppercase px-3 py-1 rounded-full border-2 transition-all ${showMinimap ? 'bg-blue-500 text-white border-blue-600' : 'bg-white text-blue-500 border-blue-200'}`}>
+            <i className="fas fa-map-location-dot mr-1"></i>{t('minimap')} {t(showMinimap ? 'on' : 'off')}
+          </button>
+          <button onClick={cycleCameraMode} className="mt-2 ml-1 text-[10px] font-black uppercase px-3 py-1 rounded-full border-2 bg-white text-purple-500 border-purple-200 active:scale-95 transition-all">
+            <i className={`fas ${CAMERA_BUTTONS[cameraMode].icon} mr-1`}></i>{t(CAMERA_BUTTONS[cameraMode].label)}
+          </button>
         </div>
+        {showMinimap && status !== GameStatus.START && (
+          <div className="mt-3 pointer-events-auto inline-block">
+            <Minimap town={engineLevel.town} player={playerPos} trail={visitedTrail(game)} goal={difficultySettings.minimapGoal ? targetPos : undefined} />
+          </div>
+        )}
       </div>
 
       {/* Command Sequence Indicator */}
-      {(status === GameStatus.MOVING || status === GameStatus.LISTENING) && (
-        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-white/90 p-4 rounded-[40px] shadow-2xl backdrop-blur-md border-2 border-white z-10">
-          {commandsForCurrentStep.map((cmd, idx) => {
-            const isDone = idx < movesMadeInStep;
-            const isCurrent = idx === movesMadeInStep;
-            
-            return (
-              <div 
-                key={idx}
-                className={`
-                  w-14 h-14 rounded-full flex items-center justify-center text-2xl transition-all duration-300 transform
-                  ${isDone ? 'bg-green-500 text-white scale-110 shadow-lg' : 
-                    isCurrent ? 'bg-blue-500 text-white scale-125 animate-pulse shadow-xl border-4 border-blue-200' : 
-                    'bg-gray-200 text-gray-400 opacity-50'}
-                `}
-              >
-                {isDone ? (
-                  <i className={`fas ${getDirectionIcon(cmd)}`}></i>
-                ) : (
-                  <span className="font-black">?</span>
-                )}
-              </div>
-            );
-          })}
+      {!memory && (status === GameStatus.MOVING || status === GameStatus.LISTENING) && (
+        <CommandIndicator commands={commandsForCurrentStep} movesMade={movesMadeInStep} showNext={game.hintLevel >= 3} />
+      )}
+      {status === GameStatus.MOVING && game.hintLevel >= 2 && nextPhrase && (
+        <div className="absolute top-28 left-1/2 -translate-x-1/2 bg-amber-100 text-amber-800 px-5 py-2 rounded-full shadow-lg border-2 border-amber-300 z-10 font-black">
+          <i className="fas fa-lightbulb mr-2"></i>"{nextPhrase.split(' ')[0]} …"
         </div>
       )}
 
@@ -265,68 +643,334 @@ const App: React.FC = () => {
         <i className="fas fa-question text-xl"></i>
       </button>
 
+      {/* Voice Toggle */}
+      {status === GameStatus.START && gameMode === 'listen' && (
+        <button onClick={() => setShowVoice(true)} className="absolute bottom-4 left-52 w-12 h-12 bg-white rounded-full shadow-lg flex items-center justify-center text-yellow-500 border-2 border-yellow-200 active:scale-90 transition-all z-10">
+          <i className="fas fa-headphones text-xl"></i>
+        </button>
+      )}
+
+      {/* Language Toggle */}
+      {gameMode === 'listen' && (
+        <button onClick={() => setShowLanguage(true)} className="absolute bottom-4 right-4 h-12 px-4 bg-white rounded-full shadow-lg flex items-center justify-center gap-2 text-green-600 border-2 border-green-200 font-black active:scale-90 transition-all z-10">
+          <i className="fas fa-language text-xl"></i>
+          {language.locale === 'ja' ? '日本語' : 'EN'}
+        </button>
+      )}
+
+      {/* Teacher Level Editor Toggle */}
+      {status === GameStatus.START && gameMode === 'listen' && (
+        <button onClick={() => setShowEditor(true)} className="absolute bottom-4 left-20 w-12 h-12 bg-white rounded-full shadow-lg flex items-center justify-center text-purple-500 border-2 border-purple-200 active:scale-90 transition-all z-10">
+          <i className="fas fa-pencil-ruler text-xl"></i>
+        </button>
+      )}
+      {status === GameStatus.START && gameMode === 'listen' && (
+        <button onClick={() => setShowDashboard(true)} className="absolute bottom-4 left-36 w-12 h-12 bg-white rounded-full shadow-lg flex items-center justify-center text-indigo-500 border-2 border-indigo-200 active:scale-90 transition-all z-10">
+          <i className="fas fa-chart-bar text-xl"></i>
+        </button>
+      )}
+
+      {status === GameStatus.START && gameMode === 'listen' && (
+        <button onClick={() => setShowMap(true)} title={tPlain('levelMap')} className="absolute bottom-4 left-[17rem] w-12 h-12 bg-white rounded-full shadow-lg flex items-center justify-center text-green-500 border-2 border-green-200 active:scale-90 transition-all z-10">
+          <i className="fas fa-map text-xl"></i>
+        </button>
+      )}
+
       {/* On-Screen Controls */}
-      {status === GameStatus.MOVING && (
+      {status === GameStatus.MOVING && compass && (
+        <div className="absolute bottom-8 left-0 w-full flex justify-center z-20">
+          <div className="grid grid-cols-3 gap-3">
+            {CARDINAL_DIRECTIONS.map(dir => (
+              <button key={dir} onClick={() => executeMove(dir)} className={`${COMPASS_BUTTON_CELLS[dir]} w-20 h-20 bg-amber-500 rounded-3xl border-b-[8px] border-amber-700 flex flex-col items-center justify-center active:translate-y-2 active:border-b-0 transition-all text-white shadow-lg`}>
+                <i className={`fas ${DIRECTION_ICONS[dir]} text-3xl mb-1`}></i>
+                <span className="text-[10px] font-black uppercase tracking-tight">{t.dir(dir)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {status === GameStatus.MOVING && !compass && (
         <div className="absolute bottom-10 left-0 w-full flex justify-center items-end gap-4 px-4 z-20">
           <button onClick={() => executeMove(Direction.LEFT)} className="w-24 h-24 bg-blue-500 rounded-3xl border-b-[10px] border-blue-700 flex flex-col items-center justify-center active:translate-y-2 active:border-b-0 transition-all text-white shadow-lg">
             <i className="fas fa-arrow-left text-4xl mb-1"></i>
-            <span className="text-[10px] font-black uppercase tracking-tight">Turn Left</span>
+            <span className="text-[10px] font-black uppercase tracking-tight">{t.dir(Direction.LEFT)}</span>
           </button>
           <button onClick={() => executeMove(Direction.STRAIGHT)} className="w-32 h-32 bg-green-500 rounded-3xl border-b-[10px] border-green-700 flex flex-col items-center justify-center active:translate-y-2 active:border-b-0 transition-all text-white shadow-lg">
             <i className="fas fa-arrow-up text-5xl mb-1"></i>
-            <span className="text-sm font-black uppercase tracking-tight">Straight</span>
+            <span className="text-sm font-black uppercase tracking-tight">{t.dir(Direction.STRAIGHT)}</span>
           </button>
           <button onClick={() => executeMove(Direction.RIGHT)} className="w-24 h-24 bg-blue-500 rounded-3xl border-b-[10px] border-blue-700 flex flex-col items-center justify-center active:translate-y-2 active:border-b-0 transition-all text-white shadow-lg">
             <i className="fas fa-arrow-right text-4xl mb-1"></i>
-            <span className="text-[10px] font-black uppercase tracking-tight">Turn Right</span>
+            <span className="text-[10px] font-black uppercase tracking-tight">{t.dir(Direction.RIGHT)}</span>
           </button>
         </div>
       )}
+      {status === GameStatus.MOVING && extraControls.length > 0 && (
+        <div className="absolute bottom-48 left-0 w-full flex justify-center gap-3 px-4 z-20">
+          {extraControls.map(dir => (
+            <button key={dir} onClick={() => executeMove(dir)} className="w-20 h-20 bg-purple-500 rounded-3xl border-b-[8px] border-purple-700 flex flex-col items-center justify-center active:translate-y-2 active:border-b-0 transition-all text-white shadow-lg">
+              <i className={`fas ${DIRECTION_ICONS[dir]} text-3xl mb-1`}></i>
+              <span className="text-[9px] font-black uppercase tracking-tight leading-none">{t.dir(dir)}</span>
+            </button>
+          ))}
+        </div>
+      )}
 
-      {/* Replay Audio */}
+      {/* Speaking Mode */}
       {status === GameStatus.MOVING && (
+        <button
+          onClick={() => setSpeakingMode(m => !m)}
+          disabled={!recognizer.isSupported()}
+          title={tPlain(recognizer.isSupported() ? 'speakingMode' : 'speechUnavailable')}
+          className={`absolute top-28 right-4 w-20 h-20 rounded-full border-b-4 flex flex-col items-center justify-center active:scale-90 transition-all shadow-lg z-10 disabled:opacity-40 ${speakingMode ? 'bg-pink-500 border-pink-700 text-white' : 'bg-white border-gray-300 text-pink-500'}`}
+        >
+          <i className={`fas ${speakingMode ? 'fa-microphone' : 'fa-microphone-slash'} text-3xl`}></i>
+          <span className="text-[8px] font-black uppercase mt-1">{t('speak')}</span>
+        </button>
+      )}
+      {listening && (
+        <div className="absolute bottom-64 left-1/2 -translate-x-1/2 bg-white/95 px-6 py-3 rounded-full shadow-xl border-4 border-pink-300 z-20 flex items-center gap-3 max-w-[90vw]">
+          <i className="fas fa-microphone text-pink-500 animate-pulse"></i>
+          {speechError ? (
+            <span className="font-bold text-red-500">{speechError} {t('useButtons')}</span>
+          ) : transcript ? (
+            <span className="font-bold text-gray-700 truncate">
+              "{transcript.text}"
+              {transcript.matched && <i className={`fas ${DIRECTION_ICONS[transcript.matched]} ml-2 text-green-600`}></i>}
+            </span>
+          ) : (
+            <span className="font-bold text-gray-400 italic">{t(compass ? 'sayCompass' : 'sayTurns')}</span>
+          )}
+        </div>
+      )}
+
+      {/* Compass */}
+      {compass && gameMode === 'listen' && status !== GameStatus.START && (
+        <div className="absolute top-52 right-4 z-10 pointer-events-none">
+          <CompassRose rotation={playerPos.rotation} northUp={cameraMode === 'overhead'} />
+        </div>
+      )}
+
+      {/* Replay Audio */}
+      {status === GameStatus.MOVING && allowReplay && (
         <button onClick={replayStepAudio} disabled={isReplaying} className={`absolute top-4 right-4 w-20 h-20 bg-yellow-400 rounded-full border-b-4 border-yellow-600 flex flex-col items-center justify-center active:scale-90 transition-all shadow-lg z-10 ${isReplaying ? 'opacity-50 grayscale' : ''}`}>
           <i className="fas fa-volume-up text-3xl text-yellow-900"></i>
-          <span className="text-[8px] font-black uppercase text-yellow-900 mt-1">Listen Again</span>
+          <span className="text-[8px] font-black uppercase text-yellow-900 mt-1">{t('listenAgain')}</span>
+        </button>
+      )}
+      {status === GameStatus.MOVING && !memory && (
+        <button onClick={takeHint} disabled={isReplaying || game.hintLevel >= MAX_HINT_LEVEL} className={`absolute top-4 ${allowReplay ? 'right-28' : 'right-4'} w-20 h-20 bg-amber-300 rounded-full border-b-4 border-amber-500 flex flex-col items-center justify-center active:scale-90 transition-all shadow-lg z-10 disabled:opacity-50 disabled:grayscale`}>
+          <i className="fas fa-lightbulb text-3xl text-amber-900"></i>
+          <span className="text-[8px] font-black uppercase text-amber-900 mt-1">{t('hint')} {game.hintLevel}/{MAX_HINT_LEVEL}</span>
         </button>
       )}
 
+      {/* Give Directions (reverse mode) */}
+      {gameMode === 'give' && !isPreloadingLevel && (
+        <GiveDirections
+          level={engineLevel}
+          goalLabel={goalLabel}
+          language={language}
+          onSpeak={dir => { playSequence([dir]); }}
+          onPosition={setDrivenPos}
+          onExit={() => setGameMode('listen')}
+          onNext={nextLevel}
+        />
+      )}
+
+      {/* Classroom projector mode */}
+      {gameMode === 'host' && !isPreloadingLevel && (
+        <ClassroomHost
+          level={engineLevel}
+          transport={classroomTransport}
+          onPlayStep={step => playSequence(stepCommands(engineLevel, step), stepPhrases(engineLevel, step))}
+          onPosition={setDrivenPos}
+          onExit={() => setGameMode('listen')}
+        />
+      )}
+      {gameMode === 'replay' && replay && (
+        <AttemptReplay attempt={replay.attempt} level={replay.level} onPosition={setDrivenPos} onExit={() => { setReplay(null); setGameMode('listen'); }} />
+      )}
+      {gameMode === 'student' && (
+        <ClassroomStudent transport={classroomTransport} initialRoom={roomFromUrl} defaultName={profile?.name} language={language} onExit={() => setGameMode('listen')} />
+      )}
+
       {/* Status Overlays */}
-      <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-[100]">
+      <div className={`absolute inset-0 flex items-center justify-center pointer-events-none z-[100] ${gameMode !== 'listen' ? 'hidden' : ''}`}>
         {isPreloadingLevel && (
           <div className="bg-white/90 p-12 rounded-[50px] shadow-2xl flex flex-col items-center">
             <div className="w-20 h-20 border-8 border-green-200 border-t-green-600 rounded-full animate-spin mb-6"></div>
-            <h2 className="text-3xl font-black text-green-800 italic">Building Town...</h2>
+            <h2 className="text-3xl font-black text-green-800 italic">{t('buildingTown')}</h2>
           </div>
         )}
         {status === GameStatus.START && !isPreloadingLevel && (
           <div className="bg-white p-12 rounded-[50px] shadow-2xl border-8 border-yellow-400 text-center pointer-events-auto transform hover:scale-105 transition-transform">
             <div className="text-8xl mb-6">🗺️</div>
-            <h2 className="text-5xl font-black text-yellow-600 mb-4 italic">READY?</h2>
-            <p className="text-xl text-gray-600 mb-10 font-bold max-w-xs">Listen to the directions and find the <span className="text-red-500">Red House</span>!</p>
-            <button onClick={() => startStep(0)} className="bg-yellow-500 text-white font-black py-5 px-16 rounded-full text-3xl shadow-[0_10px_0_rgb(180,130,0)] active:translate-y-2 active:shadow-none transition-all">START!</button>
+            <h2 className="text-5xl font-black text-yellow-600 mb-4 italic">{t('ready')}</h2>
+            {landmarkMode && !lesson ? (
+              <p className="text-xl text-gray-600 mb-6 font-bold max-w-xs">{t('landmarkPrompt', { goal: <span className="text-red-500">{goalLabel}</span> })}</p>
+            ) : (
+              <p className="text-xl text-gray-600 mb-6 font-bold max-w-xs">{t('listenPrompt', { goal: <span className="text-red-500">{goalLabel}</span> })}</p>
+            )}
+            {!lesson && (
+              <div className="mb-6 flex justify-center gap-2">
+                <button onClick={() => { setLandmarkMode(m => !m); setCompassMode(false); }} className={`flex items-center gap-2 font-black py-2 px-5 rounded-full border-2 transition-all ${landmarkMode ? 'bg-blue-500 text-white border-blue-600' : 'bg-white text-blue-500 border-blue-200'}`}>
+                  <i className="fas fa-landmark"></i> {t('landmarkMode')} {t(landmarkMode ? 'on' : 'off')}
+                </button>
+                <button onClick={() => { setCompassMode(m => !m); setLandmarkMode(false); }} className={`flex items-center gap-2 font-black py-2 px-5 rounded-full border-2 transition-all ${compassMode ? 'bg-amber-500 text-white border-amber-600' : 'bg-white text-amber-600 border-amber-200'}`}>
+                  <i className="fas fa-compass"></i> {t('compassMode')} {t(compassMode ? 'on' : 'off')}
+                </button>
+                <button onClick={() => setMemoryMode(m => !m)} className={`flex items-center gap-2 font-black py-2 px-5 rounded-full border-2 transition-all ${memoryMode ? 'bg-purple-500 text-white border-purple-600' : 'bg-white text-purple-500 border-purple-200'}`}>
+                  <i className="fas fa-brain"></i> {t('memoryMode')} {t(memoryMode ? 'on' : 'off')}
+                </button>
+              </div>
+            )}
+            <button onClick={() => setGameMode('give')} className="mb-6 mx-auto flex items-center gap-2 font-black py-2 px-5 rounded-full border-2 bg-white text-teal-600 border-teal-300 transition-all">
+              <i className="fas fa-chalkboard-user"></i> {t('giveDirections')}
+            </button>
+            <div className="mb-6 flex justify-center gap-2">
+              <button onClick={() => setGameMode('host')} className="flex items-center gap-2 font-black py-2 px-5 rounded-full border-2 bg-white text-indigo-600 border-indigo-300 transition-all">
+                <i className="fas fa-tv"></i> {t('projector')}
+              </button>
+              <button onClick={() => setGameMode('student')} className="flex items-center gap-2 font-black py-2 px-5 rounded-full border-2 bg-white text-indigo-600 border-indigo-300 transition-all">
+                <i className="fas fa-users"></i> {t('joinClass')}
+              </button>
+            </div>
+            {lesson ? (
+              <div className="mb-8 inline-block bg-purple-50 border-2 border-dashed border-purple-400 rounded-2xl px-6 py-2">
+                <span className="text-[10px] font-black uppercase tracking-widest text-purple-700 block">{t('lesson')}</span>
+                <span className="text-2xl font-black text-purple-800">{lesson.index + 1} / {lesson.levels.length}</span>
+              </div>
+            ) : levelCode ? (
+              <div className="mb-8 inline-block bg-yellow-50 border-2 border-dashed border-yellow-400 rounded-2xl px-6 py-2">
+                <span className="text-[10px] font-black uppercase tracking-widest text-yellow-700 block">{t('levelCode')}</span>
+                <span className="text-3xl font-black text-yellow-800 tracking-widest font-mono">{levelCode}</span>
+              </div>
+            ) : (
+              <p className="mb-8 text-sm font-bold text-yellow-700"><i className="fas fa-user-check mr-1"></i> {t('madeForYou')}</p>
+            )}
+            <div>
+              <button onClick={startLevel} className="bg-yellow-500 text-white font-black py-5 px-16 rounded-full text-3xl shadow-[0_10px_0_rgb(180,130,0)] active:translate-y-2 active:shadow-none transition-all">{t('start')}</button>
+            </div>
+            <form onSubmit={e => { e.preventDefault(); loadLevelCode(); }} className="mt-8 flex items-center justify-center gap-2">
+              <input
+                value={codeInput}
+                onChange={e => { setCodeInput(e.target.value.toUpperCase()); setCodeError(false); }}
+                placeholder="L1-ABCD"
+                maxLength={10}
+                className={`w-36 px-4 py-2 rounded-full border-2 font-mono font-black text-center uppercase ${codeError ? 'border-red-400 text-red-600' : 'border-gray-300 text-gray-700'}`}
+              />
+              <button type="submit" className="bg-gray-200 text-gray-700 font-black py-2 px-5 rounded-full active:scale-95 transition-all">
+                <i className="fas fa-key mr-1"></i> {t('load')}
+              </button>
+            </form>
           </div>
         )}
         {status === GameStatus.LISTENING && (
           <div className="bg-white/80 p-10 rounded-full shadow-2xl border-4 border-blue-400 animate-bounce flex flex-col items-center backdrop-blur-sm">
             <i className="fas fa-ear-listen text-6xl text-blue-500 mb-2"></i>
-            <span className="text-3xl font-black text-blue-800 uppercase italic">Listen...</span>
+            <span className="text-3xl font-black text-blue-800 uppercase italic">{t('listen')}</span>
+            {memory && <span className="text-sm font-black text-purple-600 mt-1">{t('rememberAll')}</span>}
           </div>
         )}
         {status === GameStatus.SUCCESS && (
           <div className="bg-white p-12 rounded-[50px] shadow-2xl border-8 border-green-400 text-center pointer-events-auto">
             <div className="text-8xl mb-6">🏆</div>
-            <h2 className="text-5xl font-black text-green-600 mb-4">AMAZING!</h2>
-            <p className="text-xl text-gray-500 mb-10 font-bold italic">You found the Red House!</p>
-            <button onClick={nextLevel} className="bg-green-500 text-white font-black py-5 px-16 rounded-full text-3xl shadow-[0_10px_0_rgb(20,100,20)] active:translate-y-2 active:shadow-none transition-all">NEXT LEVEL</button>
+            <h2 className="text-5xl font-black text-green-600 mb-4">{t('amazing')}</h2>
+            <p className={`text-xl text-gray-500 font-bold italic ${result ? 'mb-4' : 'mb-10'}`}>{t('foundIt', { goal: goalLabel })}</p>
+            {result && (
+              <div className="mb-8">
+                <div className="text-5xl mb-2">
+                  {[1, 2, 3].map(n => <i key={n} className={`fas fa-star mx-1 ${n <= result.stars ? 'text-yellow-400' : 'text-gray-200'}`}></i>)}
+                </div>
+                <div className="text-4xl font-black text-gray-800">{result.score}</div>
+                <div className="text-xs font-bold text-gray-400 mb-4">
+                  {result.base} + <i className="fas fa-bolt"></i> {result.speedBonus} + <i className="fas fa-fire"></i> {result.streakBonus} − {result.penalty}
+                </div>
+                {result.rank === 0 && result.entries.length > 1 && <p className="font-black text-orange-500 mb-2">{t('newBest')}</p>}
+                <ol className="text-left bg-yellow-50 rounded-3xl p-3 max-w-xs mx-auto">
+                  {result.entries.slice(0, 5).map((entry, idx) => (
+                    <li key={idx} className={`flex items-center gap-2 px-2 py-0.5 rounded-full font-bold ${idx === result.rank ? 'bg-yellow-200 text-yellow-900' : 'text-gray-600'}`}>
+                      <span className="w-5 text-right">{idx + 1}.</span>
+                      <span>{entry.avatar}</span>
+                      <span className="flex-1 truncate">{entry.name}</span>
+                      <span className="text-yellow-500 text-xs">{'★'.repeat(entry.stars)}</span>
+                      <span className="font-black">{entry.score}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            {memory && <p className="font-black text-purple-600 mb-4"><i className="fas fa-brain mr-2"></i>{t('memorySpan', { n: longestCompletedStep(game) })}</p>}
+            <div className="flex justify-center gap-6 mb-4">
+              <button onClick={() => setShowReview(true)} className="font-black text-blue-500 active:scale-95 transition-all"><i className="fas fa-route mr-2"></i>{t('reviewRoute')}</button>
+              {lastAttempt && (
+                <button onClick={() => startReplay(lastAttempt)} className="font-black text-indigo-500 active:scale-95 transition-all"><i className="fas fa-film mr-2"></i>{t('watchReplay')}</button>
+              )}
+            </div>
+            <button onClick={nextLevel} className="bg-green-500 text-white font-black py-5 px-16 rounded-full text-3xl shadow-[0_10px_0_rgb(20,100,20)] active:translate-y-2 active:shadow-none transition-all">{t('nextLevel')}</button>
+          </div>
+        )}
+        {status === GameStatus.MISTAKE && lastMistake && (
+          <div className="bg-white p-10 rounded-[50px] shadow-2xl border-8 border-orange-300 text-center pointer-events-auto max-w-md">
+            <h2 className="text-4xl font-black text-orange-500 mb-4">{t('notQuite')}</h2>
+            <div className="flex items-center justify-center gap-6 mb-4">
+              <div className="flex flex-col items-center">
+                <span className="text-xs font-black text-gray-400 uppercase">{t('youPressed')}</span>
+                <div className="w-16 h-16 rounded-full bg-red-100 text-red-500 flex items-center justify-center text-3xl my-1"><i className={`fas ${DIRECTION_ICONS[lastMistake.given]}`}></i></div>
+                <span className="font-bold text-red-500">{t.dir(lastMistake.given)}</span>
+              </div>
+              <i className="fas fa-arrow-right text-2xl text-gray-300"></i>
+              <div className="flex flex-col items-center">
+                <span className="text-xs font-black text-gray-400 uppercase">{t('shouldBe')}</span>
+                <div className="w-16 h-16 rounded-full bg-green-100 text-green-600 flex items-center justify-center text-3xl my-1"><i className={`fas ${DIRECTION_ICONS[lastMistake.expected]}`}></i></div>
+                <span className="font-bold text-green-600">{t.dir(lastMistake.expected)}</span>
+              </div>
+            </div>
+            <button onClick={() => playSequence([lastMistake.expected], [stepPhrases(engineLevel, lastMistake.step)[lastMistake.index]])} className="font-black text-gray-800 text-xl mb-2 active:scale-95 transition-all">
+              <i className="fas fa-volume-up text-blue-500 mr-2"></i>"{stepPhrases(engineLevel, lastMistake.step)[lastMistake.index]}"
+            </button>
+            {hint && (
+              <p className="text-sm font-bold text-gray-500 mb-2"><Msg text={DIRECTION_MEANINGS_JA[lastMistake.expected]} furigana={language.furigana} /></p>
+            )}
+            <div className="flex gap-1 justify-center my-4" title={tPlain('livesLeft')}>
+              {Array.from({ length: game.lives }, (_, idx) => (
+                <i key={idx} className={`fas fa-heart text-2xl ${idx < game.livesLeft ? 'text-red-500' : 'text-gray-300'}`}></i>
+              ))}
+            </div>
+            <button onClick={() => startStep(currentStep)} className="bg-orange-400 text-white font-black py-4 px-10 rounded-full text-2xl shadow-[0_8px_0_rgb(180,90,20)] active:translate-y-2 active:shadow-none transition-all">{t('tryStep')}</button>
           </div>
         )}
         {status === GameStatus.FAIL && (
           <div className="bg-white p-12 rounded-[50px] shadow-2xl border-8 border-red-400 text-center pointer-events-auto">
             <div className="text-8xl mb-6">😵</div>
-            <h2 className="text-5xl font-black text-red-600 mb-4">OH NO!</h2>
-            <p className="text-xl text-gray-500 mb-10 font-bold">Try one more time!</p>
-            <button onClick={() => generateLevel(level)} className="bg-red-500 text-white font-black py-5 px-16 rounded-full text-3xl shadow-[0_10px_0_rgb(150,20,20)] active:translate-y-2 active:shadow-none transition-all">RETRY</button>
+            <h2 className="text-5xl font-black text-red-600 mb-4">{t('ohNo')}</h2>
+            <p className={`text-xl text-gray-500 font-bold ${hint ? 'mb-6' : 'mb-10'}`}>{t('tryAgain')}</p>
+            {hint && (
+              <div className="mb-8 text-left bg-blue-50 rounded-3xl p-4 max-w-sm mx-auto">
+                <p className="text-sm font-black text-blue-500 mb-2">{t('hintTitle')}</p>
+                {hint.commands.map((dir, idx) => (
+                  <div key={idx} className={`flex items-start gap-2 rounded-2xl px-2 py-1 ${idx === hint.mistake.index ? 'bg-red-100' : ''}`}>
+                    <i className={`fas ${DIRECTION_ICONS[dir]} text-blue-500 w-6 text-center mt-1`}></i>
+                    <div>
+                      <div className="font-black text-gray-800">{hint.phrases[idx]}</div>
+                      <div className="text-sm font-bold text-gray-500"><Msg text={DIRECTION_MEANINGS_JA[dir]} furigana={language.furigana} /></div>
+                    </div>
+                  </div>
+                ))}
+                <p className="text-sm font-bold text-red-500 mt-2">
+                  {t('youPressed')}: <i className={`fas ${DIRECTION_ICONS[hint.mistake.given]} mx-1`}></i>{t.dir(hint.mistake.given)}
+                </p>
+              </div>
+            )}
+            {memory && <p className="font-black text-purple-600 mb-4"><i className="fas fa-brain mr-2"></i>{t('memorySpan', { n: longestCompletedStep(game) })}</p>}
+            <div className="flex justify-center gap-6 mb-4">
+              <button onClick={() => setShowReview(true)} className="font-black text-blue-500 active:scale-95 transition-all"><i className="fas fa-route mr-2"></i>{t('reviewRoute')}</button>
+              {lastAttempt && (
+                <button onClick={() => startReplay(lastAttempt)} className="font-black text-indigo-500 active:scale-95 transition-all"><i className="fas fa-film mr-2"></i>{t('watchReplay')}</button>
+              )}
+            </div>
+            <button onClick={() => generateLevel(engineLevel)} className="bg-red-500 text-white font-black py-5 px-16 rounded-full text-3xl shadow-[0_10px_0_rgb(150,20,20)] active:translate-y-2 active:shadow-none transition-all">{t('retry')}</button>
           </div>
         )}
       </div>
@@ -335,25 +979,47 @@ const App: React.FC = () => {
       {showHelp && (
         <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={() => setShowHelp(false)}>
           <div className="bg-white p-8 rounded-[40px] max-w-md w-full shadow-2xl border-4 border-blue-400" onClick={e => e.stopPropagation()}>
-            <h2 className="text-3xl font-black text-blue-600 mb-4 text-center uppercase italic">Instructions</h2>
+            <h2 className="text-3xl font-black text-blue-600 mb-4 text-center uppercase italic">{t('instructions')}</h2>
             <div className="space-y-4 text-gray-700">
               <div className="flex items-center gap-4 bg-green-50 p-3 rounded-2xl">
                 <i className="fas fa-ear-listen text-2xl text-green-500"></i>
-                <p className="font-bold">1. Listen to the voice.</p>
+                <p className="font-bold">{t('help1')}</p>
               </div>
               <div className="flex items-center gap-4 bg-blue-50 p-3 rounded-2xl">
                 <i className="fas fa-hand-pointer text-2xl text-blue-500"></i>
-                <p className="font-bold">2. Use Arrows or Buttons to move.</p>
+                <p className="font-bold">{t('help2')}</p>
               </div>
               <div className="flex items-center gap-4 bg-red-50 p-3 rounded-2xl">
                 <i className="fas fa-home text-2xl text-red-500"></i>
-                <p className="font-bold">3. Reach the <span className="text-red-600">Red House</span>!</p>
+                <p className="font-bold">{t('help3', { goal: <span className="text-red-600">{goalLabel}</span> })}</p>
               </div>
             </div>
-            <button onClick={() => setShowHelp(false)} className="w-full mt-6 bg-blue-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1">GOT IT!</button>
+            <button onClick={() => setShowHelp(false)} className="w-full mt-6 bg-blue-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1">{t('gotIt')}</button>
           </div>
         </div>
       )}
+
+      {showEditor && <LevelEditor onClose={() => setShowEditor(false)} onPlay={playLesson} />}
+
+      {showProgress && profile && (
+        <ProgressScreen
+          profile={profile}
+          language={language}
+          onClose={() => setShowProgress(false)}
+          onPlayLevel={playUnlockedLevel}
+          onSwitch={() => { setShowProgress(false); setShowProfiles(true); }}
+          onReset={() => updateProfile(resetProgress)}
+        />
+      )}
+      {showReview && (status === GameStatus.SUCCESS || status === GameStatus.FAIL) && (
+        <RouteReview level={engineLevel} review={reviewRoute(game)!} language={language} onClose={() => setShowReview(false)} />
+      )}
+      {showMap && <LevelMap profile={profile} language={language} onPlayLevel={playUnlockedLevel} onClose={() => setShowMap(false)} />}
+      {showProfiles && <ProfilePicker language={language} onPick={pickProfile} />}
+      {showDashboard && <TeacherDashboard allowPinSetup={teacherSetup} onReplay={startReplay} onClose={() => { setShowDashboard(false); setDifficultySettings(loadDifficultySettings()); setQuality(loadQualitySetting()); }} />}
+      {showVoice && <VoicePicker voice={voice} onChange={setVoice} onTest={dir => { playSequence([dir]); }} onRecord={() => { setShowVoice(false); setShowRecorder(true); }} onClose={() => setShowVoice(false)} />}
+      {showLanguage && <LanguagePicker settings={language} onChange={setLanguage} onClose={() => setShowLanguage(false)} />}
+      {showRecorder && <ClipRecorder onClose={clips => { setShowRecorder(false); audio.setCustomClips(clips); }} />}
     </div>
   );
 };
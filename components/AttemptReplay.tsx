@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameStatus, Position } from '../types';
+import { DIRECTION_ICONS, DIRECTION_LABELS } from '../constants';
+import { EngineLevel } from '../services/gameEngine';
+import { AttemptEvent, AttemptRecording, replayFrames, serializeAttempt } from '../services/attemptLog';
+import { downloadTextFile } from '../services/levelFiles';
+import CommandIndicator from './CommandIndicator';
+
+interface AttemptReplayProps {
+  attempt: AttemptRecording;
+  level: EngineLevel;
+  onPosition: (pos: Position) => void;
+  onExit: () => void;
+}
+
+// Long thinking pauses are shortened so the class is not left waiting.
+const MAX_PAUSE_MS = 4000;
+
+const formatTime = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const STATUS_CAPTIONS: Partial<Record<GameStatus, { icon: string; text: string; color: string }>> = {
+  [GameStatus.MOVING]: { icon: 'fa-hand-pointer', text: 'Answering…', color: 'text-gray-500' },
+  [GameStatus.MISTAKE]: { icon: 'fa-heart-crack', text: 'Lost a life', color: 'text-orange-500' },
+  [GameStatus.FAIL]: { icon: 'fa-circle-xmark', text: 'Out of lives', color: 'text-red-500' },
+  [GameStatus.SUCCESS]: { icon: 'fa-trophy', text: 'Found the goal!', color: 'text-green-600' }
+};
+
+const Caption: React.FC<{ event: AttemptEvent | null; attempt: AttemptRecording }> = ({ event, attempt }) => {
+  if (!event) return <p className="font-bold text-gray-500">{attempt.studentName} is about to start.</p>;
+  switch (event.type) {
+    case 'play':
+      return (
+        <p className="font-bold text-gray-700">
+          <i className="fas fa-volume-up text-yellow-500 mr-2"></i>Step {event.step + 1}: {event.phrases.map(p => `"${p}"`).join(' ')}
+        </p>
+      );
+    case 'replay':
+      return <p className="font-bold text-yellow-600"><i className="fas fa-rotate-right mr-2"></i>Pressed Listen Again</p>;
+    case 'hint':
+      return <p className="font-bold text-amber-600"><i className="fas fa-lightbulb mr-2"></i>Took hint {event.hintLevel}</p>;
+    case 'input':
+      return event.correct ? (
+        <p className="font-bold text-green-600">
+          <i className="fas fa-check mr-2"></i>Pressed <i className={`fas ${DIRECTION_ICONS[event.given]} mx-1`}></i>{DIRECTION_LABELS[event.given]}
+        </p>
+      ) : (
+        <p className="font-bold text-red-500">
+          <i className="fas fa-times mr-2"></i>Pressed <i className={`fas ${DIRECTION_ICONS[event.given]} mx-1`}></i>{DIRECTION_LABELS[event.given]}
+          <span className="text-gray-500"> · the answer was <i className={`fas ${DIRECTION_ICONS[event.expected]} mx-1 text-green-600`}></i>{DIRECTION_LABELS[event.expected]}</span>
+        </p>
+      );
+    case 'status': {
+      const caption = STATUS_CAPTIONS[event.status];
+      return caption ? <p className={`font-bold ${caption.color}`}><i className={`fas ${caption.icon} mr-2`}></i>{caption.text}</p> : null;
+    }
+  }
+};
+
+// Plays a recorded attempt back through the Town for whole-class review, with pause and step-through.
+const AttemptReplay: React.FC<AttemptReplayProps> = ({ attempt, level, onPosition, onExit }) => {
+  const frames = useMemo(() => replayFrames(level, attempt), [level, attempt]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const frame = frames[index];
+  const last = frames.length - 1;
+  const { state } = frame;
+
+  useEffect(() => onPosition(state.playerPos), [state.playerPos]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= last) {
+      setPlaying(false);
+      return;
+    }
+    const gap = Math.min(MAX_PAUSE_MS, frames[index + 1].t - frame.t);
+    const timer = setTimeout(() => setIndex(i => i + 1), gap / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, speed, frames]);
+
+  const stepTo = (next: number) => {
+    setPlaying(false);
+    setIndex(Math.max(0, Math.min(last, next)));
+  };
+
+  const save = () => {
+    const name = attempt.studentName.replace(/[^\w-]+/g, '-').toLowerCase();
+    downloadTextFile(`direction-detective-attempt-${name}-${new Date(attempt.startedAt).toISOString().slice(0, 10)}.json`, serializeAttempt(attempt));
+  };
+
+  const showCommands = state.status === GameStatus.LISTENING || state.status === GameStatus.MOVING || state.status === GameStatus.MISTAKE;
+
+  return (
+    <div className="absolute inset-0 z-[100] pointer-events-none">
+      {showCommands && <CommandIndicator commands={state.commandsForCurrentStep} movesMade={state.movesMadeInStep} showNext={state.hintLevel >= 3} />}
+
+      <div className="absolute top-4 left-4 pointer-events-auto bg-white/95 p-4 rounded-3xl shadow-xl border-4 border-indigo-400 w-64">
+        <div className="text-xs font-black uppercase tracking-widest text-indigo-400">Replay</div>
+        <div className="text-xl font-black text-indigo-700 truncate">{attempt.studentName}</div>
+        <div className="text-sm font-bold text-gray-500 truncate">{attempt.levelLabel} · {new Date(attempt.startedAt).toLocaleString()}</div>
+        <div className="flex items-center justify-between mt-2 text-sm font-bold text-gray-600">
+          <span>Step {state.currentStep + 1} / {level.steps.length}</span>
+          {state.lives > 1 && (
+            <span>
+              {Array.from({ length: state.lives }, (_, idx) => (
+                <i key={idx} className={`fas fa-heart ${idx < state.livesLeft ? 'text-red-500' : 'text-gray-300'}`}></i>
+              ))}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 pointer-events-auto bg-white/95 p-5 rounded-[40px] shadow-2xl border-4 border-indigo-400 w-[36rem] max-w-[95vw]">
+        <div className="min-h-[3rem] mb-2 flex items-center">
+          <Caption event={frame.event} attempt={attempt} />
+        </div>
+        <div className="flex items-center gap-3 mb-3">
+          <span className="text-xs font-black text-gray-400 w-10 text-right">{formatTime(frame.t)}</span>
+          <input type="range" min={0} max={last} value={index} onChange={e => stepTo(Number(e.target.value))} className="flex-1 accent-indigo-500" />
+          <span className="text-xs font-black text-gray-400 w-10">{formatTime(frames[last].t)}</span>
+        </div>
+        <div className="flex items-center justify-center gap-2">
+          <button onClick={() => stepTo(0)} title="Back to the start" className="w-12 h-12 rounded-full bg-indigo-50 text-indigo-600 active:scale-90 transition-all"><i className="fas fa-backward-fast"></i></button>
+          <button onClick={() => stepTo(index - 1)} disabled={index === 0} title="Previous event" className="w-12 h-12 rounded-full bg-indigo-50 text-indigo-600 active:scale-90 transition-all disabled:opacity-40"><i className="fas fa-backward-step"></i></button>
+          <button
+            onClick={() => (index >= last ? (setIndex(0), setPlaying(true)) : setPlaying(p => !p))}
+            title={playing ? 'Pause' : 'Play'}
+            className="w-16 h-16 rounded-full bg-indigo-500 text-white text-2xl shadow-lg active:scale-90 transition-all"
+          >
+            <i className={`fas ${playing ? 'fa-pause' : 'fa-play'}`}></i>
+          </button>
+          <button onClick={() => stepTo(index + 1)} disabled={index >= last} title="Next event" className="w-12 h-12 rounded-full bg-indigo-50 text-indigo-600 active:scale-90 transition-all disabled:opacity-40"><i className="fas fa-forward-step"></i></button>
+          <button onClick={() => setSpeed(s => (s === 1 ? 2 : 1))} title="Playback speed" className="w-12 h-12 rounded-full bg-indigo-50 text-indigo-600 font-black active:scale-90 transition-all">{speed}×</button>
+          <span className="w-4"></span>
+          <button onClick={save} title="Save this recording" className="w-12 h-12 rounded-full bg-gray-100 text-gray-600 active:scale-90 transition-all"><i className="fas fa-download"></i></button>
+          <button onClick={onExit} title="Close the replay" className="w-12 h-12 rounded-full bg-gray-100 text-gray-600 active:scale-90 transition-all"><i className="fas fa-times"></i></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptReplay;
@@ -1,6 +1,7 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { ThreeElements } from '@react-three/fiber';
+import * as THREE from 'three';
 
 // Fix: Augment the React.JSX namespace to include Three.js elements.
 // Modern React (18+) and tools like Vite typically look for intrinsic elements in the React.JSX namespace.
@@ -12,15 +13,181 @@ declare global {
   }
 }
 
+export type BuildingType = 'house' | 'store' | 'park' | 'tree' | 'lamp' | 'station' | 'school' | 'hospital' | 'postOffice' | 'library';
+
 interface BuildingProps {
   position: [number, number, number];
   color?: string;
   isGoal?: boolean;
-  type?: 'house' | 'store' | 'park' | 'tree' | 'lamp';
+  type?: BuildingType;
   rotation?: [number, number, number];
+  label?: string;
 }
 
-const Building: React.FC<BuildingProps> = ({ position, color = "#fbbf24", isGoal = false, type = 'house', rotation = [0, 0, 0] }) => {
+// Text painted onto a canvas so signs work without loading a font file.
+export const Sign: React.FC<{ text: string; width: number; height: number; position: [number, number, number]; background?: string; color?: string }> = ({ text, width, height, position, background = '#ffffff', color = '#1f2937' }) => {
+  const texture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = Math.round((512 * height) / width);
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = color;
+    ctx.font = `bold ${Math.round(canvas.height * 0.6)}px 'Comic Sans MS', 'Chalkboard SE', Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, canvas.width / 2, canvas.height / 2, canvas.width * 0.92);
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+  }, [text, width, height, background, color]);
+
+  return (
+    <mesh position={position}>
+      <planeGeometry args={[width, height]} />
+      <meshStandardMaterial map={texture} />
+    </mesh>
+  );
+};
+
+// Floating marker that singles out a landmark when it is the goal.
+const GoalMarker: React.FC<{ height: number }> = ({ height }) => (
+  <mesh position={[0, height, 0]} rotation={[Math.PI, 0, 0]}>
+    <coneGeometry args={[0.5, 1, 4]} />
+    <meshStandardMaterial color="#ef4444" emissive="#ef4444" emissiveIntensity={0.6} />
+  </mesh>
+);
+
+const Landmark: React.FC<{ type: BuildingType; label?: string; isGoal: boolean }> = ({ type, label, isGoal }) => {
+  if (type === 'station') {
+    return (
+      <>
+        <mesh position={[0, 1, 0]} castShadow receiveShadow>
+          <boxGeometry args={[4, 2, 2.6]} />
+          <meshStandardMaterial color="#cbd5e1" />
+        </mesh>
+        <mesh position={[0, 2.15, 0.3]} castShadow>
+          <boxGeometry args={[4.4, 0.3, 3.4]} />
+          <meshStandardMaterial color="#475569" />
+        </mesh>
+        <mesh position={[0, 0.6, 1.31]}>
+          <planeGeometry args={[1.6, 1.2]} />
+          <meshStandardMaterial color="#1e293b" />
+        </mesh>
+        <Sign text={(label ?? 'station').toUpperCase()} width={3} height={0.5} position={[0, 1.6, 1.32]} background="#1d4ed8" color="#ffffff" />
+        {isGoal && <GoalMarker height={3.6} />}
+      </>
+    );
+  }
+
+  if (type === 'school') {
+    return (
+      <>
+        <mesh position={[0, 1.5, 0]} castShadow receiveShadow>
+          <boxGeometry args={[4, 3, 2.6]} />
+          <meshStandardMaterial color="#fde68a" />
+        </mesh>
+        <mesh position={[0, 3.3, 0]}>
+          <cylinderGeometry args={[0.45, 0.45, 0.1, 24]} />
+          <meshStandardMaterial color="#ffffff" />
+        </mesh>
+        {[-1.3, -0.4, 0.5, 1.4].map(x => (
+          <mesh key={x} position={[x - 0.05, 2.2, 1.31]}>
+            <planeGeometry args={[0.6, 0.5]} />
+            <meshStandardMaterial color="#bae6fd" />
+          </mesh>
+        ))}
+        <mesh position={[0, 0.55, 1.31]}>
+          <planeGeometry args={[1, 1.1]} />
+          <meshStandardMaterial color="#92400e" />
+        </mesh>
+        <Sign text={(label ?? 'school').toUpperCase()} width={2.4} height={0.45} position={[0, 1.45, 1.32]} />
+        {isGoal && <GoalMarker height={4.4} />}
+      </>
+    );
+  }
+
+  if (type === 'hospital') {
+    return (
+      <>
+        <mesh position={[0, 2, 0]} castShadow receiveShadow>
+          <boxGeometry args={[3.2, 4, 3]} />
+          <meshStandardMaterial color="#f8fafc" />
+        </mesh>
+        <mesh position={[0, 3.2, 1.51]}>
+          <planeGeometry args={[0.9, 0.3]} />
+          <meshStandardMaterial color="#dc2626" />
+        </mesh>
+        <mesh position={[0, 3.2, 1.51]}>
+          <planeGeometry args={[0.3, 0.9]} />
+          <meshStandardMaterial color="#dc2626" />
+        </mesh>
+        <mesh position={[0, 0.6, 1.51]}>
+          <planeGeometry args={[1.4, 1.2]} />
+          <meshStandardMaterial color="#93c5fd" />
+        </mesh>
+        <Sign text={(label ?? 'hospital').toUpperCase()} width={2.6} height={0.45} position={[0, 1.6, 1.52]} color="#dc2626" />
+        {isGoal && <GoalMarker height={5.2} />}
+      </>
+    );
+  }
+
+  if (type === 'postOffice') {
+    return (
+      <>
+        <mesh position={[0, 1.1, 0]} castShadow receiveShadow>
+          <boxGeometry args={[3, 2.2, 3]} />
+          <meshStandardMaterial color="#ef4444" />
+        </mesh>
+        <mesh position={[0, 2.35, 0]} castShadow>
+          <boxGeometry args={[3.2, 0.3, 3.2]} />
+          <meshStandardMaterial color="#f8fafc" />
+        </mesh>
+        <mesh position={[0, 0.55, 1.51]}>
+          <planeGeometry args={[1, 1.1]} />
+          <meshStandardMaterial color="#451a03" />
+        </mesh>
+        <Sign text={`〒 ${(label ?? 'post office').toUpperCase()}`} width={2.8} height={0.5} position={[0, 1.6, 1.52]} color="#dc2626" />
+        {isGoal && <GoalMarker height={3.6} />}
+      </>
+    );
+  }
+
+  // Library: a columned front under a flat pediment.
+  return (
+    <>
+      <mesh position={[0, 1.2, -0.3]} castShadow receiveShadow>
+        <boxGeometry args={[3.4, 2.4, 2.4]} />
+        <meshStandardMaterial color="#e7e5e4" />
+      </mesh>
+      {[-1.3, -0.45, 0.45, 1.3].map(x => (
+        <mesh key={x} position={[x, 1.1, 1.2]} castShadow>
+          <cylinderGeometry args={[0.15, 0.15, 2.2, 12]} />
+          <meshStandardMaterial color="#fafaf9" />
+        </mesh>
+      ))}
+      <mesh position={[0, 2.5, 0.3]} castShadow>
+        <boxGeometry args={[3.8, 0.4, 3.4]} />
+        <meshStandardMaterial color="#a8a29e" />
+      </mesh>
+      <Sign text={(label ?? 'library').toUpperCase()} width={2.6} height={0.35} position={[0, 2.5, 2.01]} background="#78716c" color="#ffffff" />
+      {isGoal && <GoalMarker height={4} />}
+    </>
+  );
+};
+
+const LANDMARK_TYPES: BuildingType[] = ['station', 'school', 'hospital', 'postOffice', 'library'];
+
+const Building: React.FC<BuildingProps> = ({ position, color = "#fbbf24", isGoal = false, type = 'house', rotation = [0, 0, 0], label }) => {
+  if (LANDMARK_TYPES.includes(type)) {
+    return (
+      <group position={position} rotation={rotation}>
+        <Landmark type={type} label={label} isGoal={isGoal} />
+      </group>
+    );
+  }
+
   if (type === 'tree') {
     return (
       <group position={position}>
@@ -68,6 +235,15 @@ const Building: React.FC<BuildingProps> = ({ position, color = "#fbbf24", isGoal
           <boxGeometry args={[1.5, 0.1, 0.5]} />
           <meshStandardMaterial color="#8d6e63" />
         </mesh>
+        {label && (
+          <group position={[1.6, 0, -1.6]}>
+            <mesh position={[0, 0.6, 0]}>
+              <cylinderGeometry args={[0.05, 0.05, 1.2, 8]} />
+              <meshStandardMaterial color="#5d4037" />
+            </mesh>
+            <Sign text={label.toUpperCase()} width={1.4} height={0.4} position={[0, 1.3, 0]} background="#2e7d32" color="#ffffff" />
+          </group>
+        )}
       </group>
     );
   }
@@ -95,6 +271,7 @@ const Building: React.FC<BuildingProps> = ({ position, color = "#fbbf24", isGoal
             <planeGeometry args={[1, 1]} />
             <meshStandardMaterial color="#bbdefb" />
           </mesh>
+          {label && <Sign text={label.toUpperCase()} width={2.4} height={0.5} position={[0, 0, 0.06]} />}
         </group>
       )}
 
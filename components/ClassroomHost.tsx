@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Direction, Position } from '../types';
+import { DIRECTION_ICONS, DIRECTION_LABELS } from '../constants';
+import { EngineLevel, traceRoute } from '../services/gameEngine';
+import { ClassroomConnection, ClassroomMessage, ClassroomTransport, MAX_STUDENTS, answerDistribution, isAnswerCorrect, isValidAnswer, randomRoomCode } from '../services/classroom';
+
+interface ClassroomHostProps {
+  level: EngineLevel;
+  transport: ClassroomTransport;
+  onPlayStep: (step: number) => Promise<void>;
+  onPosition: (pos: Position) => void;
+  onExit: () => void;
+}
+
+type Phase = 'lobby' | 'answering' | 'revealed' | 'done';
+
+const MOVE_DURATION = 600;
+
+// Projector screen: the Town stays visible while the teacher plays each step and the class answers.
+const ClassroomHost: React.FC<ClassroomHostProps> = ({ level, transport, onPlayStep, onPosition, onExit }) => {
+  const [room] = useState(randomRoomCode);
+  const [error, setError] = useState<string | null>(null);
+  const [students, setStudents] = useState<Record<string, string>>({});
+  const [phase, setPhase] = useState<Phase>('lobby');
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, Direction[]>>({});
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [isPlaying, setIsPlaying] = useState(false);
+  const connection = useRef<ClassroomConnection | null>(null);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const live = useRef({ phase, step });
+  live.current = { phase, step };
+
+  const expected = level.steps[step] ?? [];
+  const stepMessage = (s: number, to?: string): ClassroomMessage => ({
+    type: 'step', to, step: s, totalSteps: level.steps.length, slots: level.steps[s].length, vocabulary: level.vocabulary
+  });
+
+  useEffect(() => {
+    const conn = transport.connect({ room, role: 'host' }, (msg) => {
+      switch (msg.type) {
+        case 'joined':
+          setStudents(s => ({ ...s, [msg.from]: msg.name }));
+          // Late joiners get the step that is currently open.
+          if (live.current.phase === 'answering') conn.send(stepMessage(live.current.step, msg.from));
+          break;
+        case 'left':
+          setStudents(s => {
+            const next = { ...s };
+            delete next[msg.from];
+            return next;
+          });
+          break;
+        case 'answer':
+          if (msg.from && msg.step === live.current.step && live.current.phase === 'answering' && isValidAnswer(msg.answer, level.vocabulary, level.steps[msg.step].length)) {
+            setAnswers(a => ({ ...a, [msg.from!]: msg.answer }));
+          }
+          break;
+        case 'error':
+          setError(msg.message);
+          break;
+      }
+    });
+    connection.current = conn;
+    onPosition(level.start);
+    return () => {
+      timers.current.forEach(clearTimeout);
+      conn.send({ type: 'end' });
+      conn.close();
+    };
+  }, [transport, room]);
+
+  const playStep = async () => {
+    setAnswers({});
+    setPhase('answering');
+    connection.current?.send(stepMessage(step));
+    setIsPlaying(true);
+    await onPlayStep(step);
+    setIsPlaying(false);
+  };
+
+  const reveal = () => {
+    connection.current?.send({ type: 'reveal', step, expected });
+    setScores(s => {
+      const next = { ...s };
+      Object.keys(students).forEach(id => {
+        if (isAnswerCorrect(answers[id], expected)) next[id] = (next[id] ?? 0) + 1;
+      });
+      return next;
+    });
+    setPhase('revealed');
+
+    // Drive the projector's player along the step so the class sees the right way.
+    const offset = level.steps.slice(0, step).reduce((sum, s) => sum + s.length, 0);
+    const trace = traceRoute(level.start, level.path).slice(offset, offset + expected.length + 1);
+    trace.slice(1).forEach((pos, idx) => {
+      timers.current.push(setTimeout(() => onPosition(pos), (idx + 1) * MOVE_DURATION));
+    });
+  };
+
+  const next = () => {
+    if (step + 1 < level.steps.length) {
+      setStep(step + 1);
+      setAnswers({});
+      setPhase('lobby');
+    } else {
+      connection.current?.send({ type: 'end' });
+      setPhase('done');
+    }
+  };
+
+  const studentIds = Object.keys(students);
+  const answered = studentIds.filter(id => answers[id]).length;
+  const distribution = answerDistribution(studentIds.map(id => answers[id]).filter(Boolean), expected.length);
+  const ranking = [...studentIds].sort((a, b) => (scores[b] ?? 0) - (scores[a] ?? 0));
+
+  return (
+    <div className="absolute inset-0 z-[100] pointer-events-none flex justify-between p-4 gap-4">
+      {/* Room */}
+      <div className="pointer-events-auto bg-white/95 p-6 rounded-[40px] shadow-2xl border-4 border-indigo-400 self-start w-72">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-black uppercase tracking-widest text-indigo-400">Room Code</span>
+          <button onClick={onExit} className="w-10 h-10 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <div className="text-6xl font-black font-mono tracking-widest text-indigo-700 mb-4">{room}</div>
+        {error && <p className="text-sm font-bold text-red-500 mb-3"><i className="fas fa-plug mr-1"></i>{error} Is <code>npm run relay</code> running?</p>}
+        <div className="text-sm font-bold text-gray-500 mb-2">
+          <i className="fas fa-users mr-1"></i>{studentIds.length} / {MAX_STUDENTS} students
+        </div>
+        <div className="flex flex-wrap gap-1 max-h-64 overflow-y-auto">
+          {studentIds.map(id => {
+            const done = !!answers[id];
+            const right = phase === 'revealed' && isAnswerCorrect(answers[id], expected);
+            const wrong = phase === 'revealed' && !right;
+            return (
+              <span key={id} className={`px-2 py-1 rounded-full text-xs font-black ${right ? 'bg-green-500 text-white' : wrong ? 'bg-red-100 text-red-500' : done ? 'bg-indigo-500 text-white' : 'bg-gray-100 text-gray-500'}`}>
+                {students[id]}
+              </span>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Step control and answers */}
+      <div className="pointer-events-auto bg-white/95 p-6 rounded-[40px] shadow-2xl border-4 border-indigo-400 self-end w-[28rem] max-w-full">
+        {phase === 'done' ? (
+          <>
+            <h2 className="text-3xl font-black text-indigo-600 italic mb-4">Class Results</h2>
+            <ol className="space-y-1 mb-4 max-h-64 overflow-y-auto">
+              {ranking.map((id, idx) => (
+                <li key={id} className="flex justify-between font-bold text-gray-700">
+                  <span>{idx + 1}. {students[id]}</span>
+                  <span className="text-indigo-600">{scores[id] ?? 0} / {level.steps.length}</span>
+                </li>
+              ))}
+            </ol>
+            <button onClick={onExit} className="w-full bg-indigo-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1">FINISH</button>
+          </>
+        ) : (
+          <>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-2xl font-black text-indigo-600 italic">Step {step + 1} / {level.steps.length}</h2>
+              {phase !== 'lobby' && <span className="font-black text-gray-500">{answered} / {studentIds.length} answered</span>}
+            </div>
+
+            {phase !== 'lobby' && (
+              <div className="space-y-3 mb-4">
+                {distribution.map((counts, idx) => (
+                  <div key={idx} className="flex items-center gap-2">
+                    <span className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center font-black text-gray-500">{idx + 1}</span>
+                    <div className="flex-1 flex flex-wrap gap-1">
+                      {(Object.keys(counts) as Direction[]).sort((a, b) => counts[b]! - counts[a]!).map(dir => (
+                        <span
+                          key={dir}
+                          title={DIRECTION_LABELS[dir]}
+                          className={`px-3 py-1 rounded-full font-black text-sm ${phase === 'revealed' && dir === expected[idx] ? 'bg-green-500 text-white' : 'bg-indigo-100 text-indigo-700'}`}
+                        >
+                          <i className={`fas ${DIRECTION_ICONS[dir]} mr-1`}></i>{counts[dir]}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {phase === 'lobby' && (
+              <button onClick={playStep} disabled={!!error} className="w-full bg-yellow-500 text-white font-black py-4 rounded-full text-2xl shadow-lg active:translate-y-1 disabled:opacity-50">
+                <i className="fas fa-play mr-2"></i>PLAY STEP
+              </button>
+            )}
+            {phase === 'answering' && (
+              <div className="flex gap-2">
+                <button onClick={() => { setIsPlaying(true); onPlayStep(step).finally(() => setIsPlaying(false)); }} disabled={isPlaying} className="bg-yellow-400 text-yellow-900 font-black py-4 px-6 rounded-full active:translate-y-1 disabled:opacity-50">
+                  <i className="fas fa-volume-up"></i>
+                </button>
+                <button onClick={reveal} disabled={isPlaying} className="flex-1 bg-indigo-500 text-white font-black py-4 rounded-full text-2xl shadow-lg active:translate-y-1 disabled:opacity-50">REVEAL</button>
+              </div>
+            )}
+            {phase === 'revealed' && (
+              <button onClick={next} className="w-full bg-green-500 text-white font-black py-4 rounded-full text-2xl shadow-lg active:translate-y-1">
+                {step + 1 < level.steps.length ? 'NEXT STEP' : 'RESULTS'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomHost;
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Direction } from '../types';
+import { DIRECTION_ICONS } from '../constants';
+import { ClassroomConnection, ClassroomTransport, isAnswerCorrect } from '../services/classroom';
+import { LanguageSettings, MESSAGES, plainMessage } from '../services/i18n';
+import { translator } from './Msg';
+
+interface ClassroomStudentProps {
+  transport: ClassroomTransport;
+  initialRoom?: string;
+  defaultName?: string;
+  language: LanguageSettings;
+  onExit: () => void;
+}
+
+type Phase = 'join' | 'waiting' | 'answering' | 'sent' | 'revealed' | 'ended';
+
+// A student's device in projector mode: listen to the projector and send your answer.
+const ClassroomStudent: React.FC<ClassroomStudentProps> = ({ transport, initialRoom = '', defaultName = '', language, onExit }) => {
+  const t = translator(language);
+  const messages = MESSAGES[language.locale];
+  const [room, setRoom] = useState(initialRoom);
+  const [name, setName] = useState(defaultName);
+  const [phase, setPhase] = useState<Phase>('join');
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState<{ step: number; totalSteps: number; slots: number; vocabulary: Direction[] } | null>(null);
+  const [answer, setAnswer] = useState<Direction[]>([]);
+  const [expected, setExpected] = useState<Direction[]>([]);
+  const [score, setScore] = useState(0);
+  const connection = useRef<ClassroomConnection | null>(null);
+  const sent = useRef<Direction[]>([]);
+
+  useEffect(() => () => connection.current?.close(), []);
+
+  const join = () => {
+    if (room.length !== 4 || !name.trim()) return;
+    setError(null);
+    connection.current?.close();
+    connection.current = transport.connect({ room, role: 'student', name: name.trim() }, (msg) => {
+      switch (msg.type) {
+        case 'welcome':
+          setPhase('waiting');
+          break;
+        case 'step':
+          setStep(msg);
+          setAnswer([]);
+          sent.current = [];
+          setPhase('answering');
+          break;
+        case 'reveal':
+          setExpected(msg.expected);
+          if (isAnswerCorrect(sent.current, msg.expected)) setScore(s => s + 1);
+          setPhase('revealed');
+          break;
+        case 'end':
+          setPhase('ended');
+          break;
+        case 'error':
+          setError(msg.message);
+          setPhase('join');
+          break;
+      }
+    });
+  };
+
+  const send = () => {
+    if (!step || answer.length !== step.slots) return;
+    sent.current = answer;
+    connection.current?.send({ type: 'answer', step: step.step, answer });
+    setPhase('sent');
+  };
+
+  const correct = isAnswerCorrect(sent.current, expected);
+
+  return (
+    <div className="absolute inset-0 bg-indigo-50 z-[200] flex items-center justify-center p-6">
+      <button onClick={onExit} className="absolute top-4 right-4 w-12 h-12 rounded-full bg-white text-gray-500 shadow active:scale-90 transition-all">
+        <i className="fas fa-times text-xl"></i>
+      </button>
+
+      <div className="bg-white p-8 rounded-[40px] max-w-md w-full shadow-2xl border-4 border-indigo-400 text-center">
+        {phase === 'join' && (
+          <form onSubmit={e => { e.preventDefault(); join(); }}>
+            <h2 className="text-3xl font-black text-indigo-600 mb-6 uppercase italic">{t('joinClass')}</h2>
+            <input
+              value={room}
+              onChange={e => setRoom(e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+              placeholder={plainMessage(messages.room)}
+              maxLength={4}
+              className="w-full px-6 py-4 rounded-full border-4 border-indigo-200 text-4xl font-black font-mono text-center tracking-widest text-indigo-700 mb-3"
+            />
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder={plainMessage(messages.yourName)}
+              maxLength={20}
+              className="w-full px-6 py-3 rounded-full border-4 border-indigo-200 text-xl font-black text-center text-gray-700 mb-4"
+            />
+            {error && <p className="text-sm font-bold text-red-500 mb-3">{error}</p>}
+            <button type="submit" disabled={room.length !== 4 || !name.trim()} className="w-full bg-indigo-500 text-white font-black py-4 rounded-full text-2xl shadow-lg active:translate-y-1 disabled:opacity-40">{t('join')}</button>
+          </form>
+        )}
+
+        {phase === 'waiting' && (
+          <>
+            <i className="fas fa-tv text-6xl text-indigo-400 mb-4 animate-pulse"></i>
+            <h2 className="text-2xl font-black text-indigo-600">{t('lookAtScreen')}</h2>
+            <p className="font-bold text-gray-400 mt-2">{t('waitingForTeacher')}</p>
+          </>
+        )}
+
+        {phase === 'answering' && step && (
+          <>
+            <h2 className="text-xl font-black text-indigo-600 mb-4">{t('stepOf', { n: step.step + 1, total: step.totalSteps })}</h2>
+            <div className="flex justify-center gap-2 mb-6">
+              {Array.from({ length: step.slots }, (_, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => setAnswer(a => a.slice(0, idx))}
+                  className={`w-14 h-14 rounded-full flex items-center justify-center text-2xl ${answer[idx] ? 'bg-indigo-500 text-white' : idx === answer.length ? 'bg-indigo-100 text-indigo-400 border-4 border-indigo-300' : 'bg-gray-100 text-gray-300'}`}
+                >
+                  {answer[idx] ? <i className={`fas ${DIRECTION_ICONS[answer[idx]]}`}></i> : <span className="font-black">?</span>}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2 mb-6">
+              {step.vocabulary.map(dir => (
+                <button
+                  key={dir}
+                  onClick={() => setAnswer(a => (a.length < step.slots ? [...a, dir] : a))}
+                  className="bg-blue-500 text-white rounded-2xl border-b-[6px] border-blue-700 py-3 flex flex-col items-center active:translate-y-1 active:border-b-0 transition-all"
+                >
+                  <i className={`fas ${DIRECTION_ICONS[dir]} text-3xl`}></i>
+                  <span className="text-[9px] font-black uppercase">{t.dir(dir)}</span>
+                </button>
+              ))}
+            </div>
+            <button onClick={send} disabled={answer.length !== step.slots} className="w-full bg-green-500 text-white font-black py-4 rounded-full text-2xl shadow-lg active:translate-y-1 disabled:opacity-40">{t('send')}</button>
+          </>
+        )}
+
+        {phase === 'sent' && (
+          <>
+            <i className="fas fa-paper-plane text-6xl text-green-500 mb-4"></i>
+            <h2 className="text-2xl font-black text-green-600">{t('sent')}</h2>
+            <p className="font-bold text-gray-400 mt-2">{t('watchForAnswer')}</p>
+          </>
+        )}
+
+        {phase === 'revealed' && (
+          <>
+            <div className="text-7xl mb-4">{correct ? '🎉' : '🤔'}</div>
+            <h2 className={`text-3xl font-black mb-4 ${correct ? 'text-green-600' : 'text-red-500'}`}>{t(correct ? 'correct' : 'notQuite')}</h2>
+            <div className="flex justify-center gap-2 mb-4">
+              {expected.map((dir, idx) => (
+                <span key={idx} className="w-12 h-12 rounded-full bg-green-500 text-white flex items-center justify-center text-xl">
+                  <i className={`fas ${DIRECTION_ICONS[dir]}`}></i>
+                </span>
+              ))}
+            </div>
+            <p className="font-black text-indigo-600">{t('score', { n: score })}</p>
+          </>
+        )}
+
+        {phase === 'ended' && (
+          <>
+            <div className="text-7xl mb-4">🏁</div>
+            <h2 className="text-3xl font-black text-indigo-600 mb-2">{t('classOver')}</h2>
+            <p className="text-xl font-black text-gray-600 mb-6">{t('yourScore', { n: score })}</p>
+            <button onClick={onExit} className="w-full bg-indigo-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1">{t('ok')}</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomStudent;
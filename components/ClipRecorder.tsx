@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Direction } from '../types';
+import { DIRECTION_ICONS, DIRECTION_PHRASES } from '../constants';
+import { CustomClips, deleteClip, encodeWav, loadClips, parseClipFile, saveClip, serializeClips } from '../services/clipStore';
+import { downloadTextFile } from '../services/levelFiles';
+
+interface ClipRecorderProps {
+  onClose: (clips: CustomClips) => void;
+}
+
+const WAVE_BARS = 120;
+
+const peaksOf = (buffer: AudioBuffer): number[] => {
+  const data = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / WAVE_BARS));
+  return Array.from({ length: WAVE_BARS }, (_, bar) => {
+    let peak = 0;
+    for (let i = bar * size; i < Math.min(data.length, (bar + 1) * size); i++) peak = Math.max(peak, Math.abs(data[i]));
+    return peak;
+  });
+};
+
+// Lets a teacher record their own voice for each phrase, trim it and save it on this device.
+const ClipRecorder: React.FC<ClipRecorderProps> = ({ onClose }) => {
+  const [clips, setClips] = useState<CustomClips>({});
+  const [selected, setSelected] = useState<Direction>(Direction.STRAIGHT);
+  const [recording, setRecording] = useState(false);
+  const [take, setTake] = useState<AudioBuffer | null>(null);
+  const [trim, setTrim] = useState<[number, number]>([0, 0]);
+  const [error, setError] = useState<string | null>(null);
+  const context = useRef<AudioContext | null>(null);
+  const recorder = useRef<MediaRecorder | null>(null);
+  const playing = useRef<AudioBufferSourceNode | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const getContext = () => {
+    if (!context.current) context.current = new AudioContext();
+    return context.current;
+  };
+
+  useEffect(() => {
+    loadClips().then(setClips);
+    return () => {
+      recorder.current?.stream.getTracks().forEach(t => t.stop());
+      context.current?.close();
+    };
+  }, []);
+
+  const select = (dir: Direction) => {
+    if (recording) return;
+    setSelected(dir);
+    setTake(null);
+    setError(null);
+  };
+
+  const play = (buffer: AudioBuffer, start = 0, end = buffer.duration) => {
+    playing.current?.stop();
+    const ctx = getContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start(0, start, end - start);
+    playing.current = source;
+  };
+
+  const playSaved = async (dir: Direction) => {
+    const blob = clips[dir];
+    if (!blob) return;
+    play(await getContext().decodeAudioData(await blob.arrayBuffer()));
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices) {
+      setError('Recording is not supported in this browser.');
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const chunks: Blob[] = [];
+      const rec = new MediaRecorder(stream);
+      rec.ondataavailable = e => chunks.push(e.data);
+      rec.onstop = async () => {
+        stream.getTracks().forEach(t => t.stop());
+        try {
+          const buffer = await getContext().decodeAudioData(await new Blob(chunks, { type: rec.mimeType }).arrayBuffer());
+          setTake(buffer);
+          setTrim([0, buffer.duration]);
+        } catch {
+          setError('That recording could not be read. Please try again.');
+        }
+      };
+      rec.start();
+      recorder.current = rec;
+      setTake(null);
+      setRecording(true);
+    } catch {
+      setError('Microphone access was blocked.');
+    }
+  };
+
+  const stopRecording = () => {
+    recorder.current?.stop();
+    recorder.current = null;
+    setRecording(false);
+  };
+
+  const save = async () => {
+    if (!take) return;
+    const blob = encodeWav(take, trim[0], trim[1]);
+    await saveClip(selected, blob);
+    setClips(c => ({ ...c, [selected]: blob }));
+    setTake(null);
+  };
+
+  const remove = async (dir: Direction) => {
+    await deleteClip(dir);
+    setClips(c => {
+      const next = { ...c };
+      delete next[dir];
+      return next;
+    });
+  };
+
+  const exportClips = async () => {
+    downloadTextFile('direction-detective-voice.json', await serializeClips(clips));
+  };
+
+  const importClips = async (file: File) => {
+    try {
+      const imported = await parseClipFile(await file.text());
+      for (const [dir, blob] of Object.entries(imported) as [Direction, Blob][]) await saveClip(dir, blob);
+      setClips(c => ({ ...c, ...imported }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import that file.');
+    }
+  };
+
+  const peaks = take ? peaksOf(take) : [];
+  const duration = take?.duration ?? 1;
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={() => onClose(clips)}>
+      <div className="bg-white p-6 rounded-[40px] max-w-3xl w-full max-h-full overflow-y-auto shadow-2xl border-4 border-pink-400" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-3xl font-black text-pink-600 italic">My Voice</h2>
+          <button onClick={() => onClose(clips)} className="w-12 h-12 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Phrases */}
+          <div className="space-y-1">
+            {Object.values(Direction).map(dir => (
+              <div key={dir} className={`flex items-center gap-2 rounded-2xl px-3 py-2 cursor-pointer ${selected === dir ? 'bg-pink-100' : 'hover:bg-gray-50'}`} onClick={() => select(dir)}>
+                <i className={`fas ${DIRECTION_ICONS[dir]} w-6 text-center text-pink-500`}></i>
+                <span className="flex-1 font-bold text-gray-700">{DIRECTION_PHRASES[dir]}</span>
+                {clips[dir] && (
+                  <>
+                    <button onClick={e => { e.stopPropagation(); playSaved(dir); }} className="text-green-600 px-1"><i className="fas fa-play"></i></button>
+                    <button onClick={e => { e.stopPropagation(); remove(dir); }} className="text-gray-400 px-1"><i className="fas fa-trash"></i></button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Recorder */}
+          <div className="bg-pink-50 rounded-3xl p-4 flex flex-col">
+            <p className="text-sm font-bold text-pink-400 uppercase tracking-widest mb-1">Say</p>
+            <p className="text-2xl font-black text-gray-800 mb-4">"{DIRECTION_PHRASES[selected]}"</p>
+
+            <button
+              onClick={recording ? stopRecording : startRecording}
+              className={`mx-auto w-24 h-24 rounded-full flex items-center justify-center text-4xl text-white shadow-lg active:scale-90 transition-all mb-4 ${recording ? 'bg-red-500 animate-pulse' : 'bg-pink-500'}`}
+            >
+              <i className={`fas ${recording ? 'fa-stop' : 'fa-microphone'}`}></i>
+            </button>
+
+            {take && (
+              <>
+                <svg viewBox={`0 0 ${WAVE_BARS} 40`} preserveAspectRatio="none" className="w-full h-20 bg-white rounded-2xl mb-2">
+                  {peaks.map((peak, idx) => {
+                    const t = (idx / WAVE_BARS) * duration;
+                    const kept = t >= trim[0] && t <= trim[1];
+                    return <rect key={idx} x={idx} y={20 - peak * 20} width={0.8} height={Math.max(0.5, peak * 40)} fill={kept ? '#ec4899' : '#e5e7eb'} />;
+                  })}
+                </svg>
+                <label className="text-xs font-bold text-gray-500">Start {trim[0].toFixed(2)}s</label>
+                <input type="range" min={0} max={duration} step={0.01} value={trim[0]} onChange={e => setTrim([Math.min(Number(e.target.value), trim[1] - 0.1), trim[1]])} />
+                <label className="text-xs font-bold text-gray-500">End {trim[1].toFixed(2)}s</label>
+                <input type="range" min={0} max={duration} step={0.01} value={trim[1]} onChange={e => setTrim([trim[0], Math.max(Number(e.target.value), trim[0] + 0.1)])} className="mb-4" />
+                <div className="flex gap-2">
+                  <button onClick={() => play(take, trim[0], trim[1])} className="bg-white text-pink-600 font-black py-3 px-5 rounded-full border-2 border-pink-200 active:translate-y-1"><i className="fas fa-play"></i></button>
+                  <button onClick={save} className="flex-1 bg-pink-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1">SAVE</button>
+                </div>
+              </>
+            )}
+            {error && <p className="text-sm font-bold text-red-500 mt-2">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button onClick={exportClips} disabled={Object.keys(clips).length === 0} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1 disabled:opacity-40">
+            <i className="fas fa-file-export mr-2"></i>Export
+          </button>
+          <button onClick={() => fileInput.current?.click()} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1">
+            <i className="fas fa-file-import mr-2"></i>Import
+          </button>
+          <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) importClips(f); e.target.value = ''; }} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClipRecorder;
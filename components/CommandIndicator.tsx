@@ -0,0 +1,39 @@
+import React from 'react';
+import { Direction } from '../types';
+import { DIRECTION_ICONS } from '../constants';
+
+interface CommandIndicatorProps {
+  commands: Direction[];
+  movesMade: number;
+  showNext?: boolean; // reveal the arrow for the move that is due
+}
+
+// One circle per command in the step: green once done, pulsing blue for the one that is due.
+const CommandIndicator: React.FC<CommandIndicatorProps> = ({ commands, movesMade, showNext }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-white/90 p-4 rounded-[40px] shadow-2xl backdrop-blur-md border-2 border-white z-10">
+    {commands.map((cmd, idx) => {
+      const isDone = idx < movesMade;
+      const isCurrent = idx === movesMade;
+
+      return (
+        <div 
+          key={idx}
+          className={`
+            w-14 h-14 rounded-full flex items-center justify-center text-2xl transition-all duration-300 transform
+            ${isDone ? 'bg-green-500 text-white scale-110 shadow-lg' : 
+              isCurrent ? 'bg-blue-500 text-white scale-125 animate-pulse shadow-xl border-4 border-blue-200' : 
+              'bg-gray-200 text-gray-400 opacity-50'}
+          `}
+        >
+          {isDone || (isCurrent && showNext) ? (
+            <i className={`fas ${DIRECTION_ICONS[cmd]}`}></i>
+          ) : (
+            <span className="font-black">?</span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default CommandIndicator;
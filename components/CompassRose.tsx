@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface CompassRoseProps {
+  rotation: number; // the player's rotation, in degrees
+  northUp?: boolean;
+}
+
+const POINTS = [
+  { label: 'N', className: 'top-1 left-1/2 -translate-x-1/2 text-red-500' },
+  { label: 'E', className: 'right-1.5 top-1/2 -translate-y-1/2 text-gray-700' },
+  { label: 'S', className: 'bottom-1 left-1/2 -translate-x-1/2 text-gray-700' },
+  { label: 'W', className: 'left-1.5 top-1/2 -translate-y-1/2 text-gray-700' }
+];
+
+// In the street views the rose turns with the player, so N always points to north on screen and the
+// arrow is the way they face. On the north-up overhead view the rose stays put and the arrow turns.
+const CompassRose: React.FC<CompassRoseProps> = ({ rotation, northUp }) => {
+  const roseAngle = northUp ? 0 : rotation;
+  return (
+    <div className="relative w-28 h-28 rounded-full bg-white/95 border-4 border-amber-400 shadow-xl">
+      <div className="absolute inset-0 transition-transform duration-500" style={{ transform: `rotate(${roseAngle}deg)` }}>
+        {POINTS.map(({ label, className }) => (
+          <span key={label} className={`absolute font-black text-lg leading-none ${className}`}>
+            <span className="inline-block transition-transform duration-500" style={{ transform: `rotate(${-roseAngle}deg)` }}>{label}</span>
+          </span>
+        ))}
+      </div>
+      <div className="absolute inset-0 flex items-center justify-center transition-transform duration-500" style={{ transform: `rotate(${northUp ? -rotation : 0}deg)` }}>
+        <i className="fas fa-location-arrow text-3xl text-blue-600 -rotate-45"></i>
+      </div>
+    </div>
+  );
+};
+
+export default CompassRose;
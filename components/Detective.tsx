@@ -0,0 +1,114 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+export interface DetectiveMotion {
+  walking: boolean;
+  turning: number; // -1 turning right, 1 turning left, 0 not turning
+}
+
+interface DetectiveProps {
+  motion: React.MutableRefObject<DetectiveMotion>;
+}
+
+const COAT = '#c8a165';
+const HAT = '#8d6e63';
+const SKIN = '#f5d0a9';
+const TROUSERS = '#374151';
+
+// The player's detective, built facing -z like the player's starting heading. Legs and arms
+// swing while walking, and the body leans into turns.
+const Detective: React.FC<DetectiveProps> = ({ motion }) => {
+  const body = useRef<THREE.Group>(null);
+  const leftLeg = useRef<THREE.Group>(null);
+  const rightLeg = useRef<THREE.Group>(null);
+  const leftArm = useRef<THREE.Group>(null);
+  const rightArm = useRef<THREE.Group>(null);
+  const phase = useRef(0);
+
+  useFrame((_, delta) => {
+    const { walking, turning } = motion.current;
+    phase.current = walking ? phase.current + delta * 10 : THREE.MathUtils.damp(phase.current, Math.round(phase.current / Math.PI) * Math.PI, 8, delta);
+    const swing = Math.sin(phase.current) * 0.6;
+    leftLeg.current!.rotation.x = swing;
+    rightLeg.current!.rotation.x = -swing;
+    leftArm.current!.rotation.x = -swing * 0.8;
+    rightArm.current!.rotation.x = swing * 0.8;
+    body.current!.position.y = walking ? Math.abs(Math.cos(phase.current)) * 0.06 : 0;
+    body.current!.rotation.z = THREE.MathUtils.damp(body.current!.rotation.z, turning * 0.12, 8, delta);
+  });
+
+  return (
+    <group ref={body}>
+      {/* Legs pivot at the hip */}
+      {[[-0.13, leftLeg], [0.13, rightLeg]].map(([x, ref]) => (
+        <group key={x as number} ref={ref as React.RefObject<THREE.Group>} position={[x as number, 0.7, 0]}>
+          <mesh position={[0, -0.35, 0]} castShadow>
+            <cylinderGeometry args={[0.09, 0.08, 0.7, 8]} />
+            <meshStandardMaterial color={TROUSERS} />
+          </mesh>
+          <mesh position={[0, -0.68, -0.06]}>
+            <boxGeometry args={[0.16, 0.08, 0.28]} />
+            <meshStandardMaterial color="#1f2937" />
+          </mesh>
+        </group>
+      ))}
+      {/* Coat */}
+      <mesh position={[0, 1.05, 0]} castShadow>
+        <cylinderGeometry args={[0.24, 0.34, 0.8, 12]} />
+        <meshStandardMaterial color={COAT} />
+      </mesh>
+      <mesh position={[0, 1.38, 0]}>
+        <cylinderGeometry args={[0.36, 0.3, 0.12, 12]} />
+        <meshStandardMaterial color={COAT} />
+      </mesh>
+      {/* Arms pivot at the shoulder; the right hand holds a magnifying glass */}
+      <group ref={leftArm} position={[-0.32, 1.35, 0]}>
+        <mesh position={[0, -0.28, 0]} castShadow>
+          <cylinderGeometry args={[0.07, 0.06, 0.56, 8]} />
+          <meshStandardMaterial color={COAT} />
+        </mesh>
+      </group>
+      <group ref={rightArm} position={[0.32, 1.35, 0]}>
+        <mesh position={[0, -0.28, 0]} castShadow>
+          <cylinderGeometry args={[0.07, 0.06, 0.56, 8]} />
+          <meshStandardMaterial color={COAT} />
+        </mesh>
+        <group position={[0, -0.56, -0.12]} rotation={[Math.PI / 2, 0, 0]}>
+          <mesh position={[0, -0.12, 0]}>
+            <cylinderGeometry args={[0.025, 0.025, 0.2, 6]} />
+            <meshStandardMaterial color="#5d4037" />
+          </mesh>
+          <mesh position={[0, -0.3, 0]} rotation={[Math.PI / 2, 0, 0]}>
+            <torusGeometry args={[0.1, 0.02, 8, 16]} />
+            <meshStandardMaterial color="#fbbf24" metalness={0.6} roughness={0.3} />
+          </mesh>
+        </group>
+      </group>
+      {/* Head and deerstalker hat */}
+      <mesh position={[0, 1.62, 0]} castShadow>
+        <sphereGeometry args={[0.22, 16, 16]} />
+        <meshStandardMaterial color={SKIN} />
+      </mesh>
+      <mesh position={[0, 1.74, 0]}>
+        <sphereGeometry args={[0.235, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2]} />
+        <meshStandardMaterial color={HAT} />
+      </mesh>
+      <mesh position={[0, 1.74, -0.08]} rotation={[0, 0, 0]}>
+        <cylinderGeometry args={[0.3, 0.3, 0.03, 16, 1, false, Math.PI / 2, Math.PI]} />
+        <meshStandardMaterial color={HAT} />
+      </mesh>
+      <mesh position={[0, 1.74, 0.08]}>
+        <cylinderGeometry args={[0.3, 0.3, 0.03, 16, 1, false, -Math.PI / 2, Math.PI]} />
+        <meshStandardMaterial color={HAT} />
+      </mesh>
+      {/* Nose, so it is clear which way the detective faces */}
+      <mesh position={[0, 1.6, -0.22]}>
+        <sphereGeometry args={[0.05, 8, 8]} />
+        <meshStandardMaterial color="#eab308" />
+      </mesh>
+    </group>
+  );
+};
+
+export default Detective;
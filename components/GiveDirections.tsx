@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Direction, Position } from '../types';
+import { DIRECTION_ICONS } from '../constants';
+import { EngineLevel, ProgramResult, evaluateProgram } from '../services/gameEngine';
+import { LanguageSettings } from '../services/i18n';
+import TownMap, { MapMarker, boundsAround } from './TownMap';
+import { translator } from './Msg';
+
+interface GiveDirectionsProps {
+  level: EngineLevel;
+  goalLabel: string;
+  language: LanguageSettings;
+  onSpeak: (dir: Direction) => void;
+  onPosition: (pos: Position) => void;
+  onExit: () => void;
+  onNext: () => void;
+}
+
+const MOVE_DURATION = 700;
+
+// Reverse mode: the student builds the directions and the camera in Town follows them.
+const GiveDirections: React.FC<GiveDirectionsProps> = ({ level, goalLabel, language, onSpeak, onPosition, onExit, onNext }) => {
+  const t = translator(language);
+  const [program, setProgram] = useState<Direction[]>([]);
+  const [running, setRunning] = useState(false);
+  const [runIndex, setRunIndex] = useState(-1);
+  const [result, setResult] = useState<ProgramResult | null>(null);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  // Only cards that move the player make sense when giving directions.
+  const cards = level.vocabulary.filter(dir => dir !== Direction.STOP && dir !== Direction.ON_LEFT && dir !== Direction.ON_RIGHT);
+
+  const clearTimers = () => {
+    timers.current.forEach(clearTimeout);
+    timers.current = [];
+  };
+
+  useEffect(() => {
+    clearTimers();
+    setProgram([]);
+    setResult(null);
+    setRunning(false);
+    setRunIndex(-1);
+    onPosition(level.start);
+    return clearTimers;
+  }, [level]);
+
+  const addCard = (dir: Direction) => {
+    if (running) return;
+    onSpeak(dir);
+    setResult(null);
+    setProgram(p => [...p, dir]);
+  };
+
+  const run = () => {
+    if (running || program.length === 0) return;
+    const outcome = evaluateProgram(level, program);
+    setResult(null);
+    setRunning(true);
+    onPosition(level.start);
+
+    outcome.trace.slice(1).forEach((pos, idx) => {
+      timers.current.push(setTimeout(() => {
+        setRunIndex(idx);
+        onPosition(pos);
+      }, (idx + 1) * MOVE_DURATION));
+    });
+    timers.current.push(setTimeout(() => {
+      setRunning(false);
+      setRunIndex(-1);
+      setResult(outcome);
+    }, (outcome.trace.length + 1) * MOVE_DURATION));
+  };
+
+  const reset = () => {
+    clearTimers();
+    setRunning(false);
+    setRunIndex(-1);
+    setResult(null);
+    onPosition(level.start);
+  };
+
+  const bounds = boundsAround([level.start, level.finish, level.target], 2);
+  const trails = result ? [{ points: result.trace, color: result.success ? '#22c55e' : '#facc15' }] : [];
+  const markers: MapMarker[] = [];
+  if (result?.blockedAt != null) markers.push({ at: result.trace[result.trace.length - 1], color: '#ef4444' });
+  if (result && !result.success && result.wrongTurnAt != null) markers.push({ at: result.trace[result.wrongTurnAt], color: '#f97316' });
+
+  return (
+    <div className="absolute inset-0 z-[100] pointer-events-none flex flex-col lg:flex-row items-end lg:items-stretch justify-between p-4 gap-4">
+      {/* Map */}
+      <div className="pointer-events-auto bg-white/95 p-4 rounded-[40px] shadow-2xl border-4 border-teal-400 self-start max-w-full overflow-auto">
+        <div className="flex items-center justify-between mb-2 gap-4">
+          <h2 className="text-2xl font-black text-teal-600 italic">{t('giveDirections')}</h2>
+          <button onClick={onExit} className="w-10 h-10 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+        <p className="font-bold text-gray-600 mb-3">{t('howToGetTo', { goal: <span className="text-red-500">{goalLabel}</span> })}</p>
+        <TownMap town={level.town} bounds={bounds} player={level.start} goal={level.target} trails={trails} markers={markers} className="rounded-2xl" />
+        {result && (
+          <div className={`mt-3 px-4 py-2 rounded-2xl font-bold ${result.success ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'}`}>
+            {result.success && <span><i className="fas fa-trophy mr-2"></i>{t('gotThere')}</span>}
+            {!result.success && result.blockedAt != null && <span><i className="fas fa-ban mr-2"></i>{t('cardBlocked', { n: result.blockedAt + 1 })}</span>}
+            {!result.success && result.blockedAt == null && result.wrongTurnAt != null && <span><i className="fas fa-route mr-2"></i>{t('cardWrongWay', { n: result.wrongTurnAt + 1 })}</span>}
+            {!result.success && result.blockedAt == null && result.wrongTurnAt == null && <span><i className="fas fa-flag mr-2"></i>{t('notThereYet')}</span>}
+          </div>
+        )}
+      </div>
+
+      {/* Program Builder */}
+      <div className="pointer-events-auto bg-white/95 p-4 rounded-[40px] shadow-2xl border-4 border-teal-400 w-full lg:w-96 self-end">
+        <div className="flex flex-wrap gap-2 min-h-[64px] bg-gray-50 rounded-3xl p-2 mb-3">
+          {program.length === 0 && <span className="text-gray-400 italic font-bold p-3">{t('tapCards')}</span>}
+          {program.map((dir, idx) => {
+            const isWrong = result && !result.success && (idx === result.blockedAt || (result.blockedAt == null && idx === result.wrongTurnAt));
+            return (
+              <button
+                key={idx}
+                onClick={() => !running && setProgram(p => p.filter((_, n) => n !== idx))}
+                className={`w-12 h-12 rounded-2xl flex items-center justify-center text-white text-xl shadow transition-all
+                  ${idx === runIndex ? 'bg-yellow-400 scale-110' : isWrong ? 'bg-red-500' : 'bg-teal-500'}`}
+              >
+                <i className={`fas ${DIRECTION_ICONS[dir]}`}></i>
+              </button>
+            );
+          })}
+        </div>
+        <div className="grid grid-cols-3 gap-2 mb-3">
+          {cards.map(dir => (
+            <button key={dir} onClick={() => addCard(dir)} disabled={running} className="bg-blue-500 text-white rounded-2xl border-b-[6px] border-blue-700 py-2 flex flex-col items-center active:translate-y-1 active:border-b-0 transition-all disabled:opacity-50">
+              <i className={`fas ${DIRECTION_ICONS[dir]} text-2xl`}></i>
+              <span className="text-[9px] font-black uppercase">{t.dir(dir)}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={reset} disabled={running} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1 disabled:opacity-50">
+            <i className="fas fa-undo"></i>
+          </button>
+          <button onClick={() => { reset(); setProgram([]); }} disabled={running} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1 disabled:opacity-50">
+            <i className="fas fa-trash"></i>
+          </button>
+          {result?.success ? (
+            <button onClick={onNext} className="flex-1 bg-green-500 text-white font-black py-3 rounded-full text-xl shadow-lg active:translate-y-1">{t('next')}</button>
+          ) : (
+            <button onClick={run} disabled={running || program.length === 0} className="flex-1 bg-yellow-500 text-white font-black py-3 rounded-full text-xl shadow-lg active:translate-y-1 disabled:opacity-50">{t('go')}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GiveDirections;
@@ -0,0 +1,227 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import Building, { Sign } from './Building';
+import { GRID_SIZE } from '../constants';
+import { TownModel, closedStreetSegments, isLandmarkKind, lotCenter } from '../services/townModel';
+
+// The town's repeated props (houses, shops, trees, lamps, hedges, crosswalks) drawn as one
+// InstancedMesh per part with shared geometries and materials. The town is split into square
+// chunks and only the chunks within the draw distance of the player are drawn; the instance
+// buffers are rebuilt when the player crosses into another chunk. Landmarks and signs are few,
+// so they stay ordinary meshes.
+
+interface InstancedTownProps {
+  town: TownModel;
+  targetPos: { x: number; z: number };
+  center: { x: number; z: number };
+  drawDistance: number; // in blocks
+  shadows: boolean;
+}
+
+interface Part {
+  geometry: THREE.BufferGeometry;
+  material: THREE.Material;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+}
+
+const standard = (color: string, extra: THREE.MeshStandardMaterialParameters = {}) => new THREE.MeshStandardMaterial({ color, ...extra });
+const flat = (width: number, height: number) => new THREE.PlaneGeometry(width, height).rotateX(-Math.PI / 2);
+
+const PARTS = {
+  houseBase: { geometry: new THREE.BoxGeometry(3, 2, 3), material: standard('#ffffff'), castShadow: true, receiveShadow: true },
+  roof: { geometry: new THREE.ConeGeometry(2.5, 1.5, 4), material: standard('#92400e'), castShadow: true },
+  door: { geometry: new THREE.PlaneGeometry(1, 1.2), material: standard('#451a03') },
+  window: { geometry: new THREE.PlaneGeometry(0.5, 0.5), material: standard('#bae6fd') },
+  shopBoard: { geometry: new THREE.BoxGeometry(2.5, 0.6, 0.1), material: standard('#ffffff') },
+  shopWindow: { geometry: new THREE.PlaneGeometry(1, 1), material: standard('#bbdefb') },
+  trunk: { geometry: new THREE.CylinderGeometry(0.2, 0.2, 1, 8), material: standard('#5d4037') },
+  foliage: { geometry: new THREE.ConeGeometry(0.8, 1.5, 8), material: standard('#2e7d32') },
+  lampPole: { geometry: new THREE.CylinderGeometry(0.05, 0.05, 3, 8), material: standard('#212121') },
+  lampArm: { geometry: new THREE.BoxGeometry(0.1, 0.1, 0.5), material: standard('#212121') },
+  lampBulb: { geometry: new THREE.SphereGeometry(0.2, 16, 16), material: standard('#fff176', { emissive: '#fff176', emissiveIntensity: 1 }) },
+  parkGrass: { geometry: flat(4, 4), material: standard('#4caf50') },
+  bench: { geometry: new THREE.BoxGeometry(1.5, 0.1, 0.5), material: standard('#8d6e63') },
+  closedGrass: { geometry: flat(2, GRID_SIZE - 1.5), material: standard('#4caf50') },
+  hedge: { geometry: new THREE.BoxGeometry(1.6, 0.8, GRID_SIZE - 2), material: standard('#2e7d32'), castShadow: true },
+  crosswalk: { geometry: flat(1.5, 4), material: standard('#ffffff', { transparent: true, opacity: 0.8 }) }
+} satisfies Record<string, Part>;
+
+type PartName = keyof typeof PARTS;
+
+interface Batch {
+  matrices: THREE.Matrix4[];
+  colors: THREE.Color[]; // empty unless the part is tinted per instance
+}
+
+interface Chunk {
+  batches: Partial<Record<PartName, Batch>>;
+  extras: React.ReactElement[]; // landmarks and signs
+}
+
+const CHUNK_BLOCKS = 4;
+const CROSSWALK_EXTENT = 30; // intersections, matching the old ±150 units of road markings
+
+const chunkOf = (x: number, z: number) => ({
+  ci: Math.floor(x / (GRID_SIZE * CHUNK_BLOCKS)),
+  cj: Math.floor(z / (GRID_SIZE * CHUNK_BLOCKS))
+});
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const scratch = { position: new THREE.Vector3(), rotation: new THREE.Quaternion(), euler: new THREE.Euler() };
+
+// Matrix for a part at `offset` inside an object standing at (x, z) and turned `rotationY`.
+const placeAt = (x: number, z: number, rotationY: number, offset: [number, number, number], partRotationY = 0) => {
+  scratch.position.set(...offset).applyAxisAngle(Y_AXIS, rotationY).add(new THREE.Vector3(x, 0, z));
+  scratch.rotation.setFromEuler(scratch.euler.set(0, rotationY + partRotationY, 0));
+  return new THREE.Matrix4().compose(scratch.position, scratch.rotation, new THREE.Vector3(1, 1, 1));
+};
+
+const buildChunks = (town: TownModel, targetPos: { x: number; z: number }): Map<string, Chunk> => {
+  const chunks = new Map<string, Chunk>();
+  const chunkAt = (x: number, z: number) => {
+    const { ci, cj } = chunkOf(x, z);
+    const key = `${ci},${cj}`;
+    if (!chunks.has(key)) chunks.set(key, { batches: {}, extras: [] });
+    return chunks.get(key)!;
+  };
+  const add = (chunk: Chunk, name: PartName, matrix: THREE.Matrix4, color?: string) => {
+    const batch = chunk.batches[name] ?? (chunk.batches[name] = { matrices: [], colors: [] });
+    batch.matrices.push(matrix);
+    if (color) batch.colors.push(new THREE.Color(color));
+  };
+  const addTree = (chunk: Chunk, x: number, z: number, y = 0) => {
+    add(chunk, 'trunk', placeAt(x, z, 0, [0, y + 0.5, 0]));
+    add(chunk, 'foliage', placeAt(x, z, 0, [0, y + 1.5, 0]));
+  };
+
+  for (const lot of town.lots) {
+    const { x, z } = lotCenter(lot);
+    // The goal is drawn separately.
+    if (Math.abs(x - targetPos.x) < 2 && Math.abs(z - targetPos.z) < 2) continue;
+    const chunk = chunkAt(x, z);
+    const at = (offset: [number, number, number], partRotationY = 0) => placeAt(x, z, lot.rotation, offset, partRotationY);
+
+    if (lot.kind === 'house' || lot.kind === 'store') {
+      add(chunk, 'houseBase', at([0, 1, 0]), lot.color);
+      add(chunk, 'roof', at([0, 2.5, 0], Math.PI / 4));
+      add(chunk, 'door', at([0, 0.5, 1.51]));
+      add(chunk, 'window', at([-0.8, 1.3, 1.51]));
+      add(chunk, 'window', at([0.8, 1.3, 1.51]));
+      if (lot.kind === 'store') {
+        add(chunk, 'shopBoard', at([0, 1.2, 1.51]));
+        add(chunk, 'shopWindow', at([0, 0.5, 1.51]));
+        if (lot.label) {
+          chunk.extras.push(
+            <group key={`s-${lot.i}-${lot.j}`} position={[x, 0, z]} rotation={[0, lot.rotation, 0]}>
+              <Sign text={lot.label.toUpperCase()} width={2.4} height={0.5} position={[0, 1.2, 1.57]} />
+            </group>
+          );
+        }
+      }
+    } else if (isLandmarkKind(lot.kind)) {
+      chunk.extras.push(<Building key={`b-${lot.i}-${lot.j}`} position={[x, 0, z]} type={lot.kind} rotation={[0, lot.rotation, 0]} label={lot.label} />);
+    } else if (lot.kind === 'park') {
+      add(chunk, 'parkGrass', placeAt(x, z, 0, [0, 0.01, 0]));
+      add(chunk, 'bench', placeAt(x, z, 0, [0, 0.2, 0]));
+      addTree(chunk, x - 1.2, z - 1.2);
+      addTree(chunk, x + 1.2, z + 1.2);
+      if (lot.label) {
+        chunk.extras.push(
+          <group key={`p-${lot.i}-${lot.j}`} position={[x + 1.6, 0, z - 1.6]}>
+            <mesh position={[0, 0.6, 0]} geometry={PARTS.lampPole.geometry} material={PARTS.trunk.material} scale={[1, 0.4, 1]} />
+            <Sign text={lot.label.toUpperCase()} width={1.4} height={0.4} position={[0, 1.3, 0]} background="#2e7d32" color="#ffffff" />
+          </group>
+        );
+      }
+    } else if (lot.kind === 'tree') {
+      addTree(chunk, x, z);
+    }
+  }
+
+  for (const { from, to } of closedStreetSegments(town)) {
+    const x = ((from.i + to.i) / 2) * GRID_SIZE;
+    const z = ((from.j + to.j) / 2) * GRID_SIZE;
+    const rotation = from.j === to.j ? Math.PI / 2 : 0;
+    const chunk = chunkAt(x, z);
+    add(chunk, 'closedGrass', placeAt(x, z, rotation, [0, 0.03, 0]));
+    add(chunk, 'hedge', placeAt(x, z, rotation, [0, 0.4, 0]));
+    addTree(chunk, x, z, 0.8);
+  }
+
+  for (let i = -CROSSWALK_EXTENT; i <= CROSSWALK_EXTENT; i++) {
+    for (let j = -CROSSWALK_EXTENT; j <= CROSSWALK_EXTENT; j++) {
+      const x = i * GRID_SIZE;
+      const z = j * GRID_SIZE;
+      const chunk = chunkAt(x, z);
+      add(chunk, 'crosswalk', placeAt(x, z, 0, [0, 0.02, 0]));
+      if (Math.abs(i) <= town.range && Math.abs(j) <= town.range && i % 2 === 0 && j % 2 === 0) {
+        const lamp = (offset: [number, number, number]) => placeAt(x + 1.2, z + 1.2, Math.PI / 4, offset);
+        add(chunk, 'lampPole', lamp([0, 1.5, 0]));
+        add(chunk, 'lampArm', lamp([0, 3, 0.2]));
+        add(chunk, 'lampBulb', lamp([0, 2.9, 0.4]));
+      }
+    }
+  }
+
+  return chunks;
+};
+
+const InstancedPart: React.FC<{ part: Part; batch: Batch; shadows: boolean }> = ({ part, batch, shadows }) => {
+  const ref = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    const mesh = ref.current;
+    if (!mesh) return;
+    batch.matrices.forEach((matrix, idx) => mesh.setMatrixAt(idx, matrix));
+    batch.colors.forEach((color, idx) => mesh.setColorAt(idx, color));
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [batch]);
+
+  return (
+    <instancedMesh
+      ref={ref}
+      args={[part.geometry, part.material, batch.matrices.length]}
+      castShadow={shadows && !!part.castShadow}
+      receiveShadow={shadows && !!part.receiveShadow}
+    />
+  );
+};
+
+const InstancedTown: React.FC<InstancedTownProps> = ({ town, targetPos, center, drawDistance, shadows }) => {
+  const chunks = useMemo(() => buildChunks(town, targetPos), [town, targetPos.x, targetPos.z]);
+  const { ci, cj } = chunkOf(center.x, center.z);
+  const radius = Math.ceil(drawDistance / CHUNK_BLOCKS);
+
+  const visible = useMemo(() => {
+    const batches: Partial<Record<PartName, Batch>> = {};
+    const extras: React.ReactElement[] = [];
+    for (let di = -radius; di <= radius; di++) {
+      for (let dj = -radius; dj <= radius; dj++) {
+        const chunk = chunks.get(`${ci + di},${cj + dj}`);
+        if (!chunk) continue;
+        for (const [name, batch] of Object.entries(chunk.batches) as [PartName, Batch][]) {
+          const merged = batches[name] ?? (batches[name] = { matrices: [], colors: [] });
+          merged.matrices.push(...batch.matrices);
+          merged.colors.push(...batch.colors);
+        }
+        extras.push(...chunk.extras);
+      }
+    }
+    return { batches, extras };
+  }, [chunks, ci, cj, radius]);
+
+  return (
+    <>
+      {(Object.entries(visible.batches) as [PartName, Batch][]).map(([name, batch]) => (
+        // Keyed by size so the mesh is recreated when the instance count changes.
+        <InstancedPart key={`${name}-${batch.matrices.length}`} part={PARTS[name]} batch={batch} shadows={shadows} />
+      ))}
+      {visible.extras}
+    </>
+  );
+};
+
+export default InstancedTown;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { LanguageSettings, Locale, MESSAGES } from '../services/i18n';
+import Msg from './Msg';
+
+interface LanguagePickerProps {
+  settings: LanguageSettings;
+  onChange: (settings: LanguageSettings) => void;
+  onClose: () => void;
+}
+
+const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'ja', label: '日本語' }
+];
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ settings, onChange, onClose }) => {
+  const m = MESSAGES[settings.locale];
+  const toggle = (key: 'furigana' | 'hints', label: string) => (
+    <button
+      onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+      className={`w-full py-3 px-5 rounded-full border-2 font-black flex justify-between items-center transition-all ${settings[key] ? 'bg-green-500 border-green-600 text-white' : 'bg-white border-gray-200 text-gray-600'}`}
+    >
+      <span><Msg text={label} furigana={settings.furigana} /></span>
+      <Msg text={settings[key] ? m.on : m.off} />
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white p-8 rounded-[40px] max-w-sm w-full shadow-2xl border-4 border-green-400" onClick={e => e.stopPropagation()}>
+        <h2 className="text-3xl font-black text-green-600 mb-6 text-center uppercase italic"><Msg text={m.language} furigana={settings.furigana} /></h2>
+        <div className="flex gap-2 mb-4">
+          {LOCALES.map(locale => (
+            <button
+              key={locale.id}
+              onClick={() => onChange({ ...settings, locale: locale.id })}
+              className={`flex-1 py-3 rounded-full border-2 font-black transition-all ${settings.locale === locale.id ? 'bg-blue-500 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600'}`}
+            >
+              {locale.label}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-2 mb-6">
+          {settings.locale === 'ja' && toggle('furigana', m.furigana)}
+          {toggle('hints', m.japaneseHints)}
+        </div>
+        <button onClick={onClose} className="w-full bg-green-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1"><Msg text={m.done} /></button>
+      </div>
+    </div>
+  );
+};
+
+export default LanguagePicker;
@@ -0,0 +1,331 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Direction, GameLevel, LessonPlaylist, VocabularySet } from '../types';
+import { DIRECTION_ICONS, DIRECTION_LABELS, VOCABULARY_SETS } from '../constants';
+import { traceRoute } from '../services/gameEngine';
+import { GridPoint, closedStreetSegments, createTown, headingOf, toGridPoint } from '../services/townModel';
+import { downloadTextFile, newLevelId, parseLevelFile, serializeLevelFile } from '../services/levelFiles';
+import { deleteLevel, loadLevels, loadPlaylist, savePlaylist, upsertLevel } from '../services/levelStore';
+
+interface LevelEditorProps {
+  onClose: () => void;
+  onPlay: (levels: GameLevel[]) => void;
+}
+
+interface Draft {
+  id: string;
+  title: string;
+  goalLabel: string;
+  seed: string;
+  vocabulary: VocabularySet | '';
+  steps: Direction[][];
+}
+
+const MAP_RADIUS = 6;
+const CELL = 32;
+const MAP_SIZE = (MAP_RADIUS * 2 + 1) * CELL;
+const ORIGIN = { x: 0, z: 0, rotation: 0 };
+
+const emptyDraft = (): Draft => ({ id: newLevelId(), title: 'New Level', goalLabel: '', seed: '', vocabulary: '', steps: [[]] });
+
+const EXTRA_COMMANDS = [Direction.TURN_AROUND, Direction.STOP, Direction.ON_LEFT, Direction.ON_RIGHT];
+
+const toDraft = (level: GameLevel): Draft => ({
+  id: level.id,
+  title: level.title,
+  goalLabel: level.goal?.label ?? '',
+  seed: level.town ? String(level.town.seed) : '',
+  vocabulary: level.vocabulary ?? '',
+  steps: level.steps.map(step => [...step])
+});
+
+const toScreen = (p: GridPoint) => ({ x: (p.i + MAP_RADIUS + 0.5) * CELL, y: (p.j + MAP_RADIUS + 0.5) * CELL });
+
+// Heading index (see townModel) that points from one intersection to its neighbour.
+const headingBetween = (from: GridPoint, to: GridPoint): number => {
+  if (to.j < from.j) return 0;
+  if (to.i < from.i) return 1;
+  if (to.j > from.j) return 2;
+  return 3;
+};
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ onClose, onPlay }) => {
+  const [levels, setLevels] = useState<GameLevel[]>(loadLevels);
+  const [playlist, setPlaylist] = useState<LessonPlaylist>(loadPlaylist);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const path = draft.steps.flat();
+  const trace = useMemo(() => traceRoute(ORIGIN, path), [path.join()]);
+  const player = trace[trace.length - 1];
+  const at = toGridPoint(player);
+  const heading = headingOf(player.rotation);
+
+  const seedNumber = draft.seed.trim() === '' ? null : Number(draft.seed);
+  const closedStreets = useMemo(
+    () => (seedNumber !== null && Number.isFinite(seedNumber) ? closedStreetSegments(createTown(seedNumber)) : []),
+    [seedNumber]
+  );
+
+  const updatePlaylist = (next: LessonPlaylist) => {
+    setPlaylist(next);
+    savePlaylist(next);
+  };
+
+  const appendCommands = (commands: Direction[]) => {
+    setDraft(d => {
+      const steps = d.steps.map(step => [...step]);
+      steps[steps.length - 1].push(...commands);
+      return { ...d, steps };
+    });
+  };
+
+  const walkTo = (target: GridPoint) => {
+    const turn = (headingBetween(at, target) - heading + 4) % 4;
+    if (turn === 0) appendCommands([Direction.STRAIGHT]);
+    else if (turn === 1) appendCommands([Direction.LEFT, Direction.STRAIGHT]);
+    else if (turn === 3) appendCommands([Direction.RIGHT, Direction.STRAIGHT]);
+    else appendCommands([Direction.TURN_AROUND, Direction.STRAIGHT]);
+  };
+
+  const undo = () => {
+    setDraft(d => {
+      const steps = d.steps.map(step => [...step]);
+      if (steps[steps.length - 1].length === 0 && steps.length > 1) steps.pop();
+      steps[steps.length - 1].pop();
+      return { ...d, steps };
+    });
+  };
+
+  const newStep = () => {
+    setDraft(d => (d.steps[d.steps.length - 1].length === 0 ? d : { ...d, steps: [...d.steps, []] }));
+  };
+
+  const buildLevel = (): GameLevel | null => {
+    const steps = draft.steps.filter(step => step.length > 0);
+    if (steps.length === 0) {
+      setMessage('Click the map to draw a route first.');
+      return null;
+    }
+    const level: GameLevel = { id: draft.id, title: draft.title.trim() || 'Untitled', steps };
+    if (seedNumber !== null && Number.isFinite(seedNumber)) level.town = { seed: seedNumber };
+    if (draft.goalLabel.trim()) level.goal = { label: draft.goalLabel.trim() };
+    if (draft.vocabulary) {
+      const missing = steps.flat().find(dir => !VOCABULARY_SETS[draft.vocabulary as VocabularySet].includes(dir));
+      if (missing) {
+        setMessage(`"${DIRECTION_LABELS[missing]}" is not in the ${draft.vocabulary} vocabulary.`);
+        return null;
+      }
+      level.vocabulary = draft.vocabulary;
+    }
+    return level;
+  };
+
+  const save = () => {
+    const level = buildLevel();
+    if (!level) return;
+    setLevels(upsertLevel(level));
+    setMessage(`Saved "${level.title}".`);
+  };
+
+  const remove = (id: string) => {
+    setLevels(deleteLevel(id));
+    setPlaylist(loadPlaylist());
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  const moveInPlaylist = (idx: number, delta: number) => {
+    const levelIds = [...playlist.levelIds];
+    const target = idx + delta;
+    if (target < 0 || target >= levelIds.length) return;
+    [levelIds[idx], levelIds[target]] = [levelIds[target], levelIds[idx]];
+    updatePlaylist({ ...playlist, levelIds });
+  };
+
+  const playlistLevels = playlist.levelIds
+    .map(id => levels.find(l => l.id === id))
+    .filter((l): l is GameLevel => !!l);
+
+  const exportFile = () => {
+    downloadTextFile('direction-detective-levels.json', serializeLevelFile(levels, playlist));
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const parsed = parseLevelFile(await file.text());
+      let next = levels;
+      for (const level of parsed.levels) next = upsertLevel(level);
+      setLevels(next);
+      if (parsed.playlist) updatePlaylist(parsed.playlist);
+      setMessage(`Imported ${parsed.levels.length} level(s).`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  const neighbours: GridPoint[] = [
+    { i: at.i, j: at.j - 1 },
+    { i: at.i - 1, j: at.j },
+    { i: at.i, j: at.j + 1 },
+    { i: at.i + 1, j: at.j }
+  ].filter(p => Math.abs(p.i) <= MAP_RADIUS && Math.abs(p.j) <= MAP_RADIUS);
+
+  const playerScreen = toScreen(at);
+  const range = Array.from({ length: MAP_RADIUS * 2 + 1 }, (_, k) => k - MAP_RADIUS);
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white p-6 rounded-[40px] w-full max-w-5xl max-h-full overflow-y-auto shadow-2xl border-4 border-purple-400">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-3xl font-black text-purple-600 uppercase italic"><i className="fas fa-pencil-ruler mr-2"></i>Level Editor</h2>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        {message && (
+          <div className="mb-4 bg-purple-50 text-purple-700 font-bold px-4 py-2 rounded-2xl flex justify-between items-center">
+            <span>{message}</span>
+            <button onClick={() => setMessage(null)}><i className="fas fa-times"></i></button>
+          </div>
+        )}
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Route Map */}
+          <div className="flex flex-col items-center gap-3">
+            <svg width={MAP_SIZE} height={MAP_SIZE} className="bg-gray-700 rounded-3xl">
+              {range.map(k => (
+                <g key={k}>
+                  <line x1={toScreen({ i: k, j: -MAP_RADIUS }).x} y1={CELL / 2} x2={toScreen({ i: k, j: MAP_RADIUS }).x} y2={MAP_SIZE - CELL / 2} stroke="#9ca3af" strokeWidth={6} />
+                  <line x1={CELL / 2} y1={toScreen({ i: -MAP_RADIUS, j: k }).y} x2={MAP_SIZE - CELL / 2} y2={toScreen({ i: MAP_RADIUS, j: k }).y} stroke="#9ca3af" strokeWidth={6} />
+                </g>
+              ))}
+              {closedStreets.map(({ from, to }) => {
+                const a = toScreen(from), b = toScreen(to);
+                return <line key={`${from.i},${from.j}-${to.i},${to.j}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#4caf50" strokeWidth={8} />;
+              })}
+              <polyline
+                points={trace.map(p => { const s = toScreen(toGridPoint(p)); return `${s.x},${s.y}`; }).join(' ')}
+                fill="none"
+                stroke="#facc15"
+                strokeWidth={6}
+                strokeLinejoin="round"
+              />
+              {neighbours.map(p => {
+                const s = toScreen(p);
+                return <circle key={`${p.i},${p.j}`} cx={s.x} cy={s.y} r={10} fill="#a78bfa" className="cursor-pointer" onClick={() => walkTo(p)} />;
+              })}
+              <g transform={`translate(${playerScreen.x}, ${playerScreen.y}) rotate(${-heading * 90})`}>
+                <polygon points="0,-12 9,9 -9,9" fill="#ef4444" stroke="white" strokeWidth={2} />
+              </g>
+            </svg>
+            <div className="flex gap-2">
+              <button onClick={() => appendCommands([Direction.LEFT])} className="bg-blue-500 text-white font-black py-2 px-4 rounded-full active:scale-95"><i className="fas fa-arrow-left mr-1"></i> Turn</button>
+              <button onClick={() => appendCommands([Direction.RIGHT])} className="bg-blue-500 text-white font-black py-2 px-4 rounded-full active:scale-95">Turn <i className="fas fa-arrow-right ml-1"></i></button>
+              <button onClick={newStep} className="bg-green-500 text-white font-black py-2 px-4 rounded-full active:scale-95"><i className="fas fa-plus mr-1"></i> Step</button>
+              {EXTRA_COMMANDS.map(dir => (
+                <button key={dir} onClick={() => appendCommands([dir])} title={DIRECTION_LABELS[dir]} className="bg-purple-500 text-white font-black py-2 px-3 rounded-full active:scale-95"><i className={`fas ${DIRECTION_ICONS[dir]}`}></i></button>
+              ))}
+              <button onClick={undo} className="bg-gray-200 text-gray-700 font-black py-2 px-4 rounded-full active:scale-95"><i className="fas fa-undo"></i></button>
+              <button onClick={() => setDraft(d => ({ ...d, steps: [[]] }))} className="bg-gray-200 text-gray-700 font-black py-2 px-4 rounded-full active:scale-95"><i className="fas fa-trash"></i></button>
+            </div>
+          </div>
+
+          {/* Level Details */}
+          <div className="flex-1 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <label className="col-span-2 text-xs font-black uppercase text-gray-500">Title
+                <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className="mt-1 w-full px-4 py-2 rounded-2xl border-2 border-gray-200 text-base text-gray-800 normal-case" />
+              </label>
+              <label className="text-xs font-black uppercase text-gray-500">Goal label
+                <input value={draft.goalLabel} onChange={e => setDraft({ ...draft, goalLabel: e.target.value })} placeholder="Red House" className="mt-1 w-full px-4 py-2 rounded-2xl border-2 border-gray-200 text-base text-gray-800 normal-case" />
+              </label>
+              <label className="text-xs font-black uppercase text-gray-500">Town seed
+                <input value={draft.seed} onChange={e => setDraft({ ...draft, seed: e.target.value.replace(/[^0-9]/g, '') })} placeholder="optional" className="mt-1 w-full px-4 py-2 rounded-2xl border-2 border-gray-200 text-base text-gray-800" />
+              </label>
+              <label className="col-span-2 text-xs font-black uppercase text-gray-500">Vocabulary
+                <select value={draft.vocabulary} onChange={e => setDraft({ ...draft, vocabulary: e.target.value as VocabularySet | '' })} className="mt-1 w-full px-4 py-2 rounded-2xl border-2 border-gray-200 text-base text-gray-800 normal-case">
+                  <option value="">Automatic</option>
+                  <option value="basic">Basic (straight, left, right)</option>
+                  <option value="extended">Extended (+ blocks, turn around)</option>
+                  <option value="full">Full (+ stop, on your left/right)</option>
+                  <option value="compass">Compass (answered with north, south, east, west)</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {draft.steps.map((step, idx) => (
+                <div key={idx} className="flex items-center gap-2 bg-gray-50 rounded-2xl px-3 py-2">
+                  <span className="text-xs font-black text-gray-400 w-14">Step {idx + 1}</span>
+                  {step.map((cmd, n) => (
+                    <span key={n} className="w-8 h-8 rounded-full bg-green-500 text-white flex items-center justify-center"><i className={`fas ${DIRECTION_ICONS[cmd]}`}></i></span>
+                  ))}
+                  {step.length === 0 && <span className="text-sm text-gray-400 italic">Click the map…</span>}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={save} className="flex-1 bg-purple-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1"><i className="fas fa-save mr-2"></i>SAVE</button>
+              <button onClick={() => { const level = buildLevel(); if (level) onPlay([level]); }} className="flex-1 bg-yellow-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1"><i className="fas fa-play mr-2"></i>TRY IT</button>
+              <button onClick={() => setDraft(emptyDraft())} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1"><i className="fas fa-file"></i></button>
+            </div>
+
+            {/* Saved Levels */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-black text-gray-700">Saved Levels</h3>
+                <div className="flex gap-2">
+                  <button onClick={() => fileInput.current?.click()} className="text-sm bg-gray-100 text-gray-700 font-bold py-1 px-3 rounded-full"><i className="fas fa-file-import mr-1"></i>Import</button>
+                  <button onClick={exportFile} className="text-sm bg-gray-100 text-gray-700 font-bold py-1 px-3 rounded-full"><i className="fas fa-file-export mr-1"></i>Export</button>
+                  <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ''; }} />
+                </div>
+              </div>
+              {levels.length === 0 && <p className="text-sm text-gray-400 italic">No saved levels yet.</p>}
+              <div className="space-y-1">
+                {levels.map(level => (
+                  <div key={level.id} className="flex items-center gap-2 bg-gray-50 rounded-2xl px-3 py-2">
+                    <span className="flex-1 font-bold text-gray-700 truncate">{level.title}</span>
+                    <span className="text-xs text-gray-400">{level.steps.length} steps</span>
+                    <button onClick={() => onPlay([level])} className="text-green-600 px-2"><i className="fas fa-play"></i></button>
+                    <button onClick={() => setDraft(toDraft(level))} className="text-blue-500 px-2"><i className="fas fa-edit"></i></button>
+                    <button onClick={() => updatePlaylist({ ...playlist, levelIds: [...playlist.levelIds, level.id] })} className="text-purple-500 px-2"><i className="fas fa-list-ol"></i></button>
+                    <button onClick={() => remove(level.id)} className="text-red-500 px-2"><i className="fas fa-trash"></i></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Lesson Playlist */}
+            <div>
+              <h3 className="text-lg font-black text-gray-700 mb-2">Lesson Playlist</h3>
+              <input value={playlist.title} onChange={e => updatePlaylist({ ...playlist, title: e.target.value })} className="mb-2 w-full px-4 py-2 rounded-2xl border-2 border-gray-200" />
+              {playlist.levelIds.length === 0 && <p className="text-sm text-gray-400 italic">Add saved levels with <i className="fas fa-list-ol"></i>.</p>}
+              <div className="space-y-1">
+                {playlist.levelIds.map((id, idx) => (
+                  <div key={`${id}-${idx}`} className="flex items-center gap-2 bg-purple-50 rounded-2xl px-3 py-2">
+                    <span className="text-xs font-black text-purple-400 w-6">{idx + 1}.</span>
+                    <span className="flex-1 font-bold text-gray-700 truncate">{levels.find(l => l.id === id)?.title ?? id}</span>
+                    <button onClick={() => moveInPlaylist(idx, -1)} className="text-gray-500 px-2"><i className="fas fa-chevron-up"></i></button>
+                    <button onClick={() => moveInPlaylist(idx, 1)} className="text-gray-500 px-2"><i className="fas fa-chevron-down"></i></button>
+                    <button onClick={() => updatePlaylist({ ...playlist, levelIds: playlist.levelIds.filter((_, n) => n !== idx) })} className="text-red-500 px-2"><i className="fas fa-times"></i></button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => onPlay(playlistLevels)}
+                disabled={playlistLevels.length === 0}
+                className="mt-3 w-full bg-green-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1 disabled:opacity-40"
+              >
+                <i className="fas fa-chalkboard-teacher mr-2"></i>RUN LESSON
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { LEVEL_CONFIGS } from '../constants';
+import { StudentProfile } from '../services/profileStore';
+import { bestStarsByKey } from '../services/scoring';
+import { LanguageSettings } from '../services/i18n';
+import { translator } from './Msg';
+
+interface LevelMapProps {
+  profile: StudentProfile | null;
+  language: LanguageSettings;
+  onPlayLevel: (level: number) => void;
+  onClose: () => void;
+}
+
+const PER_ROW = 5;
+
+const Stars: React.FC<{ count: number }> = ({ count }) => (
+  <span className="text-xs">
+    {[1, 2, 3].map(n => <i key={n} className={`fas fa-star ${n <= count ? 'text-yellow-400' : 'text-gray-300'}`}></i>)}
+  </span>
+);
+
+// A winding path of levels with the stars earned on each. Students see their own stars;
+// guests see the best stars played on this device.
+const LevelMap: React.FC<LevelMapProps> = ({ profile, language, onPlayLevel, onClose }) => {
+  const t = translator(language);
+  const guestStars = useMemo(() => (profile ? {} : bestStarsByKey()), [profile]);
+  const starsFor = (level: number) => (profile ? profile.levels[String(level)]?.stars : guestStars[String(level)]) ?? 0;
+
+  const highestPlayed = Object.keys(profile ? profile.levels : guestStars).map(Number).filter(Number.isInteger).reduce((a, b) => Math.max(a, b), 0);
+  const unlockedLevel = profile ? profile.unlockedLevel : Math.max(LEVEL_CONFIGS.length, highestPlayed + 1);
+  const count = Math.max(LEVEL_CONFIGS.length, unlockedLevel + 1);
+  const rows = Array.from({ length: Math.ceil(count / PER_ROW) }, (_, row) =>
+    Array.from({ length: PER_ROW }, (_, col) => row * PER_ROW + col + 1).filter(id => id <= count)
+  );
+  const totalStars = Array.from({ length: count }, (_, idx) => starsFor(idx + 1)).reduce((a, b) => a + b, 0);
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-[#f0fdf4] p-8 rounded-[40px] max-w-2xl w-full max-h-full overflow-y-auto shadow-2xl border-4 border-green-400" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-3xl font-black text-green-600 italic"><i className="fas fa-map mr-2"></i>{t('levelMap')}</h2>
+          <span className="ml-auto mr-4 font-black text-yellow-500"><i className="fas fa-star mr-1"></i>{totalStars}</span>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-white text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {rows.map((ids, row) => (
+            <div key={row} className={`relative flex justify-between ${row % 2 ? 'flex-row-reverse' : ''}`}>
+              <div className="absolute top-8 left-8 right-8 border-t-4 border-dashed border-yellow-300" />
+              {ids.map(id => {
+                const unlocked = id <= unlockedLevel;
+                return (
+                  <button
+                    key={id}
+                    disabled={!unlocked}
+                    onClick={() => onPlayLevel(id)}
+                    className="relative flex flex-col items-center gap-1 active:scale-95 transition-all disabled:cursor-not-allowed"
+                  >
+                    <span className={`w-16 h-16 rounded-full flex items-center justify-center text-2xl font-black border-b-4 shadow-lg ${unlocked ? 'bg-green-500 border-green-700 text-white' : 'bg-gray-200 border-gray-300 text-gray-400'}`}>
+                      {unlocked ? id : <i className="fas fa-lock"></i>}
+                    </span>
+                    <Stars count={starsFor(id)} />
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelMap;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Position } from '../types';
+import { TownModel, toGridPoint } from '../services/townModel';
+import TownMap from './TownMap';
+
+interface MinimapProps {
+  town: TownModel;
+  player: Position;
+  trail: Position[];
+  goal?: { x: number; z: number }; // only passed when the teacher allows it
+}
+
+const RADIUS = 4; // blocks shown on each side of the player
+
+// Small north-up map that follows the player during a level.
+const Minimap: React.FC<MinimapProps> = ({ town, player, trail, goal }) => {
+  const at = toGridPoint(player);
+  const bounds = { minI: at.i - RADIUS, maxI: at.i + RADIUS, minJ: at.j - RADIUS, maxJ: at.j + RADIUS };
+  return (
+    <div className="rounded-3xl overflow-hidden border-4 border-white shadow-xl bg-gray-700">
+      <TownMap town={town} bounds={bounds} cell={18} player={player} goal={goal} trails={[{ points: trail, color: '#60a5fa' }]} />
+    </div>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Direction } from '../types';
+import { DIRECTION_LABEL_KEYS, LanguageSettings, MESSAGES, MessageKey, parseMessage } from '../services/i18n';
+
+interface MsgProps {
+  text: string;
+  vars?: Record<string, React.ReactNode>;
+  furigana?: boolean;
+}
+
+// Renders a catalogue message, with furigana as <ruby> and placeholders filled from `vars`.
+const Msg: React.FC<MsgProps> = ({ text, vars = {}, furigana = true }) => (
+  <>
+    {parseMessage(text).map((part, idx) => {
+      if (part.kind === 'text') return <React.Fragment key={idx}>{part.text}</React.Fragment>;
+      if (part.kind === 'var') return <React.Fragment key={idx}>{vars[part.name]}</React.Fragment>;
+      return furigana ? (
+        <ruby key={idx}>{part.base}<rt className="text-[0.45em] font-bold">{part.reading}</rt></ruby>
+      ) : (
+        <React.Fragment key={idx}>{part.base}</React.Fragment>
+      );
+    })}
+  </>
+);
+
+// `t(key, vars)` renders a catalogue message in the student's language; `t.dir(direction)` names a move.
+export const translator = (language: LanguageSettings) => {
+  const messages = MESSAGES[language.locale];
+  const t = (key: MessageKey, vars?: Record<string, React.ReactNode>) => <Msg text={messages[key]} vars={vars} furigana={language.furigana} />;
+  return Object.assign(t, { dir: (direction: Direction) => t(DIRECTION_LABEL_KEYS[direction]) });
+};
+
+export default Msg;
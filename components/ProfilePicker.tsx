@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AVATARS, StudentProfile, createProfile, loadProfiles, saveProfile } from '../services/profileStore';
+import { LanguageSettings, MESSAGES, plainMessage } from '../services/i18n';
+import { translator } from './Msg';
+
+interface ProfilePickerProps {
+  language: LanguageSettings;
+  onPick: (profile: StudentProfile | null) => void;
+}
+
+// "Who is playing?" screen for shared classroom tablets.
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ language, onPick }) => {
+  const t = translator(language);
+  const [profiles] = useState<StudentProfile[]>(loadProfiles);
+  const [creating, setCreating] = useState(profiles.length === 0);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(AVATARS[0]);
+
+  const create = () => {
+    if (!name.trim()) return;
+    const profile = createProfile(name, avatar);
+    saveProfile(profile);
+    onPick(profile);
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm">
+      <div className="bg-white p-8 rounded-[40px] max-w-2xl w-full max-h-full overflow-y-auto shadow-2xl border-4 border-orange-400">
+        <h2 className="text-3xl font-black text-orange-500 mb-6 text-center uppercase italic">{t('whoIsPlaying')}</h2>
+
+        {!creating && (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-4 mb-6">
+            {profiles.map(p => (
+              <button key={p.id} onClick={() => onPick(p)} className="bg-orange-50 rounded-3xl p-4 flex flex-col items-center border-2 border-orange-200 active:scale-95 transition-all">
+                <span className="text-5xl mb-2">{p.avatar}</span>
+                <span className="font-black text-gray-700 truncate max-w-full">{p.name}</span>
+              </button>
+            ))}
+            <button onClick={() => setCreating(true)} className="bg-gray-50 rounded-3xl p-4 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 text-gray-400 active:scale-95 transition-all">
+              <i className="fas fa-plus text-4xl mb-2"></i>
+              <span className="font-black">{t('newStudent')}</span>
+            </button>
+          </div>
+        )}
+
+        {creating && (
+          <div className="mb-6">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder={plainMessage(MESSAGES[language.locale].yourName)}
+              maxLength={20}
+              autoFocus
+              className="w-full px-6 py-4 rounded-full border-4 border-orange-200 text-2xl font-black text-center text-gray-700 mb-4"
+            />
+            <div className="grid grid-cols-6 gap-2 mb-4">
+              {AVATARS.map(a => (
+                <button key={a} onClick={() => setAvatar(a)} className={`text-4xl p-2 rounded-2xl transition-all ${avatar === a ? 'bg-orange-200 scale-110' : 'bg-gray-50'}`}>{a}</button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {profiles.length > 0 && (
+                <button onClick={() => setCreating(false)} className="bg-gray-200 text-gray-700 font-black py-4 px-6 rounded-full active:translate-y-1"><i className="fas fa-arrow-left"></i></button>
+              )}
+              <button onClick={create} disabled={!name.trim()} className="flex-1 bg-orange-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1 disabled:opacity-40">{t('letsGo')}</button>
+            </div>
+          </div>
+        )}
+
+        <button onClick={() => onPick(null)} className="w-full text-gray-400 font-bold py-2">{t('playAsGuest')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePicker;
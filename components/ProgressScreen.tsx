@@ -0,0 +1,122 @@
+import React from 'react';
+import { Direction } from '../types';
+import { DIRECTION_ICONS, LEVEL_CONFIGS } from '../constants';
+import { StudentProfile, accuracy, averageStepMs, topConfusion } from '../services/profileStore';
+import { downloadTextFile } from '../services/levelFiles';
+import { LanguageSettings, MESSAGES, plainMessage } from '../services/i18n';
+import { translator } from './Msg';
+
+interface ProgressScreenProps {
+  profile: StudentProfile;
+  language: LanguageSettings;
+  onClose: () => void;
+  onPlayLevel: (level: number) => void;
+  onSwitch: () => void;
+  onReset: () => void;
+}
+
+const ProgressScreen: React.FC<ProgressScreenProps> = ({ profile, language, onClose, onPlayLevel, onSwitch, onReset }) => {
+  const t = translator(language);
+  const practised = (Object.keys(profile.directions) as Direction[]).filter(dir => profile.directions[dir]!.attempts > 0);
+  const avgStep = averageStepMs(profile);
+  // The fixed levels plus every generated level the student has unlocked, and the next one.
+  const levels = Array.from({ length: Math.max(LEVEL_CONFIGS.length, profile.unlockedLevel + 1) }, (_, idx) => idx + 1);
+
+  const exportProgress = () => {
+    downloadTextFile(`progress-${profile.name.replace(/\s+/g, '-').toLowerCase()}.json`, JSON.stringify(profile, null, 2));
+  };
+
+  const reset = () => {
+    if (window.confirm(plainMessage(MESSAGES[language.locale].resetProgress, { name: profile.name }))) onReset();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white p-8 rounded-[40px] max-w-2xl w-full max-h-full overflow-y-auto shadow-2xl border-4 border-orange-400" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-4 mb-6">
+          <span className="text-6xl">{profile.avatar}</span>
+          <div className="flex-1">
+            <h2 className="text-3xl font-black text-orange-500 italic">{profile.name}</h2>
+            <p className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('myProgress')}</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        {/* Levels */}
+        <h3 className="text-lg font-black text-gray-700 mb-2">{t('levelMap')}</h3>
+        <div className="grid grid-cols-5 gap-2 mb-6">
+          {levels.map(id => {
+            const unlocked = id <= profile.unlockedLevel;
+            const progress = profile.levels[String(id)];
+            return (
+              <button
+                key={id}
+                disabled={!unlocked}
+                onClick={() => onPlayLevel(id)}
+                className={`rounded-2xl p-3 flex flex-col items-center border-2 transition-all active:scale-95 ${unlocked ? 'bg-green-50 border-green-300 text-green-700' : 'bg-gray-100 border-gray-200 text-gray-300'}`}
+              >
+                <span className="text-2xl font-black">{unlocked ? id : <i className="fas fa-lock"></i>}</span>
+                <span className="text-[10px] font-bold">{progress ? `${progress.completions}/${progress.attempts}` : '—'}</span>
+                {!!progress?.stars && (
+                  <span className="text-[10px] text-yellow-400">
+                    {[1, 2, 3].map(n => <i key={n} className={`fas fa-star ${n <= progress.stars! ? '' : 'text-gray-200'}`}></i>)}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Directions */}
+        <h3 className="text-lg font-black text-gray-700 mb-2">{t('directions')}</h3>
+        {practised.length === 0 && <p className="text-sm text-gray-400 italic mb-6">{t('playToSeeResults')}</p>}
+        <div className="space-y-2 mb-6">
+          {practised.map(dir => {
+            const stats = profile.directions[dir];
+            const acc = accuracy(stats) ?? 0;
+            const confusion = topConfusion(stats);
+            return (
+              <div key={dir} className="flex items-center gap-3">
+                <span className="w-8 text-center text-blue-500"><i className={`fas ${DIRECTION_ICONS[dir]}`}></i></span>
+                <span className="w-24 text-sm font-bold text-gray-600">{t.dir(dir)}</span>
+                <div className="flex-1 bg-gray-200 h-4 rounded-full overflow-hidden">
+                  <div className={`h-full ${acc >= 0.8 ? 'bg-green-500' : acc >= 0.5 ? 'bg-yellow-400' : 'bg-red-400'}`} style={{ width: `${acc * 100}%` }} />
+                </div>
+                <span className="w-12 text-right text-sm font-black text-gray-700">{Math.round(acc * 100)}%</span>
+                <span className="w-40 text-xs text-gray-400 truncate">
+                  {confusion && t('confusedWith', { direction: t.dir(confusion.given), percent: Math.round(confusion.rate * 100) })}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Habits */}
+        <div className="grid grid-cols-3 gap-3 mb-6">
+          <div className="bg-blue-50 rounded-2xl p-4 text-center">
+            <div className="text-3xl font-black text-blue-600">{avgStep !== null ? `${(avgStep / 1000).toFixed(1)}s` : '—'}</div>
+            <div className="text-xs font-bold text-blue-400 uppercase">{t('timePerStep')}</div>
+          </div>
+          <div className="bg-yellow-50 rounded-2xl p-4 text-center">
+            <div className="text-3xl font-black text-yellow-600">{profile.replays}</div>
+            <div className="text-xs font-bold text-yellow-500 uppercase">{t('listenAgain')}</div>
+          </div>
+          <div className="bg-purple-50 rounded-2xl p-4 text-center">
+            <div className="text-3xl font-black text-purple-600">{profile.memorySpan || '—'}</div>
+            <div className="text-xs font-bold text-purple-400 uppercase">{t('memorySpanLabel')}</div>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onSwitch} className="flex-1 bg-orange-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1"><i className="fas fa-users mr-2"></i>{t('switchStudent')}</button>
+          <button onClick={exportProgress} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1"><i className="fas fa-file-export"></i></button>
+          <button onClick={reset} className="bg-red-100 text-red-600 font-black py-3 px-5 rounded-full active:translate-y-1"><i className="fas fa-trash"></i></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressScreen;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { DIRECTION_ICONS } from '../constants';
+import { EngineLevel, RouteReview as Review, stepPhrases } from '../services/gameEngine';
+import { LanguageSettings } from '../services/i18n';
+import TownMap, { boundsAround } from './TownMap';
+import { translator } from './Msg';
+
+interface RouteReviewProps {
+  level: EngineLevel;
+  review: Review;
+  language: LanguageSettings;
+  onClose: () => void;
+}
+
+const FRAME_MS = 450;
+
+// Overhead replay of a finished level: the intended route draws itself next to the student's,
+// and each wrong button press appears as a red stub where it happened.
+const RouteReview: React.FC<RouteReviewProps> = ({ level, review, language, onClose }) => {
+  const t = translator(language);
+  const { intended, actual, wrongTurns } = review;
+  const [shown, setShown] = useState(0);
+
+  useEffect(() => {
+    if (shown >= intended.length - 1) return;
+    const timer = setTimeout(() => setShown(n => n + 1), FRAME_MS);
+    return () => clearTimeout(timer);
+  }, [shown, intended.length]);
+
+  const bounds = boundsAround([...intended, ...wrongTurns.flatMap(w => w.points), level.target], 1);
+  const visibleWrong = wrongTurns.filter(w => w.at <= shown);
+  const first = wrongTurns[0];
+  const cell = Math.max(14, Math.min(32, Math.floor(480 / Math.max(bounds.maxI - bounds.minI + 1, bounds.maxJ - bounds.minJ + 1))));
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white p-6 rounded-[40px] max-w-3xl w-full max-h-full overflow-y-auto shadow-2xl border-4 border-blue-400" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-3xl font-black text-blue-600 italic"><i className="fas fa-route mr-2"></i>{t('routeReview')}</h2>
+          <button onClick={onClose} className="w-12 h-12 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 items-start">
+          <TownMap
+            town={level.town}
+            bounds={bounds}
+            cell={cell}
+            goal={level.target}
+            player={intended[shown]}
+            trails={[
+              { points: intended.slice(0, shown + 1), color: '#22c55e', dashed: true },
+              { points: actual.slice(0, Math.min(shown, actual.length - 1) + 1), color: '#3b82f6' },
+              ...visibleWrong.map(w => ({ points: w.points, color: '#ef4444' }))
+            ]}
+            markers={visibleWrong.map(w => ({ at: w.points[0], color: w === first ? '#ef4444' : '#fca5a5' }))}
+            className="rounded-2xl shrink-0"
+          />
+
+          <div className="flex-1 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-bold text-gray-600">
+              <span className="w-6 border-t-4 border-dashed border-green-500"></span> {t('theDirections')}
+            </div>
+            <div className="flex items-center gap-2 text-sm font-bold text-gray-600">
+              <span className="w-6 border-t-4 border-blue-500"></span> {t('yourRoute')}
+            </div>
+            {wrongTurns.length === 0 ? (
+              <p className="text-lg font-black text-green-600"><i className="fas fa-trophy mr-2"></i>{t('noWrongTurns')}</p>
+            ) : (
+              wrongTurns.map(({ at, mistake }, idx) => (
+                <div key={idx} className={`rounded-2xl p-3 transition-opacity ${at <= shown ? 'opacity-100' : 'opacity-30'} ${idx === 0 ? 'bg-red-100' : 'bg-red-50'}`}>
+                  <p className="text-xs font-black text-red-400 uppercase">{t('stepN', { n: mistake.step + 1 })}{idx === 0 && <> · {t('firstWrongTurn')}</>}</p>
+                  <p className="font-bold text-gray-700">"{stepPhrases(level, mistake.step)[mistake.index]}"</p>
+                  <p className="text-sm font-bold text-gray-500">
+                    <i className={`fas ${DIRECTION_ICONS[mistake.expected]} text-green-600 mr-1`}></i>{t.dir(mistake.expected)}
+                    <span className="mx-2">·</span>
+                    {t('youPressed')} <i className={`fas ${DIRECTION_ICONS[mistake.given]} text-red-500 mx-1`}></i>{t.dir(mistake.given)}
+                  </p>
+                </div>
+              ))
+            )}
+            <button onClick={() => setShown(0)} className="bg-blue-500 text-white font-black py-3 px-6 rounded-full shadow-lg active:translate-y-1">
+              <i className="fas fa-rotate-left mr-2"></i>{t('replay')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RouteReview;
@@ -0,0 +1,323 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { MemoryStyle } from '../types';
+import { DIRECTION_ICONS } from '../constants';
+import { SessionOutcome, SessionRecord, clearSessions, clearTeacherPin, describeMistake, getTeacherPin, loadSessions, sessionsToCsv, setTeacherPin } from '../services/sessionLog';
+import { downloadTextFile } from '../services/levelFiles';
+import { DifficultySettings, HIDE_REPLAY_FROM_LEVEL, LIVES_CHOICES, loadDifficultySettings, saveDifficultySettings } from '../services/difficulty';
+import { QUALITY_SETTINGS, QualitySetting, loadQualitySetting, saveQualitySetting } from '../services/renderQuality';
+import { AttemptRecording, clearAttempts, loadAttempts, parseAttemptFile } from '../services/attemptLog';
+
+interface TeacherDashboardProps {
+  allowPinSetup: boolean; // opened from the teacher setup link
+  onClose: () => void;
+  onReplay: (attempt: AttemptRecording) => void; // throws if the recording cannot be played
+}
+
+const formatDuration = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+type PinStep = 'enter' | 'choose' | 'confirm' | 'reset';
+
+// A PIN is only chosen from the teacher setup link (`?teacher=setup`), never from the student
+// START screen. Forgetting it means resetting, which wipes the results it was protecting.
+const PinGate: React.FC<{ allowSetup: boolean; onUnlock: () => void; onReset: () => void; onClose: () => void }> = ({ allowSetup, onUnlock, onReset, onClose }) => {
+  const existing = getTeacherPin();
+  const [step, setStep] = useState<PinStep>(existing ? 'enter' : 'choose');
+  const [pin, setPin] = useState('');
+  const [chosen, setChosen] = useState('');
+  const [error, setError] = useState(false);
+  const [mismatch, setMismatch] = useState(false);
+
+  const fail = () => {
+    setError(true);
+    setPin('');
+  };
+
+  const submit = () => {
+    if (!/^\d{4,8}$/.test(pin)) return fail();
+    if (step === 'enter') {
+      if (pin !== existing) return fail();
+      onUnlock();
+    } else if (step === 'choose') {
+      setMismatch(false);
+      setChosen(pin);
+      setPin('');
+      setStep('confirm');
+    } else if (step === 'confirm') {
+      if (pin !== chosen) {
+        setStep('choose');
+        setMismatch(true);
+        return fail();
+      }
+      setTeacherPin(pin);
+      onUnlock();
+    }
+  };
+
+  if (step === 'reset') {
+    return (
+      <div className="bg-white p-8 rounded-[40px] max-w-sm w-full shadow-2xl border-4 border-red-400 text-center" onClick={e => e.stopPropagation()}>
+        <i className="fas fa-triangle-exclamation text-5xl text-red-400 mb-4"></i>
+        <h2 className="text-2xl font-black text-red-600 mb-2 uppercase italic">Reset PIN?</h2>
+        <p className="text-sm font-bold text-gray-500 mb-4">This deletes the PIN and every result and recording on this device. Open the teacher setup link afterwards to choose a new PIN.</p>
+        <div className="flex gap-2">
+          <button onClick={() => setStep('enter')} className="flex-1 bg-gray-200 text-gray-700 font-black py-3 rounded-full active:translate-y-1">CANCEL</button>
+          <button onClick={onReset} className="flex-1 bg-red-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1">RESET</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!existing && !allowSetup) {
+    return (
+      <div className="bg-white p-8 rounded-[40px] max-w-sm w-full shadow-2xl border-4 border-indigo-400 text-center" onClick={e => e.stopPropagation()}>
+        <i className="fas fa-lock text-5xl text-indigo-400 mb-4"></i>
+        <h2 className="text-2xl font-black text-indigo-600 mb-2 uppercase italic">Teachers Only</h2>
+        <p className="text-sm font-bold text-gray-500 mb-4">No teacher PIN has been set on this device. Open the game with <span className="font-mono">?teacher=setup</span> to choose one.</p>
+        <button onClick={onClose} className="w-full bg-gray-200 text-gray-700 font-black py-3 rounded-full active:translate-y-1">CLOSE</button>
+      </div>
+    );
+  }
+
+  const prompt = { enter: 'Enter your PIN.', choose: 'Choose a PIN (4–8 digits) for this device.', confirm: 'Enter the same PIN again.' }[step];
+  return (
+    <div className="bg-white p-8 rounded-[40px] max-w-sm w-full shadow-2xl border-4 border-indigo-400 text-center" onClick={e => e.stopPropagation()}>
+      <i className="fas fa-lock text-5xl text-indigo-400 mb-4"></i>
+      <h2 className="text-2xl font-black text-indigo-600 mb-2 uppercase italic">Teachers Only</h2>
+      <p className="text-sm font-bold text-gray-500 mb-4">{mismatch && step === 'choose' ? 'Those PINs did not match. Choose a PIN again.' : prompt}</p>
+      <form onSubmit={e => { e.preventDefault(); submit(); }}>
+        <input
+          key={step}
+          type="password"
+          inputMode="numeric"
+          value={pin}
+          onChange={e => { setPin(e.target.value.replace(/\D/g, '')); setError(false); }}
+          maxLength={8}
+          autoFocus
+          className={`w-full px-6 py-3 rounded-full border-4 text-2xl font-black text-center tracking-[0.5em] mb-4 ${error ? 'border-red-400' : 'border-indigo-200'}`}
+        />
+        <div className="flex gap-2">
+          <button type="button" onClick={onClose} className="bg-gray-200 text-gray-700 font-black py-3 px-5 rounded-full active:translate-y-1"><i className="fas fa-times"></i></button>
+          <button type="submit" className="flex-1 bg-indigo-500 text-white font-black py-3 rounded-full shadow-lg active:translate-y-1">{step === 'enter' ? 'UNLOCK' : step === 'choose' ? 'NEXT' : 'SET PIN'}</button>
+        </div>
+      </form>
+      {step === 'enter' && (
+        <button onClick={() => setStep('reset')} className="mt-4 text-xs font-bold text-gray-400 underline">Forgot the PIN?</button>
+      )}
+    </div>
+  );
+};
+
+const TeacherDashboard: React.FC<TeacherDashboardProps> = ({ allowPinSetup, onClose, onReplay }) => {
+  const [unlocked, setUnlocked] = useState(false);
+  const [sessions, setSessions] = useState<SessionRecord[]>(loadSessions);
+  const [attempts, setAttempts] = useState(() => new Map(loadAttempts().map(a => [a.id, a])));
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayFile = useRef<HTMLInputElement>(null);
+  const [student, setStudent] = useState('');
+  const [levelFilter, setLevelFilter] = useState('');
+  const [outcome, setOutcome] = useState<SessionOutcome | ''>('');
+  const [onlyToday, setOnlyToday] = useState(false);
+  const [difficulty, setDifficulty] = useState(loadDifficultySettings);
+  const [quality, setQuality] = useState(loadQualitySetting);
+
+  const updateDifficulty = (change: Partial<DifficultySettings>) => {
+    const next = { ...difficulty, ...change };
+    saveDifficultySettings(next);
+    setDifficulty(next);
+  };
+
+  const changeQuality = (next: QualitySetting) => {
+    saveQualitySetting(next);
+    setQuality(next);
+  };
+
+  const students = useMemo(() => [...new Set(sessions.map(s => s.studentName))].sort(), [sessions]);
+  const levels = useMemo(() => [...new Set(sessions.map(s => s.levelLabel))].sort(), [sessions]);
+
+  const filtered = useMemo(() => {
+    const today = new Date().toDateString();
+    return sessions
+      .filter(s => !student || s.studentName === student)
+      .filter(s => !levelFilter || s.levelLabel === levelFilter)
+      .filter(s => !outcome || s.outcome === outcome)
+      .filter(s => !onlyToday || new Date(s.startedAt).toDateString() === today)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }, [sessions, student, levelFilter, outcome, onlyToday]);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const exportCsv = () => downloadTextFile(`direction-detective-results-${stamp}.csv`, sessionsToCsv(filtered), 'text/csv');
+  const exportJson = () => downloadTextFile(`direction-detective-results-${stamp}.json`, JSON.stringify(filtered, null, 2));
+
+  const clearAll = () => {
+    if (!window.confirm('Delete every recorded session on this device?')) return;
+    clearSessions();
+    clearAttempts();
+    setSessions([]);
+    setAttempts(new Map());
+  };
+
+  const resetPin = () => {
+    clearSessions();
+    clearAttempts();
+    clearTeacherPin();
+    onClose();
+  };
+
+  const watch = (attempt: AttemptRecording) => {
+    try {
+      onReplay(attempt);
+      onClose();
+    } catch (err) {
+      setReplayError((err as Error).message);
+    }
+  };
+
+  const openReplayFile = async (file: File) => {
+    try {
+      watch(parseAttemptFile(await file.text()));
+    } catch (err) {
+      setReplayError((err as Error).message);
+    }
+  };
+
+  const successRate = filtered.length ? Math.round((filtered.filter(s => s.outcome === 'success').length / filtered.length) * 100) : 0;
+
+  return (
+    <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={onClose}>
+      {!unlocked ? (
+        <PinGate allowSetup={allowPinSetup} onUnlock={() => setUnlocked(true)} onReset={resetPin} onClose={onClose} />
+      ) : (
+        <div className="bg-white p-6 rounded-[40px] max-w-5xl w-full h-full flex flex-col shadow-2xl border-4 border-indigo-400" onClick={e => e.stopPropagation()}>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-3xl font-black text-indigo-600 italic">Class Results</h2>
+            <button onClick={onClose} className="w-12 h-12 rounded-full bg-gray-100 text-gray-500 active:scale-90 transition-all">
+              <i className="fas fa-times text-xl"></i>
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <select value={student} onChange={e => setStudent(e.target.value)} className="px-4 py-2 rounded-full border-2 border-indigo-200 font-bold text-gray-700">
+              <option value="">All students</option>
+              {students.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select value={levelFilter} onChange={e => setLevelFilter(e.target.value)} className="px-4 py-2 rounded-full border-2 border-indigo-200 font-bold text-gray-700">
+              <option value="">All levels</option>
+              {levels.map(label => <option key={label} value={label}>{label}</option>)}
+            </select>
+            <select value={outcome} onChange={e => setOutcome(e.target.value as SessionOutcome | '')} className="px-4 py-2 rounded-full border-2 border-indigo-200 font-bold text-gray-700">
+              <option value="">All results</option>
+              <option value="success">Found it</option>
+              <option value="fail">Wrong move</option>
+            </select>
+            <label className="flex items-center gap-2 font-bold text-gray-600 px-2">
+              <input type="checkbox" checked={onlyToday} onChange={e => setOnlyToday(e.target.checked)} /> Today
+            </label>
+            <span className="ml-auto text-sm font-bold text-gray-500">{filtered.length} sessions · {successRate}% found</span>
+          </div>
+
+          {replayError && <p className="mb-2 text-sm font-bold text-red-500"><i className="fas fa-triangle-exclamation mr-1"></i>{replayError}</p>}
+
+          {/* Sessions */}
+          <div className="flex-1 overflow-auto rounded-2xl border-2 border-gray-100">
+            <table className="w-full text-sm">
+              <thead className="bg-indigo-50 text-indigo-700 text-left sticky top-0">
+                <tr>
+                  <th className="p-2">When</th>
+                  <th className="p-2">Student</th>
+                  <th className="p-2">Level</th>
+                  <th className="p-2">Step</th>
+                  <th className="p-2">Mistakes</th>
+                  <th className="p-2 text-center"><i className="fas fa-volume-up" title="Listen Again"></i></th>
+                  <th className="p-2 text-center"><i className="fas fa-lightbulb" title="Hints"></i></th>
+                  <th className="p-2">Time</th>
+                  <th className="p-2 text-center"><i className="fas fa-film" title="Replay"></i></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.length === 0 && (
+                  <tr><td colSpan={9} className="p-6 text-center text-gray-400 italic">No sessions yet.</td></tr>
+                )}
+                {filtered.map(s => (
+                  <tr key={s.id} className="border-t border-gray-100">
+                    <td className="p-2 text-gray-500 whitespace-nowrap">{new Date(s.startedAt).toLocaleString()}</td>
+                    <td className="p-2 font-bold text-gray-700">{s.studentName}</td>
+                    <td className="p-2 text-gray-700">
+                      {s.levelLabel}
+                      {s.memorySpan !== undefined && <span className="ml-1 text-xs font-bold text-purple-500" title="Memory span"><i className="fas fa-brain mr-0.5"></i>{s.memorySpan}</span>}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      <i className={`fas ${s.outcome === 'success' ? 'fa-trophy text-green-500' : 'fa-circle-xmark text-red-400'} mr-1`}></i>
+                      {s.stepReached} / {s.totalSteps}
+                    </td>
+                    <td className="p-2">
+                      {s.mistakes.map((m, idx) => (
+                        <span key={idx} title={describeMistake(m)} className="inline-flex items-center gap-1 bg-red-50 text-red-600 rounded-full px-2 py-0.5 mr-1 font-bold">
+                          <i className={`fas ${DIRECTION_ICONS[m.expected]}`}></i>
+                          <i className="fas fa-arrow-right text-[8px] text-red-300"></i>
+                          <i className={`fas ${DIRECTION_ICONS[m.given]}`}></i>
+                        </span>
+                      ))}
+                    </td>
+                    <td className="p-2 text-center text-gray-700">{s.replays}</td>
+                    <td className="p-2 text-center text-gray-700">{s.hintsUsed ?? 0}</td>
+                    <td className="p-2 text-gray-700">{formatDuration(s.durationMs)}</td>
+                    <td className="p-2 text-center">
+                      {attempts.has(s.id) && (
+                        <button onClick={() => watch(attempts.get(s.id)!)} title="Watch the replay" className="text-indigo-500 active:scale-90 transition-all"><i className="fas fa-circle-play text-lg"></i></button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <button onClick={exportCsv} disabled={filtered.length === 0} className="bg-indigo-500 text-white font-black py-3 px-6 rounded-full shadow-lg active:translate-y-1 disabled:opacity-40"><i className="fas fa-file-csv mr-2"></i>CSV</button>
+            <button onClick={exportJson} disabled={filtered.length === 0} className="bg-indigo-100 text-indigo-700 font-black py-3 px-6 rounded-full active:translate-y-1 disabled:opacity-40"><i className="fas fa-file-code mr-2"></i>JSON</button>
+            <button onClick={() => replayFile.current?.click()} title="Open a saved replay" className="bg-indigo-100 text-indigo-700 font-black py-3 px-6 rounded-full active:translate-y-1"><i className="fas fa-film mr-2"></i>Open</button>
+            <input ref={replayFile} type="file" accept="application/json,.json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) openReplayFile(f); e.target.value = ''; }} />
+            <label className="ml-auto flex items-center gap-2 font-bold text-gray-600 px-2" title="Graphics quality on this device">
+              <i className="fas fa-display text-indigo-400"></i>
+              <select value={quality} onChange={e => changeQuality(e.target.value as QualitySetting)} className="px-2 py-1 rounded-full border-2 border-indigo-200 font-bold text-gray-700">
+                {QUALITY_SETTINGS.map(q => <option key={q} value={q}>{q === 'auto' ? 'Auto graphics' : `${q[0].toUpperCase()}${q.slice(1)} graphics`}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 font-bold text-gray-600 px-2">
+              <i className="fas fa-heart text-red-400"></i>
+              <select value={difficulty.lives} onChange={e => updateDifficulty({ lives: Number(e.target.value) })} className="px-2 py-1 rounded-full border-2 border-indigo-200 font-bold text-gray-700">
+                {LIVES_CHOICES.map(n => <option key={n} value={n}>{n === 1 ? '1 life (classic)' : `${n} lives`}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 font-bold text-gray-600 px-2">
+              <input type="checkbox" checked={difficulty.hideReplayAtHighTiers} onChange={() => updateDifficulty({ hideReplayAtHighTiers: !difficulty.hideReplayAtHighTiers })} />
+              Hide "Listen Again" from level {HIDE_REPLAY_FROM_LEVEL}
+            </label>
+            <label className="flex items-center gap-2 font-bold text-gray-600 px-2">
+              <input type="checkbox" checked={difficulty.minimapGoal} onChange={() => updateDifficulty({ minimapGoal: !difficulty.minimapGoal })} />
+              Goal on minimap
+            </label>
+            <label className="flex items-center gap-2 font-bold text-gray-600 px-2" title="How Memory Challenge levels are played">
+              <i className="fas fa-brain text-purple-400"></i>
+              <select value={difficulty.memoryStyle} onChange={e => updateDifficulty({ memoryStyle: e.target.value as MemoryStyle })} className="px-2 py-1 rounded-full border-2 border-indigo-200 font-bold text-gray-700">
+                <option value="span">Growing span</option>
+                <option value="route">Whole route</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 font-bold text-gray-600 px-2">
+              <input type="checkbox" checked={difficulty.distractors} onChange={() => updateDifficulty({ distractors: !difficulty.distractors })} />
+              Distractors
+            </label>
+            <button onClick={clearAll} className="bg-red-100 text-red-600 font-black py-3 px-5 rounded-full active:translate-y-1"><i className="fas fa-trash"></i></button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeacherDashboard;
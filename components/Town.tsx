@@ -1,11 +1,15 @@
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame, useThree, ThreeElements } from '@react-three/fiber';
-import { Sky, Stars, Environment, ContactShadows } from '@react-three/drei';
+import { Sky, Stars, Environment, ContactShadows, PerformanceMonitor } from '@react-three/drei';
 import * as THREE from 'three';
 import Building from './Building';
+import InstancedTown from './InstancedTown';
+import Detective, { DetectiveMotion } from './Detective';
 import { Position, GameStatus } from '../types';
 import { GRID_SIZE } from '../constants';
+import { TownModel, isLandmarkKind, turnBetween } from '../services/townModel';
+import { CameraMode, QUALITY_PROFILES, QualitySetting, resolveQuality } from '../services/renderQuality';
 
 // Fix: Augment the React.JSX namespace to include Three.js elements.
 // Modern React (18+) and tools like Vite typically look for intrinsic elements in the React.JSX namespace.
@@ -21,140 +25,172 @@ interface TownProps {
   playerPos: Position;
   targetPos: { x: number, z: number };
   status: GameStatus;
+  town: TownModel;
+  quality: QualitySetting;
+  cameraMode: CameraMode;
+  onAnimatingChange?: (animating: boolean) => void;
 }
 
-const PlayerCamera: React.FC<{ playerPos: Position }> = ({ playerPos }) => {
-  const { camera } = useThree();
-  const targetCamPos = new THREE.Vector3(playerPos.x, 1.6, playerPos.z);
-  const targetRotationY = (playerPos.rotation * Math.PI) / 180;
-
-  useFrame(() => {
-    // Smoothly interpolate position
-    camera.position.lerp(targetCamPos, 0.15);
-    
-    // Smoothly interpolate rotation on Y axis only
-    // Using camera.rotation.y directly is safer for simple FPS rotation
-    camera.rotation.y = THREE.MathUtils.lerp(camera.rotation.y, targetRotationY, 0.1);
-    
-    // Ensure roll and pitch are kept at 0 for standard FPS feel
-    camera.rotation.x = 0;
-    camera.rotation.z = 0;
-  });
+const TURN_SPEED = 240; // degrees per second
+const WALK_SPEED = GRID_SIZE * 1.8; // units per second
 
-  return null;
+const CAMERA_OFFSETS: Record<CameraMode, { back: number; height: number; ahead: number; lookHeight: number }> = {
+  first: { back: 0, height: 1.6, ahead: 1, lookHeight: 1.6 },
+  shoulder: { back: 3.2, height: 2.6, ahead: 4, lookHeight: 1.2 },
+  overhead: { back: 0, height: 18, ahead: 0, lookHeight: 0 }
 };
 
-const RoadMarkings: React.FC = () => {
-  const lines = useMemo(() => {
-    const arr = [];
-    const extent = 150;
-    const step = GRID_SIZE;
-    
-    for (let x = -extent; x <= extent; x += step) {
-      for (let z = -extent; z <= extent; z += step) {
-        // Crosswalks at intersections
-        arr.push(
-          <group key={`cw-${x}-${z}`} position={[x, 0.02, z]}>
-            {/* Horizontal crosswalk */}
-            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]}>
-              <planeGeometry args={[1.5, 4]} />
-              <meshStandardMaterial color="#ffffff" transparent opacity={0.8} />
-            </mesh>
-          </group>
-        );
-      }
+// A move is animated when it is a turn, a straight walk, or a turn and then a walk (compass moves)
+// from the last spot. Anything else, like a new level or a restart from a checkpoint, jumps straight there.
+const isAnimatedMove = (from: Position, to: Position): boolean => {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  if (dx === 0 && dz === 0) return true;
+  if ((dx !== 0 && dz !== 0) || Math.abs(dx + dz) > GRID_SIZE * 3) return false;
+  // The walk must head the way the detective ends up facing.
+  const yaw = THREE.MathUtils.degToRad(to.rotation);
+  return Math.sign(dx) === Math.round(-Math.sin(yaw)) && Math.sign(dz) === Math.round(-Math.cos(yaw));
+};
+
+interface PlayerRigProps {
+  playerPos: Position;
+  mode: CameraMode;
+  onAnimatingChange?: (animating: boolean) => void;
+}
+
+// Walks and turns the detective towards `playerPos` at a steady pace and keeps the camera on them.
+// `onAnimatingChange(false)` fires once the detective has arrived after each new position.
+const PlayerRig: React.FC<PlayerRigProps> = ({ playerPos, mode, onAnimatingChange }) => {
+  const { camera } = useThree();
+  const avatar = useRef<THREE.Group>(null);
+  const pose = useRef({ x: playerPos.x, z: playerPos.z, rotation: playerPos.rotation });
+  const target = useRef(playerPos);
+  const busy = useRef(false);
+  const motion = useRef<DetectiveMotion>({ walking: false, turning: 0 });
+  const eye = useMemo(() => new THREE.Vector3(), []);
+  const look = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((_, delta) => {
+    const p = pose.current;
+    if (target.current !== playerPos) {
+      if (!isAnimatedMove(target.current, playerPos)) Object.assign(p, playerPos);
+      target.current = playerPos;
+      busy.current = true;
     }
-    return arr;
-  }, []);
 
-  return <>{lines}</>;
-};
+    // Turn first along the shortest way round, then walk.
+    const turn = turnBetween(p.rotation, playerPos.rotation);
+    const dx = playerPos.x - p.x;
+    const dz = playerPos.z - p.z;
+    const distance = Math.hypot(dx, dz);
+    if (Math.abs(turn) > 0.01) {
+      const stepAngle = Math.min(Math.abs(turn), TURN_SPEED * delta);
+      p.rotation += Math.sign(turn) * stepAngle;
+    } else if (distance > 0.001) {
+      const stepLength = Math.min(distance, WALK_SPEED * delta);
+      p.x += (dx / distance) * stepLength;
+      p.z += (dz / distance) * stepLength;
+    } else {
+      Object.assign(p, playerPos);
+    }
+    const settled = p.x === playerPos.x && p.z === playerPos.z && p.rotation === playerPos.rotation;
+    motion.current.walking = distance > 0.001 && Math.abs(turn) <= 0.01;
+    motion.current.turning = settled ? 0 : Math.sign(turn);
+    if (settled && busy.current) {
+      busy.current = false;
+      onAnimatingChange?.(false);
+    }
 
-const Town: React.FC<TownProps> = ({ playerPos, targetPos, status }) => {
-  const envObjects = useMemo(() => {
-    const objs = [];
-    const range = 20; // grid cells in each direction
-    const colors = ["#fbbf24", "#60a5fa", "#f87171", "#a78bfa", "#34d399", "#fb923c"];
-    
-    for (let i = -range; i <= range; i++) {
-      for (let j = -range; j <= range; j++) {
-        const x = i * GRID_SIZE;
-        const z = j * GRID_SIZE;
-
-        const bx = x + GRID_SIZE / 2;
-        const bz = z + GRID_SIZE / 2;
-
-        // Skip the goal position area
-        if (Math.abs(bx - targetPos.x) < 2 && Math.abs(bz - targetPos.z) < 2) continue;
-
-        const rand = Math.random();
-        if (rand < 0.4) {
-          objs.push(
-            <Building 
-              key={`b-${i}-${j}`} 
-              position={[bx, 0, bz]} 
-              color={colors[Math.floor(Math.random() * colors.length)]} 
-              type={rand < 0.1 ? 'store' : 'house'}
-              rotation={[0, Math.floor(Math.random() * 4) * (Math.PI / 2), 0]}
-            />
-          );
-        } else if (rand < 0.5) {
-          objs.push(<Building key={`p-${i}-${j}`} position={[bx, 0, bz]} type="park" />);
-        } else if (rand < 0.6) {
-          objs.push(<Building key={`t-${i}-${j}`} position={[bx + (Math.random()-0.5), 0, bz + (Math.random()-0.5)]} type="tree" />);
-        }
-
-        if (i % 2 === 0 && j % 2 === 0) {
-            objs.push(
-                <Building 
-                    key={`l-${i}-${j}`} 
-                    position={[x + 1.2, 0, z + 1.2]} 
-                    type="lamp" 
-                    rotation={[0, Math.PI / 4, 0]}
-                />
-            );
-        }
-      }
+    const yaw = THREE.MathUtils.degToRad(p.rotation);
+    avatar.current!.position.set(p.x, 0, p.z);
+    avatar.current!.rotation.y = yaw;
+    avatar.current!.visible = mode !== 'first';
+
+    const offset = CAMERA_OFFSETS[mode];
+    const forward = { x: -Math.sin(yaw), z: -Math.cos(yaw) };
+    if (mode === 'overhead') {
+      // North stays at the top of the screen so the map never spins.
+      eye.set(p.x, offset.height, p.z + 8);
+      look.set(p.x, offset.lookHeight, p.z);
+    } else {
+      eye.set(p.x - forward.x * offset.back, offset.height, p.z - forward.z * offset.back);
+      look.set(p.x + forward.x * offset.ahead, offset.lookHeight, p.z + forward.z * offset.ahead);
     }
-    return objs;
-  }, [targetPos]);
+    // Glide between camera modes, but stay locked on the detective's eyes in first person.
+    if (mode === 'first') camera.position.copy(eye);
+    else camera.position.lerp(eye, 1 - Math.exp(-8 * delta));
+    camera.lookAt(look);
+  });
+
+  return (
+    <group ref={avatar}>
+      <Detective motion={motion} />
+    </group>
+  );
+};
+
+const Town: React.FC<TownProps> = ({ playerPos, targetPos, status, town, quality, cameraMode, onAnimatingChange }) => {
+  // In 'auto', a frame rate that keeps dropping switches to the low-power profile for the session.
+  const [declined, setDeclined] = useState(false);
+  const level = useMemo(() => (quality === 'auto' && declined ? 'low' : resolveQuality(quality)), [quality, declined]);
+  const profile = QUALITY_PROFILES[level];
+  const viewDistance = profile.drawDistance * GRID_SIZE;
+
+  // The "city" lighting ships with the app instead of drei's CDN preset, and only loads when used.
+  const [cityHdri, setCityHdri] = useState<string | null>(null);
+  useEffect(() => {
+    if (profile.environment && !cityHdri) import('@pmndrs/assets/hdri/city.exr').then(m => setCityHdri(m.default));
+  }, [profile.environment, cityHdri]);
+
+  const goalLot = useMemo(() => {
+    const { i, j } = { i: Math.floor(targetPos.x / GRID_SIZE), j: Math.floor(targetPos.z / GRID_SIZE) };
+    return town.lots.find(l => l.i === i && l.j === j);
+  }, [town, targetPos]);
 
   return (
     <div className="w-full h-full bg-[#87ceeb]">
-      <Canvas shadows camera={{ fov: 70, near: 0.1, far: 1000 }}>
-        <fog attach="fog" args={["#87ceeb", 10, 80]} />
+      <Canvas shadows={profile.shadows} dpr={profile.dpr} camera={{ fov: 70, near: 0.1, far: 1000 }}>
+        {quality === 'auto' && <PerformanceMonitor onDecline={() => setDeclined(true)} />}
+        <fog attach="fog" args={["#87ceeb", 10, viewDistance]} />
         <Sky sunPosition={[100, 50, 100]} turbidity={0.1} rayleigh={2} />
-        <ambientLight intensity={0.6} />
+        <ambientLight intensity={profile.environment ? 0.6 : 0.9} />
         <directionalLight 
+          key={`${profile.shadows}-${profile.shadowMapSize}`}
           position={[50, 100, 50]} 
           intensity={1.2} 
-          castShadow 
-          shadow-mapSize={[2048, 2048]}
+          castShadow={profile.shadows}
+          shadow-mapSize={[profile.shadowMapSize, profile.shadowMapSize]}
           shadow-camera-left={-100}
           shadow-camera-right={100}
           shadow-camera-top={100}
           shadow-camera-bottom={-100}
         />
-        <Stars radius={100} depth={50} count={1000} factor={4} saturation={0} fade speed={1} />
+        {profile.stars > 0 && <Stars radius={100} depth={50} count={profile.stars} factor={4} saturation={0} fade speed={1} />}
         
         {/* Ground / Road */}
-        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]} receiveShadow>
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.01, 0]} receiveShadow={profile.shadows}>
           <planeGeometry args={[400, 400]} />
           <meshStandardMaterial color="#374151" />
         </mesh>
 
-        <RoadMarkings />
-
         {/* The World */}
-        {envObjects}
+        <InstancedTown town={town} targetPos={targetPos} center={playerPos} drawDistance={profile.drawDistance} shadows={profile.shadows} />
 
-        {/* Goal House */}
-        <Building position={[targetPos.x, 0, targetPos.z]} isGoal />
+        {/* Goal House, or the named landmark in landmark mode */}
+        {goalLot && isLandmarkKind(goalLot.kind) ? (
+          <Building position={[targetPos.x, 0, targetPos.z]} type={goalLot.kind} rotation={[0, goalLot.rotation, 0]} label={goalLot.label} isGoal />
+        ) : (
+          <Building position={[targetPos.x, 0, targetPos.z]} isGoal />
+        )}
 
-        <PlayerCamera playerPos={playerPos} />
+        <PlayerRig playerPos={playerPos} mode={cameraMode} onAnimatingChange={onAnimatingChange} />
         
-        <Environment preset="city" />
-        <ContactShadows position={[0, 0, 0]} opacity={0.4} scale={20} blur={2} far={4.5} />
+        {profile.environment && cityHdri && (
+          <>
+            <Environment files={cityHdri} />
+            <ContactShadows position={[0, 0, 0]} opacity={0.4} scale={20} blur={2} far={4.5} />
+          </>
+        )}
       </Canvas>
     </div>
   );
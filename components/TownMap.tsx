@@ -0,0 +1,141 @@
+import React from 'react';
+import { Position } from '../types';
+import { GRID_SIZE } from '../constants';
+import { GridPoint, TownModel, closedStreetSegments, headingOf, isLandmarkKind, toGridPoint } from '../services/townModel';
+
+export interface MapBounds {
+  minI: number;
+  maxI: number;
+  minJ: number;
+  maxJ: number;
+}
+
+export interface MapTrail {
+  points: Position[];
+  color: string;
+  dashed?: boolean;
+}
+
+export interface MapMarker {
+  at: Position;
+  color: string;
+}
+
+interface TownMapProps {
+  town: TownModel;
+  bounds: MapBounds;
+  cell?: number;
+  player?: Position;
+  goal?: { x: number; z: number };
+  trails?: MapTrail[];
+  markers?: MapMarker[];
+  className?: string;
+}
+
+export const boundsAround = (points: { x: number; z: number }[], margin = 2): MapBounds => {
+  const grid = points.map(p => toGridPoint(p));
+  return {
+    minI: Math.min(...grid.map(p => p.i)) - margin,
+    maxI: Math.max(...grid.map(p => p.i)) + margin,
+    minJ: Math.min(...grid.map(p => p.j)) - margin,
+    maxJ: Math.max(...grid.map(p => p.j)) + margin
+  };
+};
+
+const LOT_COLORS: Record<string, string> = {
+  park: '#4caf50',
+  tree: '#81c784',
+  station: '#94a3b8',
+  school: '#fde68a',
+  hospital: '#f8fafc',
+  postOffice: '#ef4444',
+  library: '#d6d3d1'
+};
+
+// Top-down view of the town model: north (-z) is up, like the player's starting view.
+const TownMap: React.FC<TownMapProps> = ({ town, bounds, cell = 28, player, goal, trails = [], markers = [], className }) => {
+  const toScreen = (p: GridPoint) => ({ x: (p.i - bounds.minI + 0.5) * cell, y: (p.j - bounds.minJ + 0.5) * cell });
+  const worldToScreen = (p: { x: number; z: number }) => ({
+    x: (p.x / GRID_SIZE - bounds.minI + 0.5) * cell,
+    y: (p.z / GRID_SIZE - bounds.minJ + 0.5) * cell
+  });
+  const width = (bounds.maxI - bounds.minI + 1) * cell;
+  const height = (bounds.maxJ - bounds.minJ + 1) * cell;
+  const inBounds = (p: GridPoint) => p.i >= bounds.minI && p.i <= bounds.maxI && p.j >= bounds.minJ && p.j <= bounds.maxJ;
+
+  const columns = Array.from({ length: bounds.maxI - bounds.minI + 1 }, (_, k) => bounds.minI + k);
+  const rows = Array.from({ length: bounds.maxJ - bounds.minJ + 1 }, (_, k) => bounds.minJ + k);
+  const lots = town.lots.filter(l => inBounds(l) && l.i < bounds.maxI && l.j < bounds.maxJ && l.kind !== 'empty');
+  const closed = closedStreetSegments(town).filter(s => inBounds(s.from) && inBounds(s.to));
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className}>
+      <rect width={width} height={height} fill="#374151" />
+      {lots.map(lot => {
+        const a = toScreen(lot);
+        const landmark = isLandmarkKind(lot.kind) || !!lot.label;
+        return (
+          <rect
+            key={`${lot.i},${lot.j}`}
+            x={a.x + cell * 0.2}
+            y={a.y + cell * 0.2}
+            width={cell * 0.6}
+            height={cell * 0.6}
+            rx={cell * 0.1}
+            fill={LOT_COLORS[lot.kind] ?? lot.color}
+            stroke={landmark ? '#1e3a8a' : 'none'}
+            strokeWidth={landmark ? 2 : 0}
+          >
+            {lot.label && <title>{lot.label}</title>}
+          </rect>
+        );
+      })}
+      {columns.map(i => (
+        <line key={`c${i}`} x1={toScreen({ i, j: bounds.minJ }).x} y1={toScreen({ i, j: bounds.minJ }).y} x2={toScreen({ i, j: bounds.maxJ }).x} y2={toScreen({ i, j: bounds.maxJ }).y} stroke="#9ca3af" strokeWidth={cell * 0.15} />
+      ))}
+      {rows.map(j => (
+        <line key={`r${j}`} x1={toScreen({ i: bounds.minI, j }).x} y1={toScreen({ i: bounds.minI, j }).y} x2={toScreen({ i: bounds.maxI, j }).x} y2={toScreen({ i: bounds.maxI, j }).y} stroke="#9ca3af" strokeWidth={cell * 0.15} />
+      ))}
+      {closed.map(({ from, to }) => {
+        const a = toScreen(from), b = toScreen(to);
+        return <line key={`${from.i},${from.j}:${to.i},${to.j}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#2e7d32" strokeWidth={cell * 0.3} />;
+      })}
+      {goal && (() => {
+        const g = worldToScreen(goal);
+        return (
+          <g>
+            <rect x={g.x - cell * 0.35} y={g.y - cell * 0.35} width={cell * 0.7} height={cell * 0.7} rx={cell * 0.1} fill="#ef4444" stroke="white" strokeWidth={2} />
+            <text x={g.x} y={g.y + cell * 0.15} textAnchor="middle" fontSize={cell * 0.45} fill="white">★</text>
+          </g>
+        );
+      })()}
+      {trails.map((trail, idx) => (
+        <polyline
+          key={idx}
+          points={trail.points.map(p => { const s = worldToScreen(p); return `${s.x},${s.y}`; }).join(' ')}
+          fill="none"
+          stroke={trail.color}
+          strokeWidth={cell * 0.18}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          strokeDasharray={trail.dashed ? `${cell * 0.3} ${cell * 0.2}` : undefined}
+          opacity={0.9}
+        />
+      ))}
+      {markers.map((marker, idx) => {
+        const m = worldToScreen(marker.at);
+        return <circle key={idx} cx={m.x} cy={m.y} r={cell * 0.3} fill="none" stroke={marker.color} strokeWidth={3} />;
+      })}
+      {player && (() => {
+        const p = worldToScreen(player);
+        return (
+          <g transform={`translate(${p.x}, ${p.y}) rotate(${-headingOf(player.rotation) * 90})`}>
+            <polygon points={`0,${-cell * 0.4} ${cell * 0.3},${cell * 0.3} ${-cell * 0.3},${cell * 0.3}`} fill="#3b82f6" stroke="white" strokeWidth={2} />
+          </g>
+        );
+      })()}
+    </svg>
+  );
+};
+
+export default TownMap;
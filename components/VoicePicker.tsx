@@ -0,0 +1,58 @@
+import React from 'react';
+import { Direction, VoiceSettings, VoiceSpeed } from '../types';
+import { VOICE_PACKS } from '../constants';
+
+interface VoicePickerProps {
+  voice: VoiceSettings;
+  onChange: (voice: VoiceSettings) => void;
+  onTest: (dir: Direction) => void;
+  onRecord: () => void;
+  onClose: () => void;
+}
+
+const SPEEDS: { id: VoiceSpeed; label: string; icon: string }[] = [
+  { id: 'normal', label: 'Normal', icon: 'fa-person-running' },
+  { id: 'slow', label: 'Slow', icon: 'fa-person-walking' }
+];
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ voice, onChange, onTest, onRecord, onClose }) => (
+  <div className="absolute inset-0 bg-black/60 z-[200] flex items-center justify-center p-6 backdrop-blur-sm" onClick={onClose}>
+    <div className="bg-white p-8 rounded-[40px] max-w-md w-full shadow-2xl border-4 border-yellow-400" onClick={e => e.stopPropagation()}>
+      <h2 className="text-3xl font-black text-yellow-600 mb-6 text-center uppercase italic">Voice</h2>
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {VOICE_PACKS.map(pack => (
+          <button
+            key={pack.id}
+            onClick={() => onChange({ ...voice, packId: pack.id })}
+            className={`py-3 px-4 rounded-2xl border-2 font-black flex items-center gap-2 transition-all ${voice.packId === pack.id ? 'bg-yellow-400 border-yellow-500 text-yellow-900' : 'bg-white border-gray-200 text-gray-600'}`}
+          >
+            <i className={`fas ${pack.gender === 'female' ? 'fa-person-dress' : 'fa-person'}`}></i>
+            {pack.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 mb-6">
+        {SPEEDS.map(speed => (
+          <button
+            key={speed.id}
+            onClick={() => onChange({ ...voice, speed: speed.id })}
+            className={`flex-1 py-3 rounded-full border-2 font-black transition-all ${voice.speed === speed.id ? 'bg-blue-500 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600'}`}
+          >
+            <i className={`fas ${speed.icon} mr-2`}></i>{speed.label}
+          </button>
+        ))}
+      </div>
+      <button onClick={onRecord} className="w-full mb-4 bg-pink-50 text-pink-600 border-2 border-pink-200 font-black py-3 rounded-full active:translate-y-1">
+        <i className="fas fa-microphone mr-2"></i>Record My Voice
+      </button>
+      <div className="flex gap-2">
+        <button onClick={() => onTest(Direction.LEFT)} className="bg-gray-200 text-gray-700 font-black py-4 px-6 rounded-full active:translate-y-1">
+          <i className="fas fa-play"></i>
+        </button>
+        <button onClick={onClose} className="flex-1 bg-yellow-500 text-white font-black py-4 rounded-full text-xl shadow-lg active:translate-y-1">DONE</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default VoicePicker;
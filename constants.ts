@@ -1,5 +1,4 @@
-
-import { Direction } from './types';
+import { Direction, LevelConfig, VocabularySet, VoicePack, VoiceSpeed } from './types';
 
 export const GRID_SIZE = 5; // Distance of one block
 export const TURN_ANGLE = 90;
@@ -7,17 +6,147 @@ export const TURN_ANGLE = 90;
 export const DIRECTION_PHRASES: Record<Direction, string> = {
   [Direction.STRAIGHT]: "Go straight.",
   [Direction.LEFT]: "Turn left.",
-  [Direction.RIGHT]: "Turn right."
+  [Direction.RIGHT]: "Turn right.",
+  [Direction.STRAIGHT_TWO]: "Go straight for two blocks.",
+  [Direction.STRAIGHT_THREE]: "Go straight for three blocks.",
+  [Direction.TURN_AROUND]: "Turn around.",
+  [Direction.STOP]: "Stop.",
+  [Direction.ON_LEFT]: "It's on your left.",
+  [Direction.ON_RIGHT]: "It's on your right.",
+  [Direction.NORTH]: "Go north.",
+  [Direction.EAST]: "Go east.",
+  [Direction.SOUTH]: "Go south.",
+  [Direction.WEST]: "Go west."
+};
+
+export const DIRECTION_ICONS: Record<Direction, string> = {
+  [Direction.STRAIGHT]: "fa-arrow-up",
+  [Direction.LEFT]: "fa-arrow-left",
+  [Direction.RIGHT]: "fa-arrow-right",
+  [Direction.STRAIGHT_TWO]: "fa-2",
+  [Direction.STRAIGHT_THREE]: "fa-3",
+  [Direction.TURN_AROUND]: "fa-rotate-left",
+  [Direction.STOP]: "fa-hand",
+  [Direction.ON_LEFT]: "fa-hand-point-left",
+  [Direction.ON_RIGHT]: "fa-hand-point-right",
+  [Direction.NORTH]: "fa-n",
+  [Direction.EAST]: "fa-e",
+  [Direction.SOUTH]: "fa-s",
+  [Direction.WEST]: "fa-w"
 };
 
-export const AUDIO_FILES: Record<Direction, string> = {
+export const DIRECTION_LABELS: Record<Direction, string> = {
+  [Direction.STRAIGHT]: "Straight",
+  [Direction.LEFT]: "Turn Left",
+  [Direction.RIGHT]: "Turn Right",
+  [Direction.STRAIGHT_TWO]: "2 Blocks",
+  [Direction.STRAIGHT_THREE]: "3 Blocks",
+  [Direction.TURN_AROUND]: "Turn Around",
+  [Direction.STOP]: "Stop",
+  [Direction.ON_LEFT]: "On Left",
+  [Direction.ON_RIGHT]: "On Right",
+  [Direction.NORTH]: "North",
+  [Direction.EAST]: "East",
+  [Direction.SOUTH]: "South",
+  [Direction.WEST]: "West"
+};
+
+// Said between commands in memory challenges with distractors on; none of them give a direction.
+export const DISTRACTOR_PHRASES = [
+  "The bakery smells nice today.",
+  "A dog is barking somewhere.",
+  "It might rain this afternoon.",
+  "The bus is late again.",
+  "Look at that red balloon!",
+  "My friend likes ice cream.",
+  "The library opens at nine.",
+  "There are ducks in the park."
+];
+
+// Only the original three phrases have recorded clips; the rest are spoken with text-to-speech.
+export const AUDIO_FILES: Partial<Record<Direction, string>> = {
   [Direction.STRAIGHT]: "./go-straight.mp3",
   [Direction.LEFT]: "./turn-left.mp3",
   [Direction.RIGHT]: "./turn-right.mp3"
 };
 
-export const LEVEL_CONFIGS = [
+// Voice pack manifest. Only the US female pack ships recorded clips.
+export const VOICE_PACKS: VoicePack[] = [
+  { id: 'us-female', label: 'American', lang: 'en-US', gender: 'female', voiceHints: ['Samantha', 'Zira', 'Google US English', 'Female'], clips: AUDIO_FILES },
+  { id: 'us-male', label: 'American', lang: 'en-US', gender: 'male', voiceHints: ['Alex', 'David', 'Fred', 'Male'] },
+  { id: 'uk-female', label: 'British', lang: 'en-GB', gender: 'female', voiceHints: ['Serena', 'Kate', 'Hazel', 'Libby', 'Google UK English Female'] },
+  { id: 'uk-male', label: 'British', lang: 'en-GB', gender: 'male', voiceHints: ['Daniel', 'George', 'Ryan', 'Google UK English Male'] },
+  { id: 'au-female', label: 'Australian', lang: 'en-AU', gender: 'female', voiceHints: ['Karen', 'Catherine', 'Natasha'] },
+  { id: 'au-male', label: 'Australian', lang: 'en-AU', gender: 'male', voiceHints: ['Lee', 'Gordon', 'William'] }
+];
+
+export const VOICE_SPEEDS: Record<VoiceSpeed, { rate: number; gapMs: number }> = {
+  normal: { rate: 0.8, gapMs: 400 },
+  slow: { rate: 0.6, gapMs: 800 }
+};
+
+// How far each command drives and how much it turns.
+export const DIRECTION_BLOCKS: Partial<Record<Direction, number>> = {
+  [Direction.STRAIGHT]: 1,
+  [Direction.STRAIGHT_TWO]: 2,
+  [Direction.STRAIGHT_THREE]: 3,
+  [Direction.NORTH]: 1,
+  [Direction.EAST]: 1,
+  [Direction.SOUTH]: 1,
+  [Direction.WEST]: 1
+};
+
+export const DIRECTION_TURNS: Partial<Record<Direction, number>> = {
+  [Direction.LEFT]: TURN_ANGLE,
+  [Direction.RIGHT]: -TURN_ANGLE,
+  [Direction.TURN_AROUND]: TURN_ANGLE * 2
+};
+
+// Compass moves face a fixed heading before driving. North is the starting heading (-z).
+export const DIRECTION_HEADINGS: Partial<Record<Direction, number>> = {
+  [Direction.NORTH]: 0,
+  [Direction.WEST]: TURN_ANGLE,
+  [Direction.SOUTH]: TURN_ANGLE * 2,
+  [Direction.EAST]: -TURN_ANGLE
+};
+
+export const CARDINAL_DIRECTIONS: Direction[] = [Direction.NORTH, Direction.EAST, Direction.SOUTH, Direction.WEST];
+
+export const VOCABULARY_SETS: Record<VocabularySet, Direction[]> = {
+  basic: [Direction.STRAIGHT, Direction.LEFT, Direction.RIGHT],
+  extended: [Direction.STRAIGHT, Direction.LEFT, Direction.RIGHT, Direction.STRAIGHT_TWO, Direction.STRAIGHT_THREE, Direction.TURN_AROUND],
+  full: Object.values(Direction).filter(dir => !CARDINAL_DIRECTIONS.includes(dir)),
+  compass: [...CARDINAL_DIRECTIONS, Direction.STRAIGHT, Direction.LEFT, Direction.RIGHT]
+};
+
+export const KEY_BINDINGS: Record<string, Direction> = {
+  ArrowUp: Direction.STRAIGHT,
+  ArrowLeft: Direction.LEFT,
+  ArrowRight: Direction.RIGHT,
+  ArrowDown: Direction.TURN_AROUND,
+  '2': Direction.STRAIGHT_TWO,
+  '3': Direction.STRAIGHT_THREE,
+  s: Direction.STOP,
+  q: Direction.ON_LEFT,
+  e: Direction.ON_RIGHT
+};
+
+// On compass levels the arrow keys point the way they do on a north-up map.
+export const COMPASS_KEY_BINDINGS: Record<string, Direction> = {
+  ArrowUp: Direction.NORTH,
+  ArrowRight: Direction.EAST,
+  ArrowDown: Direction.SOUTH,
+  ArrowLeft: Direction.WEST,
+  n: Direction.NORTH,
+  e: Direction.EAST,
+  s: Direction.SOUTH,
+  w: Direction.WEST
+};
+
+export const LEVEL_CONFIGS: LevelConfig[] = [
   { id: 1, commandCountPerStep: 1, totalSteps: 8 },
   { id: 2, commandCountPerStep: 2, totalSteps: 10 },
-  { id: 3, commandCountPerStep: 3, totalSteps: 12 }
+  { id: 3, commandCountPerStep: 3, totalSteps: 12 },
+  { id: 4, commandCountPerStep: 2, totalSteps: 8, vocabulary: 'extended' },
+  { id: 5, commandCountPerStep: 3, totalSteps: 8, vocabulary: 'full' }
 ];
@@ -0,0 +1,81 @@
+// WebSocket relay for classroom projector mode. Run it on the teacher's laptop:
+//   npm run relay            (PORT=8787 by default)
+// Students on the same network join with the room code shown on the projector.
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_STUDENTS = 40;
+const MAX_NAME_LENGTH = 20;
+
+const rooms = new Map(); // room code -> { host, students: Map<id, { socket, name }> }
+let nextId = 1;
+
+const send = (socket, msg) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(msg));
+};
+
+const fail = (socket, message) => {
+  send(socket, { type: 'error', message });
+  socket.close();
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket) => {
+  let joined = null; // { room, role, id }
+
+  socket.on('message', (data) => {
+    let msg;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    if (!joined) {
+      if (msg.type !== 'join' || typeof msg.room !== 'string') return fail(socket, 'Join a room first.');
+      const room = rooms.get(msg.room);
+      const id = `c${nextId++}`;
+      if (msg.role === 'host') {
+        if (room) return fail(socket, 'That room code is already in use.');
+        rooms.set(msg.room, { host: socket, students: new Map() });
+      } else {
+        if (!room) return fail(socket, 'No class with that room code.');
+        if (room.students.size >= MAX_STUDENTS) return fail(socket, 'This class is full.');
+        const name = String(msg.name ?? 'Student').slice(0, MAX_NAME_LENGTH);
+        room.students.set(id, { socket, name });
+        send(room.host, { type: 'joined', from: id, name });
+      }
+      joined = { room: msg.room, role: msg.role === 'host' ? 'host' : 'student', id };
+      send(socket, { type: 'welcome', id });
+      return;
+    }
+
+    const room = rooms.get(joined.room);
+    if (!room) return;
+    if (joined.role === 'student') {
+      // Students only ever answer; anything else is dropped rather than passed to the host.
+      if (msg.type === 'answer') send(room.host, { ...msg, from: joined.id });
+    } else {
+      room.students.forEach((student, id) => {
+        if (!msg.to || msg.to === id) send(student.socket, msg);
+      });
+    }
+  });
+
+  socket.on('close', () => {
+    if (!joined) return;
+    const room = rooms.get(joined.room);
+    if (!room) return;
+    if (joined.role === 'host') {
+      rooms.delete(joined.room);
+      room.students.forEach(student => send(student.socket, { type: 'end' }));
+    } else {
+      room.students.delete(joined.id);
+      send(room.host, { type: 'left', from: joined.id });
+    }
+  });
+});
+
+console.log(`Classroom relay listening on ws://0.0.0.0:${PORT}`);
@@ -0,0 +1,57 @@
+// A stand-in Learning Record Store for trying out embed mode without a learning platform:
+//   npm run mock-lrs         (PORT=8788 by default)
+// It keeps statements in memory, prints each one as it arrives, and lists them all at
+// GET /xapi/statements. Point the game at it with `?embed=1&endpoint=http://localhost:8788/xapi/`.
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8788);
+const statements = [];
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Experience-API-Version'
+};
+
+const reply = (res, status, body) => {
+  res.writeHead(status, { ...CORS, 'Content-Type': 'application/json', 'X-Experience-API-Version': '1.0.3' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const describe = (s) => {
+  const verb = s.verb?.display?.['en-US'] ?? s.verb?.id;
+  const object = s.object?.definition?.name?.['en-US'] ?? s.object?.id;
+  const result = s.result?.score ? ` score ${s.result.score.raw}` : s.result?.response ? ` (${s.result.response})` : '';
+  return `${s.actor?.name ?? s.actor?.mbox ?? 'someone'} ${verb} ${object}${result}`;
+};
+
+const server = createServer((req, res) => {
+  const path = new URL(req.url, 'http://localhost').pathname.replace(/\/+$/, '');
+  if (req.method === 'OPTIONS') return reply(res, 204);
+  if (path !== '/xapi/statements') return reply(res, 404, { error: 'Statements live at /xapi/statements' });
+  if (req.method === 'GET') return reply(res, 200, { statements, more: '' });
+  if (req.method !== 'POST') return reply(res, 405, { error: 'Use GET or POST' });
+  if (!req.headers['x-experience-api-version']) return reply(res, 400, { error: 'Missing X-Experience-API-Version header' });
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let parsed;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return reply(res, 400, { error: 'The body is not valid JSON' });
+    }
+    const batch = (Array.isArray(parsed) ? parsed : [parsed]).map(s => ({ id: randomUUID(), stored: new Date().toISOString(), ...s }));
+    if (batch.some(s => !s.actor || !s.verb?.id || !s.object?.id)) return reply(res, 400, { error: 'Statements need an actor, verb and object' });
+    batch.forEach(s => {
+      statements.push(s);
+      console.log(describe(s));
+    });
+    reply(res, 200, batch.map(s => s.id));
+  });
+});
+
+server.listen(PORT, () => console.log(`Mock LRS listening on http://localhost:${PORT}/xapi/`));
@@ -0,0 +1,37 @@
+// Offline support. The build (see vite.config.ts) prepends PRECACHE, the list of every built file,
+// and CACHE_NAME, which changes whenever a build changes any of those files.
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('direction-detective-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The classroom relay and anything cross-origin go straight to the network.
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages get the cached app shell, ignoring the level code or room in the query string.
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('./index.html', { ignoreSearch: true })));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { ignoreSearch: true }).then(cached => cached ?? fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
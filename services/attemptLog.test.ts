@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Direction, GameStatus } from '../types';
+import { buildLevel } from './gameEngine';
+import { createTown } from './townModel';
+import { levelConfigFor } from './difficulty';
+import { logAttemptEvent, parseAttemptFile, rebuildAttemptLevel, replayFrames, serializeAttempt, startAttempt } from './attemptLog';
+
+const recording = () => {
+  const config = levelConfigFor(2);
+  const level = buildLevel(config, createTown(7), { memory: 'span' });
+  const attempt = startAttempt({
+    studentName: 'Aki',
+    levelLabel: 'Level 2',
+    lives: 1,
+    level: { kind: 'generated', seed: 7, config, memory: 'span', path: level.path }
+  });
+  logAttemptEvent(attempt, { type: 'input', step: 0, index: 0, expected: Direction.LEFT, given: Direction.LEFT, correct: true });
+  return attempt;
+};
+
+describe('parseAttemptFile', () => {
+  it('reads back a saved recording and rebuilds its level', () => {
+    const attempt = recording();
+    const parsed = parseAttemptFile(serializeAttempt(attempt));
+    expect(parsed.events).toEqual(attempt.events);
+    expect(parsed.level).toMatchObject({ kind: 'generated', seed: 7, memory: 'span' });
+    expect(rebuildAttemptLevel(parsed).path).toEqual(attempt.level.path);
+  });
+
+  it('drops malformed events', () => {
+    const file = JSON.parse(serializeAttempt(recording()));
+    file.events.push(null, { type: 'replay' }, { type: 'replay', t: 'soon' });
+    expect(parseAttemptFile(JSON.stringify(file)).events).toHaveLength(1);
+  });
+
+  it('drops events missing the fields their type needs', () => {
+    const file = JSON.parse(serializeAttempt(recording()));
+    file.events.push(
+      { type: 'play', t: 1 },
+      { type: 'play', t: 1, step: 0.5, commands: [], phrases: [] },
+      { type: 'play', t: 1, step: 0, commands: ['UP'], phrases: [] },
+      { type: 'play', t: 1, step: 0, commands: [Direction.LEFT], phrases: [3] },
+      { type: 'replay', t: 1, step: -1 },
+      { type: 'hint', t: 1, step: 0 },
+      { type: 'input', t: 1, step: 0, index: 0, expected: Direction.LEFT, given: 'SIDEWAYS', correct: false },
+      { type: 'status', t: 1, status: 'DANCING' },
+      { type: 'teleport', t: 1, step: 0 }
+    );
+    const parsed = parseAttemptFile(JSON.stringify(file));
+    expect(parsed.events).toHaveLength(1);
+    expect(replayFrames(rebuildAttemptLevel(parsed), parsed)).toHaveLength(2);
+  });
+
+  it('keeps well-formed events of every type', () => {
+    const file = JSON.parse(serializeAttempt(recording()));
+    file.events = [
+      { type: 'status', t: 0, status: GameStatus.LISTENING },
+      { type: 'play', t: 1, step: 0, commands: [Direction.LEFT], phrases: ['Turn left.'] },
+      { type: 'replay', t: 2, step: 0 },
+      { type: 'hint', t: 3, step: 0, hintLevel: 1 },
+      { type: 'input', t: 4, step: 0, index: 0, expected: Direction.LEFT, given: Direction.RIGHT, correct: false }
+    ];
+    expect(parseAttemptFile(JSON.stringify(file)).events).toEqual(file.events);
+  });
+
+  it('rejects level configs that cannot be rebuilt', () => {
+    const file = JSON.parse(serializeAttempt(recording()));
+    const withConfig = (config: object) => JSON.stringify({ ...file, level: { ...file.level, config: { ...file.level.config, ...config } } });
+    expect(() => parseAttemptFile(withConfig({ totalSteps: 1e9 }))).toThrow('which level was played');
+    expect(() => parseAttemptFile(withConfig({ commandCountPerStep: 0 }))).toThrow('which level was played');
+    expect(() => parseAttemptFile(withConfig({ commandCountPerStep: 2.5 }))).toThrow('which level was played');
+    expect(() => parseAttemptFile(withConfig({ vocabulary: 'klingon' }))).toThrow('unknown vocabulary');
+    expect(() => parseAttemptFile(withConfig({ vocabulary: 'toString' }))).toThrow('unknown vocabulary');
+    expect(parseAttemptFile(withConfig({ vocabulary: 'extended' })).level).toMatchObject({ config: { vocabulary: 'extended' } });
+    const weights = { [Direction.LEFT]: 2, [Direction.RIGHT]: 1e9, [Direction.STRAIGHT]: 'lots', SIDEWAYS: 1 };
+    const { level } = parseAttemptFile(JSON.stringify({ ...file, level: { ...file.level, weights } }));
+    expect(level.kind === 'generated' && level.weights).toEqual({ [Direction.LEFT]: 2 });
+  });
+
+  it('rejects files that are not recordings', () => {
+    expect(() => parseAttemptFile('not json')).toThrow('not valid JSON');
+    expect(() => parseAttemptFile('[]')).toThrow('not an attempt recording');
+    const file = JSON.parse(serializeAttempt(recording()));
+    expect(() => parseAttemptFile(JSON.stringify({ ...file, level: { ...file.level, seed: 'seven' } }))).toThrow('which level was played');
+  });
+});
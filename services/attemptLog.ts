@@ -0,0 +1,205 @@
+// Timestamped event log of one attempt at a level, kept so the class can replay it afterwards.
+// The level itself is stored as the recipe that built it, since every town and route is seeded.
+
+import { Direction, GameLevel, GameStatus, LevelConfig, MemoryStyle } from '../types';
+import { EngineLevel, GameAction, GameState, buildAuthoredLevel, buildLevel, gameReducer, initialGameState } from './gameEngine';
+import { createTown } from './townModel';
+import { authoredTown, isDirection, isRecord, isVocabularySet, validateLevel } from './levelFiles';
+import { MAX_COMMANDS_PER_STEP } from './difficulty';
+
+export const ATTEMPT_FILE_VERSION = 1;
+
+export type AttemptEventBody =
+  | { type: 'status'; status: GameStatus }
+  | { type: 'play'; step: number; commands: Direction[]; phrases: string[] } // a step's directions were spoken
+  | { type: 'replay'; step: number } // "Listen Again"
+  | { type: 'hint'; step: number; hintLevel: number }
+  | { type: 'input'; step: number; index: number; expected: Direction; given: Direction; correct: boolean };
+
+export type AttemptEvent = AttemptEventBody & { t: number }; // ms since the attempt started
+
+export type AttemptLevel =
+  | { kind: 'generated'; seed: number; config: LevelConfig; landmarks?: boolean; compass?: boolean; memory?: MemoryStyle; weights?: Partial<Record<Direction, number>>; path: Direction[] }
+  | { kind: 'authored'; level: GameLevel; path: Direction[] };
+
+export interface AttemptRecording {
+  version: number;
+  id: string; // the id of the SessionRecord it belongs to, once finished
+  studentName: string;
+  levelLabel: string;
+  startedAt: number;
+  lives: number;
+  level: AttemptLevel;
+  events: AttemptEvent[];
+}
+
+const ATTEMPTS_KEY = 'direction-detective.attempts';
+const MAX_ATTEMPTS = 30;
+const MAX_RECORDED_STEPS = 50; // well past any real level, low enough that rebuilding stays quick
+const MAX_RECORDED_WEIGHT = 4; // weakDirectionWeights never goes higher
+
+export const startAttempt = (fields: Omit<AttemptRecording, 'version' | 'id' | 'startedAt' | 'events'>): AttemptRecording => ({
+  version: ATTEMPT_FILE_VERSION,
+  id: '',
+  startedAt: Date.now(),
+  events: [],
+  ...fields
+});
+
+export const logAttemptEvent = (attempt: AttemptRecording, event: AttemptEventBody) => {
+  attempt.events.push({ ...event, t: Date.now() - attempt.startedAt } as AttemptEvent);
+};
+
+export const loadAttempts = (): AttemptRecording[] => {
+  try {
+    const raw = localStorage.getItem(ATTEMPTS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const findAttempt = (id: string): AttemptRecording | undefined => loadAttempts().find(a => a.id === id);
+
+// Only the latest attempts are kept; each one holds every input, so they add up quickly.
+export const saveAttempt = (attempt: AttemptRecording) => {
+  const attempts = [...loadAttempts().filter(a => a.id !== attempt.id), attempt].slice(-MAX_ATTEMPTS);
+  try {
+    localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+  } catch (err) {
+    console.warn('Could not store the attempt recording', err);
+  }
+};
+
+export const clearAttempts = () => localStorage.removeItem(ATTEMPTS_KEY);
+
+export const serializeAttempt = (attempt: AttemptRecording): string => JSON.stringify(attempt, null, 2);
+
+const isCount = (value: unknown, min: number, max = Number.MAX_SAFE_INTEGER): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isStatus = (value: unknown): value is GameStatus => Object.values(GameStatus).includes(value as GameStatus);
+
+// What each event type must carry before the replay can act on it.
+const EVENT_FIELDS: Record<AttemptEventBody['type'], (event: Record<string, unknown>) => boolean> = {
+  status: e => isStatus(e.status),
+  play: e => isCount(e.step, 0) && Array.isArray(e.commands) && e.commands.every(isDirection) &&
+    Array.isArray(e.phrases) && e.phrases.every(p => typeof p === 'string'),
+  replay: e => isCount(e.step, 0),
+  hint: e => isCount(e.step, 0) && isCount(e.hintLevel, 0),
+  input: e => isCount(e.step, 0) && isCount(e.index, 0) && isDirection(e.expected) && isDirection(e.given) && typeof e.correct === 'boolean'
+};
+
+const isAttemptEvent = (value: unknown): value is AttemptEvent =>
+  isRecord(value) && typeof value.t === 'number' && Number.isFinite(value.t) &&
+  typeof value.type === 'string' && Object.hasOwn(EVENT_FIELDS, value.type) && EVENT_FIELDS[value.type as AttemptEventBody['type']](value);
+
+// Rebuilding generates the whole route, so the sizes are bounded as well as typed.
+const readLevelConfig = (raw: unknown): LevelConfig => {
+  if (!isRecord(raw) || !isCount(raw.id, 1) || !isCount(raw.commandCountPerStep, 1, MAX_COMMANDS_PER_STEP) || !isCount(raw.totalSteps, 1, MAX_RECORDED_STEPS)) {
+    throw new Error('The recording does not say which level was played');
+  }
+  const config: LevelConfig = { id: raw.id, commandCountPerStep: raw.commandCountPerStep, totalSteps: raw.totalSteps };
+  if (isVocabularySet(raw.vocabulary)) config.vocabulary = raw.vocabulary;
+  else if (raw.vocabulary !== undefined) throw new Error('The recording uses an unknown vocabulary');
+  return config;
+};
+
+// Each unit of weight is one more entry in the generator's draw, so large values hang it too.
+const readWeights = (raw: unknown): Partial<Record<Direction, number>> | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const weights: Partial<Record<Direction, number>> = {};
+  for (const [dir, weight] of Object.entries(raw)) {
+    if (isDirection(dir) && isCount(weight, 0, MAX_RECORDED_WEIGHT)) weights[dir] = weight;
+  }
+  return weights;
+};
+
+const readAttemptLevel = (raw: Record<string, unknown>): AttemptLevel => {
+  if (!Array.isArray(raw.path)) throw new Error('The file is not an attempt recording');
+  const path = raw.path.filter(isDirection);
+  if (raw.kind === 'authored') return { kind: 'authored', level: validateLevel(raw.level), path };
+  if (raw.kind !== 'generated' || typeof raw.seed !== 'number' || !Number.isFinite(raw.seed)) {
+    throw new Error('The recording does not say which level was played');
+  }
+  // Rebuilding the level also checks the config against the recorded path.
+  return {
+    kind: 'generated',
+    seed: raw.seed,
+    config: readLevelConfig(raw.config),
+    landmarks: raw.landmarks === true,
+    compass: raw.compass === true,
+    memory: raw.memory === 'route' || raw.memory === 'span' ? raw.memory : undefined,
+    weights: readWeights(raw.weights),
+    path
+  };
+};
+
+export const parseAttemptFile = (text: string): AttemptRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.events) || !isRecord(raw.level)) {
+    throw new Error('The file is not an attempt recording');
+  }
+  return {
+    version: ATTEMPT_FILE_VERSION,
+    id: String(raw.id ?? ''),
+    studentName: String(raw.studentName ?? 'Guest'),
+    levelLabel: String(raw.levelLabel ?? ''),
+    startedAt: Number(raw.startedAt) || 0,
+    lives: Math.max(1, Number(raw.lives) || 1),
+    level: readAttemptLevel(raw.level),
+    events: raw.events.filter(isAttemptEvent)
+  };
+};
+
+// Rebuilds the level that was played. Towns and routes are seeded, so this only fails if the
+// generator has changed since the recording was made.
+export const rebuildAttemptLevel = (attempt: AttemptRecording): EngineLevel => {
+  const recipe = attempt.level;
+  const level = recipe.kind === 'authored'
+    ? buildAuthoredLevel(recipe.level, authoredTown(recipe.level))
+    : buildLevel(recipe.config, createTown(recipe.seed), { landmarks: recipe.landmarks, compass: recipe.compass, memory: recipe.memory, weights: recipe.weights });
+  if (level.path.join() !== recipe.path.join()) throw new Error('This recording was made with a different version of the game');
+  return level;
+};
+
+export interface ReplayFrame {
+  t: number;
+  event: AttemptEvent | null; // null for the opening frame
+  state: GameState;
+}
+
+const actionFor = (event: AttemptEvent): GameAction | null => {
+  switch (event.type) {
+    case 'play':
+      return { type: 'START_STEP', step: event.step };
+    case 'input':
+      return { type: 'MOVE', direction: event.given };
+    case 'hint':
+      return { type: 'USE_HINT' };
+    case 'status':
+      if (event.status === GameStatus.MOVING) return { type: 'FINISH_LISTENING' };
+      if (event.status === GameStatus.SUCCESS) return { type: 'COMPLETE_LEVEL' };
+      return null;
+    default:
+      return null;
+  }
+};
+
+// Replays the log through the game reducer, giving the state of the game after every event.
+export const replayFrames = (level: EngineLevel, attempt: AttemptRecording): ReplayFrame[] => {
+  let state = gameReducer(initialGameState, { type: 'LOAD_LEVEL', level, lives: attempt.lives });
+  const frames: ReplayFrame[] = [{ t: 0, event: null, state }];
+  for (const event of attempt.events) {
+    const action = actionFor(event);
+    if (action) state = gameReducer(state, action);
+    frames.push({ t: event.t, event, state });
+  }
+  return frames;
+};
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Direction } from '../types';
+import { VOICE_PACKS } from '../constants';
+import { DEFAULT_VOICE, createMockAudioService, createWebAudioService, voicePackFor } from './audioService';
+import { HINT_PACING } from './difficulty';
+
+describe('mock audio service', () => {
+  it('records each command with its spoken text', async () => {
+    const audio = createMockAudioService();
+    await audio.playSequence([{ direction: Direction.LEFT }, { direction: Direction.STRAIGHT, phrase: 'Walk past the bakery.' }]);
+    expect(audio.spoken).toEqual([
+      { direction: Direction.LEFT, text: 'Turn left.' },
+      { direction: Direction.STRAIGHT, text: 'Walk past the bakery.' }
+    ]);
+  });
+
+  it('keeps the voice, recorded clips and pacing it was given', async () => {
+    const audio = createMockAudioService();
+    expect(audio.voice()).toEqual(DEFAULT_VOICE);
+    await audio.setVoice({ packId: VOICE_PACKS[1].id, speed: 'slow' });
+    await audio.setCustomClips({ [Direction.RIGHT]: new Blob() });
+    audio.setPacing(HINT_PACING);
+    expect(audio.voice()).toEqual({ packId: VOICE_PACKS[1].id, speed: 'slow' });
+    expect(audio.customClips()).toEqual([Direction.RIGHT]);
+    expect(audio.pacing()).toBe(HINT_PACING);
+  });
+});
+
+describe('voicePackFor', () => {
+  it('falls back to the first pack for an unknown id', () => {
+    expect(voicePackFor({ packId: VOICE_PACKS[2].id, speed: 'normal' })).toBe(VOICE_PACKS[2]);
+    expect(voicePackFor({ packId: 'gone', speed: 'normal' })).toBe(VOICE_PACKS[0]);
+  });
+});
+
+// A stand-in for Web Audio and speechSynthesis that logs what is heard, in order. Clips decode to
+// their file name (or recorded blob text) and end shortly after they start.
+const heard: string[] = [];
+const sources: { label: string; rate: number; stopped: boolean }[] = [];
+const encode = (text: string) => new TextEncoder().encode(text).buffer;
+
+class FakeAudioContext {
+  currentTime = 0;
+  state = 'running';
+  destination = {};
+  decodeAudioData = async (data: ArrayBuffer) => ({ duration: 0.5, label: new TextDecoder().decode(data) });
+  createBufferSource = () => {
+    const source = {
+      buffer: null as { label: string } | null,
+      playbackRate: { value: 1 },
+      onended: null as (() => void) | null,
+      connect: () => undefined,
+      start: () => {
+        const entry = { label: source.buffer!.label, rate: source.playbackRate.value, stopped: false };
+        sources.push(entry);
+        source.stop = () => { entry.stopped = true; };
+        setTimeout(() => {
+          if (entry.stopped) return;
+          heard.push(`clip:${entry.label}`);
+          source.onended?.();
+        }, 100);
+      },
+      stop: () => undefined
+    };
+    return source;
+  };
+}
+
+class FakeUtterance {
+  onend: (() => void) | null = null;
+  constructor(public text: string) {}
+}
+
+const fastPace = { gapScale: 0, rateScale: 1 };
+
+describe('web audio service', () => {
+  beforeEach(() => {
+    heard.length = 0;
+    sources.length = 0;
+    vi.stubGlobal('window', {
+      AudioContext: FakeAudioContext,
+      speechSynthesis: {
+        getVoices: () => [],
+        cancel: () => undefined,
+        speak: (u: FakeUtterance) => setTimeout(() => { heard.push(`say:${u.text}`); u.onend?.(); }, 0)
+      }
+    });
+    vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+    vi.stubGlobal('fetch', async (url: string) => ({ ok: true, arrayBuffer: async () => encode(url) }));
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('plays pack clips and speaks directions without one, in order', async () => {
+    const audio = createWebAudioService();
+    await audio.playSequence([{ direction: Direction.LEFT }, { direction: Direction.TURN_AROUND }, { direction: Direction.STRAIGHT }], fastPace);
+    expect(heard).toEqual(['clip:./turn-left.mp3', 'say:Turn around.', 'clip:./go-straight.mp3']);
+  });
+
+  it('prefers a recorded clip over the pack clip', async () => {
+    const audio = createWebAudioService();
+    await audio.setCustomClips({ [Direction.LEFT]: new Blob(['teacher-left']) });
+    await audio.playSequence([{ direction: Direction.LEFT }, { direction: Direction.RIGHT }], fastPace);
+    expect(heard).toEqual(['clip:teacher-left', 'clip:./turn-right.mp3']);
+  });
+
+  it('speaks custom phrases even when the direction has a clip', async () => {
+    const audio = createWebAudioService();
+    await audio.playSequence([{ direction: Direction.LEFT, phrase: 'Turn left at the bakery.' }], fastPace);
+    expect(heard).toEqual(['say:Turn left at the bakery.']);
+  });
+
+  it('slows clips down at slow speed instead of dropping them', async () => {
+    const audio = createWebAudioService();
+    await audio.setVoice({ packId: VOICE_PACKS[0].id, speed: 'slow' });
+    await audio.setCustomClips({ [Direction.RIGHT]: new Blob(['teacher-right']) });
+    await audio.playSequence([{ direction: Direction.LEFT }, { direction: Direction.RIGHT }], fastPace);
+    expect(heard).toEqual(['clip:./turn-left.mp3', 'clip:teacher-right']);
+    sources.forEach(s => expect(s.rate).toBeCloseTo(0.75));
+  });
+
+  it('stops clips a previous sequence already scheduled', async () => {
+    const audio = createWebAudioService();
+    const first = audio.playSequence([{ direction: Direction.LEFT }, { direction: Direction.RIGHT }], fastPace);
+    await vi.waitFor(() => expect(sources).toHaveLength(2));
+    await audio.playSequence([{ direction: Direction.STRAIGHT }], fastPace);
+    await first;
+    expect(sources.slice(0, 2).every(s => s.stopped)).toBe(true);
+    expect(heard).toEqual(['clip:./go-straight.mp3']);
+  });
+});
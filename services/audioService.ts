@@ -0,0 +1,227 @@
+// Spoken directions. Clips are decoded once into Web Audio buffers and scheduled on the audio clock.
+// A teacher's recorded clip wins over the voice pack's clip; anything without a clip (or with a
+// custom phrase) is spoken with speechSynthesis. At slow speed, packs without slow clips and
+// teacher clips are played back slower (so slightly lower) rather than dropped for speech.
+// The game only talks to the AudioService interface, so tests can use createMockAudioService.
+
+import { Direction, VoicePack, VoiceSettings } from '../types';
+import { DIRECTION_PHRASES, VOICE_PACKS, VOICE_SPEEDS } from '../constants';
+import { CustomClips } from './clipStore';
+import { NORMAL_PACING, Pacing } from './difficulty';
+
+export interface SpokenCommand {
+  direction: Direction;
+  phrase?: string; // defaults to DIRECTION_PHRASES
+}
+
+export interface AudioService {
+  setVoice: (settings: VoiceSettings) => Promise<void>; // resolves once the pack's clips are decoded
+  setCustomClips: (clips: CustomClips) => Promise<void>;
+  setPacing: (pacing: Pacing) => void; // scales the voice speed's gap and rate for the current level
+  playSequence: (commands: SpokenCommand[], pacing?: Pacing) => Promise<void>; // pacing overrides setPacing for this call
+  stop: () => void;
+}
+
+const VOICE_KEY = 'direction-detective.voice';
+export const DEFAULT_VOICE: VoiceSettings = { packId: VOICE_PACKS[0].id, speed: 'normal' };
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(VOICE_KEY) ?? 'null');
+    if (parsed && VOICE_PACKS.some(p => p.id === parsed.packId) && parsed.speed in VOICE_SPEEDS) return parsed;
+  } catch {
+    // fall through to the default
+  }
+  return DEFAULT_VOICE;
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => localStorage.setItem(VOICE_KEY, JSON.stringify(settings));
+
+export const voicePackFor = (settings: VoiceSettings): VoicePack =>
+  VOICE_PACKS.find(p => p.id === settings.packId) ?? VOICE_PACKS[0];
+
+const SLOWED_PLAYBACK_RATE = VOICE_SPEEDS.slow.rate / VOICE_SPEEDS.normal.rate;
+
+// The pack's clips for the speed and the playback rate they need to sound at that speed.
+const clipsFor = (pack: VoicePack, settings: VoiceSettings) =>
+  settings.speed === 'slow' && pack.slowClips
+    ? { clips: pack.slowClips, playbackRate: 1 }
+    : { clips: pack.clips ?? {}, playbackRate: settings.speed === 'slow' ? SLOWED_PLAYBACK_RATE : 1 };
+
+interface Clip {
+  buffer: AudioBuffer;
+  playbackRate: number;
+}
+
+interface AudioWindow {
+  webkitAudioContext?: typeof AudioContext; // Safari before 14.1
+}
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const pickSystemVoice = (pack: VoicePack): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices().filter(v => v.lang.replace('_', '-').startsWith(pack.lang));
+  for (const hint of pack.voiceHints) {
+    const match = voices.find(v => v.name.toLowerCase().includes(hint.toLowerCase()));
+    if (match) return match;
+  }
+  return voices[0];
+};
+
+export const createWebAudioService = (): AudioService => {
+  let context: AudioContext | null = null;
+  const buffers = new Map<string, Promise<AudioBuffer | null>>();
+  let customBuffers: Partial<Record<Direction, Promise<AudioBuffer | null>>> = {};
+  let settings = DEFAULT_VOICE;
+  let pacing = NORMAL_PACING;
+  let sources: AudioBufferSourceNode[] = [];
+  let generation = 0;
+
+  const getContext = () => {
+    const Ctor = window.AudioContext ?? (window as Window & AudioWindow).webkitAudioContext;
+    if (!context && Ctor) context = new Ctor();
+    return context;
+  };
+
+  const decodeBlob = (blob: Blob): Promise<AudioBuffer | null> => {
+    const ctx = getContext();
+    if (!ctx) return Promise.resolve(null);
+    return blob.arrayBuffer()
+      .then(data => ctx.decodeAudioData(data))
+      .catch(err => {
+        console.warn('Recorded clip could not be decoded', err);
+        return null;
+      });
+  };
+
+  const decode = (url: string): Promise<AudioBuffer | null> => {
+    if (!buffers.has(url)) {
+      const ctx = getContext();
+      buffers.set(url, !ctx ? Promise.resolve(null) : fetch(url)
+        .then(res => (res.ok ? res.arrayBuffer() : Promise.reject(new Error(`${res.status} ${url}`))))
+        .then(data => ctx.decodeAudioData(data))
+        .catch(err => {
+          console.warn('Audio clip unavailable, using speech synthesis', err);
+          return null;
+        }));
+    }
+    return buffers.get(url)!;
+  };
+
+  const speak = (text: string, pace: Pacing): Promise<void> => new Promise(resolve => {
+    const pack = voicePackFor(settings);
+    // Safety net for browsers that never fire onend.
+    const timeout = setTimeout(resolve, 2000 + text.length * 120);
+    const done = () => { clearTimeout(timeout); resolve(); };
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = pack.lang;
+    utterance.voice = pickSystemVoice(pack) ?? null;
+    utterance.rate = VOICE_SPEEDS[settings.speed].rate * pace.rateScale;
+    utterance.onend = done;
+    utterance.onerror = done;
+    window.speechSynthesis.speak(utterance);
+  });
+
+  const stopSources = () => {
+    sources.forEach(s => { try { s.stop(); } catch { /* already stopped */ } });
+    sources = [];
+  };
+
+  // Starts a run of clips back to back with exact gaps and resolves when the last one ends.
+  const scheduleClips = (ctx: AudioContext, clips: Clip[], gapMs: number): Promise<void> => {
+    let at = ctx.currentTime + 0.05;
+    const run = clips.map(({ buffer, playbackRate }) => {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = playbackRate;
+      source.connect(ctx.destination);
+      source.start(at);
+      at += buffer.duration / playbackRate + gapMs / 1000;
+      return source;
+    });
+    sources.push(...run);
+    return new Promise(resolve => {
+      const last = run[run.length - 1];
+      const timeout = setTimeout(resolve, (at - ctx.currentTime) * 1000 + 500);
+      last.onended = () => { clearTimeout(timeout); resolve(); };
+    });
+  };
+
+  return {
+    setVoice: async (next) => {
+      settings = next;
+      const { clips } = clipsFor(voicePackFor(next), next);
+      await Promise.all(Object.values(clips).map(url => decode(url!)));
+    },
+
+    setCustomClips: async (clips) => {
+      customBuffers = {};
+      (Object.entries(clips) as [Direction, Blob][]).forEach(([dir, blob]) => { customBuffers[dir] = decodeBlob(blob); });
+      await Promise.all(Object.values(customBuffers));
+    },
+
+    setPacing: (next) => { pacing = next; },
+
+    playSequence: async (commands, override) => {
+      const id = ++generation;
+      stopSources();
+      const pace = override ?? pacing;
+      const ctx = getContext();
+      if (ctx?.state === 'suspended') await ctx.resume().catch(() => undefined);
+      const { clips, playbackRate } = clipsFor(voicePackFor(settings), settings);
+      const customRate = settings.speed === 'slow' ? SLOWED_PLAYBACK_RATE : 1;
+      const gapMs = VOICE_SPEEDS[settings.speed].gapMs * pace.gapScale;
+
+      // Clips only say the plain phrase; custom phrases (landmarks) are always spoken.
+      const resolved = await Promise.all(commands.map(async ({ direction, phrase }) => {
+        const text = phrase ?? DIRECTION_PHRASES[direction];
+        if (text !== DIRECTION_PHRASES[direction]) return { text, clip: null };
+        const custom = await customBuffers[direction];
+        if (custom) return { text, clip: { buffer: custom, playbackRate: customRate } };
+        const url = clips[direction];
+        const buffer = url ? await decode(url) : null;
+        return { text, clip: buffer ? { buffer, playbackRate } : null };
+      }));
+
+      for (let idx = 0; idx < resolved.length && id === generation; ) {
+        if (resolved[idx].clip && ctx) {
+          const run: Clip[] = [];
+          while (idx < resolved.length && resolved[idx].clip) run.push(resolved[idx++].clip!);
+          await scheduleClips(ctx, run, gapMs);
+        } else {
+          await speak(resolved[idx++].text, pace);
+        }
+        if (idx < resolved.length) await delay(gapMs);
+      }
+    },
+
+    stop: () => {
+      generation++;
+      stopSources();
+      window.speechSynthesis?.cancel();
+    }
+  };
+};
+
+// Records what would have been said and resolves immediately.
+export const createMockAudioService = () => {
+  const spoken: { direction: Direction; text: string }[] = [];
+  let voice = DEFAULT_VOICE;
+  let custom: Direction[] = [];
+  let pacing = NORMAL_PACING;
+  const service: AudioService & { spoken: typeof spoken; voice: () => VoiceSettings; customClips: () => Direction[]; pacing: () => Pacing } = {
+    spoken,
+    voice: () => voice,
+    customClips: () => custom,
+    pacing: () => pacing,
+    setPacing: (next) => { pacing = next; },
+    setVoice: async (next) => { voice = next; },
+    setCustomClips: async (clips) => { custom = Object.keys(clips) as Direction[]; },
+    playSequence: async (commands) => {
+      commands.forEach(({ direction, phrase }) => spoken.push({ direction, text: phrase ?? DIRECTION_PHRASES[direction] }));
+    },
+    stop: () => undefined
+  };
+  return service;
+};
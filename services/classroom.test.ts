@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { ClassroomMessage, MAX_STUDENTS, answerDistribution, createFakeRelay, isAnswerCorrect, isValidAnswer } from './classroom';
+
+const inbox = () => {
+  const messages: ClassroomMessage[] = [];
+  return { messages, onMessage: (msg: ClassroomMessage) => messages.push(msg) };
+};
+
+describe('fake relay', () => {
+  it('introduces students to the host and forwards their answers', () => {
+    const relay = createFakeRelay();
+    const host = inbox();
+    const student = inbox();
+    relay.connect({ room: 'ABCD', role: 'host' }, host.onMessage);
+    const conn = relay.connect({ room: 'ABCD', role: 'student', name: 'Aki' }, student.onMessage);
+    conn.send({ type: 'answer', step: 0, answer: [Direction.LEFT] });
+
+    expect(student.messages).toEqual([{ type: 'welcome', id: 'c2' }]);
+    expect(host.messages.slice(1)).toEqual([
+      { type: 'joined', from: 'c2', name: 'Aki' },
+      { type: 'answer', from: 'c2', step: 0, answer: [Direction.LEFT] }
+    ]);
+  });
+
+  it('drops anything a student sends other than answers', () => {
+    const relay = createFakeRelay();
+    const host = inbox();
+    relay.connect({ room: 'ABCD', role: 'host' }, host.onMessage);
+    const conn = relay.connect({ room: 'ABCD', role: 'student' }, () => undefined);
+    conn.send({ type: 'reveal', step: 0, expected: [Direction.LEFT] });
+    expect(host.messages.map(m => m.type)).toEqual(['welcome', 'joined']);
+  });
+
+  it('caps names at 20 characters like the relay', () => {
+    const relay = createFakeRelay();
+    const host = inbox();
+    relay.connect({ room: 'ABCD', role: 'host' }, host.onMessage);
+    relay.connect({ room: 'ABCD', role: 'student', name: 'A'.repeat(30) }, () => undefined);
+    expect(host.messages[1]).toMatchObject({ type: 'joined', name: 'A'.repeat(20) });
+  });
+
+  it('sends host messages to everyone or to one student', () => {
+    const relay = createFakeRelay();
+    const host = relay.connect({ room: 'ABCD', role: 'host' }, () => undefined);
+    const first = inbox();
+    const second = inbox();
+    relay.connect({ room: 'ABCD', role: 'student' }, first.onMessage);
+    relay.connect({ room: 'ABCD', role: 'student' }, second.onMessage);
+    host.send({ type: 'end', to: 'c2' });
+    host.send({ type: 'reveal', step: 0, expected: [Direction.RIGHT] });
+    expect(first.messages.map(m => m.type)).toEqual(['welcome', 'end', 'reveal']);
+    expect(second.messages.map(m => m.type)).toEqual(['welcome', 'reveal']);
+  });
+
+  it('refuses unknown rooms, taken room codes and full classes', () => {
+    const relay = createFakeRelay();
+    const errors = inbox();
+    relay.connect({ room: 'NONE', role: 'student' }, errors.onMessage);
+    relay.connect({ room: 'ABCD', role: 'host' }, () => undefined);
+    relay.connect({ room: 'ABCD', role: 'host' }, errors.onMessage);
+    for (let n = 0; n < MAX_STUDENTS; n++) relay.connect({ room: 'ABCD', role: 'student' }, () => undefined);
+    relay.connect({ room: 'ABCD', role: 'student' }, errors.onMessage);
+    expect(errors.messages).toEqual([
+      { type: 'error', message: 'No class with that room code.' },
+      { type: 'error', message: 'That room code is already in use.' },
+      { type: 'error', message: 'This class is full.' }
+    ]);
+  });
+
+  it('tells students when the host leaves', () => {
+    const relay = createFakeRelay();
+    const host = relay.connect({ room: 'ABCD', role: 'host' }, () => undefined);
+    const student = inbox();
+    relay.connect({ room: 'ABCD', role: 'student' }, student.onMessage);
+    host.close();
+    expect(student.messages[student.messages.length - 1]).toEqual({ type: 'end' });
+  });
+});
+
+describe('answers', () => {
+  it('only accepts a direction from the vocabulary for every slot', () => {
+    const vocabulary = [Direction.LEFT, Direction.RIGHT, Direction.STRAIGHT];
+    expect(isValidAnswer([Direction.LEFT, Direction.STRAIGHT], vocabulary, 2)).toBe(true);
+    for (const answer of ['left', null, undefined, {}, [Direction.LEFT], [Direction.LEFT, Direction.NORTH], [Direction.LEFT, 'jump'], [Direction.LEFT, null]]) {
+      expect(isValidAnswer(answer, vocabulary, 2)).toBe(false);
+    }
+  });
+
+  it('delivers a malformed answer for the host to reject', () => {
+    const relay = createFakeRelay();
+    const host = inbox();
+    relay.connect({ room: 'ABCD', role: 'host' }, host.onMessage);
+    const conn = relay.connect({ room: 'ABCD', role: 'student' }, () => undefined);
+    conn.send({ type: 'answer', step: 0, answer: 'left' } as unknown as ClassroomMessage);
+    const received = host.messages[host.messages.length - 1];
+    expect(received.type).toBe('answer');
+    expect(received.type === 'answer' && isValidAnswer(received.answer, [Direction.LEFT], 1)).toBe(false);
+  });
+
+  it('checks answers in order', () => {
+    expect(isAnswerCorrect([Direction.LEFT, Direction.RIGHT], [Direction.LEFT, Direction.RIGHT])).toBe(true);
+    expect(isAnswerCorrect([Direction.RIGHT, Direction.LEFT], [Direction.LEFT, Direction.RIGHT])).toBe(false);
+    expect(isAnswerCorrect(undefined, [Direction.LEFT])).toBe(false);
+  });
+
+  it('counts the picks for each slot', () => {
+    const answers = [[Direction.LEFT, Direction.STRAIGHT], [Direction.LEFT], [Direction.RIGHT, Direction.STRAIGHT]];
+    expect(answerDistribution(answers, 2)).toEqual([
+      { [Direction.LEFT]: 2, [Direction.RIGHT]: 1 },
+      { [Direction.STRAIGHT]: 2 }
+    ]);
+  });
+});
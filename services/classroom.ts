@@ -0,0 +1,152 @@
+// Projector mode: a teacher host and up to 40 student devices share a room on a WebSocket relay
+// (scripts/classroom-relay.mjs). The host sends each step; students answer with their Directions.
+// Both sides only talk to ClassroomTransport, so tests can swap the relay for an in-process fake.
+
+import { Direction } from '../types';
+
+export const MAX_STUDENTS = 40;
+export const MAX_NAME_LENGTH = 20;
+export const DEFAULT_RELAY_PORT = 8787;
+
+export type ClassroomRole = 'host' | 'student';
+
+export interface JoinRequest {
+  room: string;
+  role: ClassroomRole;
+  name?: string;
+}
+
+export type ClassroomMessage =
+  // relay -> clients
+  | { type: 'welcome'; id: string }
+  | { type: 'joined'; from: string; name: string }
+  | { type: 'left'; from: string }
+  | { type: 'error'; message: string }
+  // host -> students (`to` addresses a single student, e.g. a late joiner)
+  | { type: 'step'; to?: string; step: number; totalSteps: number; slots: number; vocabulary: Direction[] }
+  | { type: 'reveal'; to?: string; step: number; expected: Direction[] }
+  | { type: 'end'; to?: string }
+  // student -> host (the relay fills in `from`)
+  | { type: 'answer'; from?: string; step: number; answer: Direction[] };
+
+export interface ClassroomConnection {
+  send: (msg: ClassroomMessage) => void;
+  close: () => void;
+}
+
+export interface ClassroomTransport {
+  connect: (join: JoinRequest, onMessage: (msg: ClassroomMessage) => void) => ClassroomConnection;
+}
+
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export const randomRoomCode = (): string =>
+  Array.from({ length: 4 }, () => ROOM_ALPHABET[Math.floor(Math.random() * ROOM_ALPHABET.length)]).join('');
+
+export const defaultRelayUrl = (): string =>
+  `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+
+export const createWebSocketTransport = (url: string): ClassroomTransport => ({
+  connect: (join, onMessage) => {
+    const socket = new WebSocket(url);
+    let closedByUs = false;
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'join', ...join }));
+    socket.onmessage = (e) => {
+      try {
+        onMessage(JSON.parse(e.data));
+      } catch (err) {
+        console.warn('Ignoring malformed classroom message', err);
+      }
+    };
+    socket.onerror = () => onMessage({ type: 'error', message: `Could not reach the classroom relay at ${url}.` });
+    socket.onclose = () => {
+      if (!closedByUs) onMessage({ type: 'error', message: 'Disconnected from the classroom relay.' });
+    };
+    return {
+      send: (msg) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+      },
+      close: () => {
+        closedByUs = true;
+        socket.close();
+      }
+    };
+  }
+});
+
+// Same room rules as the Node relay, delivered synchronously in-process.
+export const createFakeRelay = (): ClassroomTransport => {
+  type Client = { id: string; name: string; deliver: (msg: ClassroomMessage) => void };
+  const rooms = new Map<string, { host: Client; students: Map<string, Client> }>();
+  let nextId = 1;
+
+  return {
+    connect: (join, onMessage) => {
+      const client: Client = { id: `c${nextId++}`, name: String(join.name ?? 'Student').slice(0, MAX_NAME_LENGTH), deliver: onMessage };
+      let open = true;
+      const room = rooms.get(join.room);
+
+      const fail = (message: string) => {
+        open = false;
+        onMessage({ type: 'error', message });
+      };
+
+      if (join.role === 'host') {
+        if (room) fail('That room code is already in use.');
+        else rooms.set(join.room, { host: client, students: new Map() });
+      } else if (!room) {
+        fail('No class with that room code.');
+      } else if (room.students.size >= MAX_STUDENTS) {
+        fail('This class is full.');
+      } else {
+        room.students.set(client.id, client);
+        room.host.deliver({ type: 'joined', from: client.id, name: client.name });
+      }
+      if (open) onMessage({ type: 'welcome', id: client.id });
+
+      return {
+        send: (msg) => {
+          const current = rooms.get(join.room);
+          if (!open || !current) return;
+          if (join.role === 'student') {
+            if (msg.type === 'answer') current.host.deliver({ ...msg, from: client.id });
+            return;
+          }
+          const to = 'to' in msg ? msg.to : undefined;
+          current.students.forEach(s => { if (!to || s.id === to) s.deliver(msg); });
+        },
+        close: () => {
+          if (!open) return;
+          open = false;
+          const current = rooms.get(join.room);
+          if (!current) return;
+          if (join.role === 'host') {
+            rooms.delete(join.room);
+            current.students.forEach(s => s.deliver({ type: 'end' }));
+          } else {
+            current.students.delete(client.id);
+            current.host.deliver({ type: 'left', from: client.id });
+          }
+        }
+      };
+    }
+  };
+};
+
+// Answers come from student devices through the relay as-is, so the host checks their shape.
+export const isValidAnswer = (answer: unknown, vocabulary: Direction[], slots: number): answer is Direction[] =>
+  Array.isArray(answer) && answer.length === slots && answer.every(dir => vocabulary.includes(dir));
+
+export const isAnswerCorrect = (answer: Direction[] | undefined, expected: Direction[]): boolean =>
+  !!answer && answer.length === expected.length && answer.every((dir, idx) => dir === expected[idx]);
+
+// How many students picked each Direction, per command slot of the step.
+export const answerDistribution = (answers: Direction[][], slots: number): Partial<Record<Direction, number>>[] =>
+  Array.from({ length: slots }, (_, idx) => {
+    const counts: Partial<Record<Direction, number>> = {};
+    answers.forEach(answer => {
+      const dir = answer[idx];
+      if (dir) counts[dir] = (counts[dir] ?? 0) + 1;
+    });
+    return counts;
+  });
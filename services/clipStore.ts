@@ -0,0 +1,105 @@
+// Teacher-recorded clips, one per Direction, kept in IndexedDB so they survive reloads and can be
+// shared between classroom devices as a single JSON file.
+
+import { Direction } from '../types';
+
+export type CustomClips = Partial<Record<Direction, Blob>>;
+
+export const CLIP_FILE_VERSION = 1;
+
+const DB_NAME = 'direction-detective';
+const STORE = 'clips';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).finally(() => db.close());
+};
+
+export const loadClips = async (): Promise<CustomClips> => {
+  if (typeof indexedDB === 'undefined') return {};
+  try {
+    const db = await openDb();
+    return await new Promise<CustomClips>((resolve, reject) => {
+      const clips: CustomClips = {};
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve(clips);
+        if (Object.values(Direction).includes(cursor.key as Direction)) clips[cursor.key as Direction] = cursor.value;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }).finally(() => db.close());
+  } catch (err) {
+    console.warn('Could not read recorded clips', err);
+    return {};
+  }
+};
+
+export const saveClip = (direction: Direction, clip: Blob) => withStore('readwrite', store => store.put(clip, direction));
+
+export const deleteClip = (direction: Direction) => withStore('readwrite', store => store.delete(direction));
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const serializeClips = async (clips: CustomClips): Promise<string> => {
+  const encoded: Partial<Record<Direction, string>> = {};
+  for (const [dir, blob] of Object.entries(clips) as [Direction, Blob][]) encoded[dir] = await blobToDataUrl(blob);
+  return JSON.stringify({ version: CLIP_FILE_VERSION, clips: encoded });
+};
+
+export const parseClipFile = async (text: string): Promise<CustomClips> => {
+  const data = JSON.parse(text);
+  if (!data || typeof data.clips !== 'object') throw new Error('Not a voice clip file.');
+  if (data.version > CLIP_FILE_VERSION) throw new Error(`Clip file version ${data.version} is newer than this app supports.`);
+  const clips: CustomClips = {};
+  for (const [dir, url] of Object.entries(data.clips)) {
+    if (!Object.values(Direction).includes(dir as Direction) || typeof url !== 'string' || !url.startsWith('data:audio/')) {
+      throw new Error(`Invalid clip for ${dir}.`);
+    }
+    clips[dir as Direction] = await (await fetch(url)).blob();
+  }
+  return clips;
+};
+
+// 16-bit mono WAV of `buffer` between `start` and `end` seconds, used to store trimmed recordings.
+export const encodeWav = (buffer: AudioBuffer, start = 0, end = buffer.duration): Blob => {
+  const rate = buffer.sampleRate;
+  const from = Math.max(0, Math.floor(start * rate));
+  const to = Math.min(buffer.length, Math.ceil(end * rate));
+  const samples = buffer.getChannelData(0).subarray(from, to);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const text = (offset: number, value: string) => [...value].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((s, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true));
+  return new Blob([view], { type: 'audio/wav' });
+};
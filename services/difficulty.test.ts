@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { LEVEL_CONFIGS } from '../constants';
+import { createProfile } from './profileStore';
+import { difficultyFor, levelConfigFor, recordRunResult, weakDirectionWeights } from './difficulty';
+
+const settings = () => ({ hideReplayAtHighTiers: false, lives: 1, minimapGoal: false, memoryStyle: 'span' as const, distractors: false });
+
+const withStats = (stats: Partial<Record<Direction, { attempts: number; correct: number }>>) => {
+  const profile = createProfile('Aki', '🦊');
+  for (const [dir, s] of Object.entries(stats)) profile.directions[dir as Direction] = { ...s!, confusions: {} };
+  return profile;
+};
+
+const runs = (results: [clean: boolean, failed: boolean][]) =>
+  results.reduce((profile, [clean, failed]) => recordRunResult(profile, clean, failed), createProfile('Aki', '🦊'));
+
+describe('levelConfigFor', () => {
+  it('returns the fixed levels as they are', () => {
+    LEVEL_CONFIGS.forEach(config => expect(levelConfigFor(config.id)).toBe(config));
+  });
+
+  it('adds a command per step every two levels past the fixed ones, up to six', () => {
+    const last = LEVEL_CONFIGS[LEVEL_CONFIGS.length - 1];
+    expect(levelConfigFor(last.id + 1)).toEqual({ id: last.id + 1, commandCountPerStep: last.commandCountPerStep + 1, totalSteps: last.totalSteps, vocabulary: 'full' });
+    expect(levelConfigFor(last.id + 2).commandCountPerStep).toBe(last.commandCountPerStep + 1);
+    expect(levelConfigFor(last.id + 3).commandCountPerStep).toBe(last.commandCountPerStep + 2);
+    expect(levelConfigFor(100).commandCountPerStep).toBe(6);
+  });
+});
+
+describe('recordRunResult', () => {
+  it('lengthens steps after two clean runs in a row, up to two extra commands', () => {
+    expect(runs([[true, false]]).adaptive).toEqual({ cleanStreak: 1, extraCommands: 0 });
+    expect(runs([[true, false], [true, false]]).adaptive).toEqual({ cleanStreak: 0, extraCommands: 1 });
+    expect(runs(Array(8).fill([true, false])).adaptive).toEqual({ cleanStreak: 0, extraCommands: 2 });
+  });
+
+  it('breaks the streak on a messy run and takes a command back on a failed one', () => {
+    expect(runs([[true, false], [false, false], [true, false]]).adaptive).toEqual({ cleanStreak: 1, extraCommands: 0 });
+    expect(runs([[true, false], [true, false], [false, true]]).adaptive).toEqual({ cleanStreak: 0, extraCommands: 0 });
+    expect(runs([[false, true]]).adaptive).toEqual({ cleanStreak: 0, extraCommands: 0 });
+  });
+});
+
+describe('weakDirectionWeights', () => {
+  it('weights directions below 80% once they have been tried three times', () => {
+    const profile = withStats({
+      [Direction.LEFT]: { attempts: 4, correct: 1 },
+      [Direction.RIGHT]: { attempts: 10, correct: 9 },
+      [Direction.STRAIGHT]: { attempts: 2, correct: 0 },
+      [Direction.TURN_AROUND]: { attempts: 5, correct: 3 }
+    });
+    expect(weakDirectionWeights(profile)).toEqual({ [Direction.LEFT]: 3, [Direction.TURN_AROUND]: 2 });
+  });
+});
+
+describe('difficultyFor', () => {
+  it('plays the plain level without a profile', () => {
+    expect(difficultyFor(2, null, settings())).toMatchObject({ config: levelConfigFor(2), weights: {}, adapted: false });
+  });
+
+  it('adapts to the profile and says so', () => {
+    const profile = { ...withStats({ [Direction.LEFT]: { attempts: 4, correct: 1 } }), adaptive: { cleanStreak: 0, extraCommands: 1 } };
+    const difficulty = difficultyFor(2, profile, settings());
+    expect(difficulty.config.commandCountPerStep).toBe(3);
+    expect(difficulty.weights).toEqual({ [Direction.LEFT]: 3 });
+    expect(difficulty.adapted).toBe(true);
+  });
+
+  it('slows the voice down for students below 60% overall', () => {
+    const profile = withStats({ [Direction.LEFT]: { attempts: 10, correct: 5 } });
+    expect(difficultyFor(1, profile, settings()).pacing).toEqual({ gapScale: 1.5, rateScale: 0.85 });
+  });
+
+  it('hides replay at high levels only when the teacher asks', () => {
+    expect(difficultyFor(8, null, settings()).allowReplay).toBe(true);
+    expect(difficultyFor(8, null, { ...settings(), hideReplayAtHighTiers: true }).allowReplay).toBe(false);
+    expect(difficultyFor(7, null, { ...settings(), hideReplayAtHighTiers: true }).allowReplay).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+// Difficulty model: the fixed LEVEL_CONFIGS lead into generated levels that keep getting harder,
+// and a student's profile nudges each level toward what they need to practise.
+
+import { Direction, LevelConfig, MemoryStyle } from '../types';
+import { LEVEL_CONFIGS } from '../constants';
+import { StudentProfile, accuracy } from './profileStore';
+
+export interface Pacing {
+  gapScale: number; // multiplies the pause between commands
+  rateScale: number; // multiplies the speech rate
+}
+
+export interface Difficulty {
+  config: LevelConfig;
+  weights: Partial<Record<Direction, number>>;
+  pacing: Pacing;
+  allowReplay: boolean;
+  adapted: boolean; // the profile changed the route, so a level code would not reproduce it
+}
+
+export interface DifficultySettings {
+  hideReplayAtHighTiers: boolean;
+  lives: number; // 1 means the classic "one wrong move restarts the level"
+  minimapGoal: boolean; // show the goal on the student's minimap
+  memoryStyle: MemoryStyle; // how memory challenges are played
+  distractors: boolean; // say an unrelated sentence between memory challenge commands
+}
+
+export const HIDE_REPLAY_FROM_LEVEL = 8;
+export const LIVES_CHOICES = [1, 2, 3, 5];
+export const MAX_COMMANDS_PER_STEP = 6;
+const MAX_EXTRA_COMMANDS = 2;
+const CLEAN_RUNS_TO_LENGTHEN = 2;
+
+const lastFixed = LEVEL_CONFIGS[LEVEL_CONFIGS.length - 1];
+
+// Levels past the fixed list add a command per step every two levels.
+export const levelConfigFor = (level: number): LevelConfig => {
+  const fixed = LEVEL_CONFIGS.find(c => c.id === level);
+  if (fixed) return fixed;
+  const beyond = Math.max(1, level - lastFixed.id);
+  return {
+    id: level,
+    commandCountPerStep: Math.min(MAX_COMMANDS_PER_STEP, lastFixed.commandCountPerStep + Math.ceil(beyond / 2)),
+    totalSteps: lastFixed.totalSteps,
+    vocabulary: 'full'
+  };
+};
+
+export const NORMAL_PACING: Pacing = { gapScale: 1, rateScale: 1 };
+// The first hint replays the step at this pace.
+export const HINT_PACING: Pacing = { gapScale: 2, rateScale: 0.7 };
+
+// Directions answered correctly less than 80% of the time are drawn more often.
+export const weakDirectionWeights = (profile: StudentProfile): Partial<Record<Direction, number>> => {
+  const weights: Partial<Record<Direction, number>> = {};
+  for (const [dir, stats] of Object.entries(profile.directions) as [Direction, StudentProfile['directions'][Direction]][]) {
+    const acc = accuracy(stats);
+    if (acc !== null && stats!.attempts >= 3 && acc < 0.8) weights[dir] = Math.round((1 - acc) * 4);
+  }
+  return weights;
+};
+
+const overallAccuracy = (profile: StudentProfile): number | null => {
+  const all = Object.values(profile.directions);
+  const attempts = all.reduce((sum, s) => sum + s!.attempts, 0);
+  return attempts >= 10 ? all.reduce((sum, s) => sum + s!.correct, 0) / attempts : null;
+};
+
+export const difficultyFor = (level: number, profile: StudentProfile | null, settings: DifficultySettings): Difficulty => {
+  const base = levelConfigFor(level);
+  const tier = Math.max(0, level - 3);
+  let pacing: Pacing = { gapScale: Math.max(0.5, 1 - tier * 0.1), rateScale: Math.min(1.25, 1 + tier * 0.05) };
+  const allowReplay = !(settings.hideReplayAtHighTiers && level >= HIDE_REPLAY_FROM_LEVEL);
+  if (!profile) return { config: base, weights: {}, pacing, allowReplay, adapted: false };
+
+  const acc = overallAccuracy(profile);
+  if (acc !== null && acc < 0.6) pacing = { gapScale: pacing.gapScale * 1.5, rateScale: pacing.rateScale * 0.85 };
+
+  const extra = profile.adaptive?.extraCommands ?? 0;
+  const config = { ...base, commandCountPerStep: Math.min(MAX_COMMANDS_PER_STEP, base.commandCountPerStep + extra) };
+  const weights = weakDirectionWeights(profile);
+  return {
+    config,
+    weights,
+    pacing,
+    allowReplay,
+    adapted: config.commandCountPerStep !== base.commandCountPerStep || Object.keys(weights).length > 0
+  };
+};
+
+// A clean run (no mistakes, no replays) counts toward longer steps; a failed run takes one back.
+export const recordRunResult = (profile: StudentProfile, clean: boolean, failed: boolean): StudentProfile => {
+  const { cleanStreak, extraCommands } = profile.adaptive ?? { cleanStreak: 0, extraCommands: 0 };
+  if (failed) return { ...profile, adaptive: { cleanStreak: 0, extraCommands: Math.max(0, extraCommands - 1) } };
+  if (!clean) return { ...profile, adaptive: { cleanStreak: 0, extraCommands } };
+  const streak = cleanStreak + 1;
+  return streak >= CLEAN_RUNS_TO_LENGTHEN
+    ? { ...profile, adaptive: { cleanStreak: 0, extraCommands: Math.min(MAX_EXTRA_COMMANDS, extraCommands + 1) } }
+    : { ...profile, adaptive: { cleanStreak: streak, extraCommands } };
+};
+
+const SETTINGS_KEY = 'direction-detective.difficulty';
+const DEFAULT_SETTINGS: DifficultySettings = { hideReplayAtHighTiers: false, lives: 1, minimapGoal: false, memoryStyle: 'span', distractors: false };
+
+export const loadDifficultySettings = (): DifficultySettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveDifficultySettings = (settings: DifficultySettings) =>
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
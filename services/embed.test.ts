@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readEmbedConfig } from './embed';
+
+describe('readEmbedConfig', () => {
+  it('is off without embed=1', () => {
+    expect(readEmbedConfig('?level=2', 'https://lms.example.com/course')).toBeNull();
+  });
+
+  it('reads the level settings and drops invalid ones', () => {
+    const config = readEmbedConfig('?embed=1&level=3&seed=-1&vocab=compass&lang=fr&origin=https://lms.example.com', '');
+    expect(config).toMatchObject({ level: 3, vocabulary: 'compass', hostOrigin: 'https://lms.example.com' });
+    expect(config).not.toHaveProperty('seed');
+    expect(config).not.toHaveProperty('locale');
+  });
+
+  it('talks to the page that framed the game unless told otherwise', () => {
+    expect(readEmbedConfig('?embed=1', 'https://lms.example.com/course/7?x=1')?.hostOrigin).toBe('https://lms.example.com');
+    expect(readEmbedConfig('?embed=1&origin=https://school.example.org/', 'https://lms.example.com/')?.hostOrigin).toBe('https://school.example.org');
+  });
+
+  it('never falls back to any origin', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(readEmbedConfig('?embed=1', '')?.hostOrigin).toBeNull();
+    expect(readEmbedConfig('?embed=1&origin=*', 'https://lms.example.com/')?.hostOrigin).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
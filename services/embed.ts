@@ -0,0 +1,108 @@
+// Embed mode for learning platforms that put the game in an iframe (`?embed=1`).
+// The host page sets up the level with URL params or a `configure` message, and hears about
+// each level through postMessage events and, with an LRS configured, xAPI statements.
+
+import { Direction, VocabularySet } from '../types';
+import { Locale } from './i18n';
+import { LrsConfig, XapiActor } from './xapi';
+
+export const EMBED_SOURCE = 'direction-detective'; // set on every message the game posts
+
+export interface EmbedSettings {
+  level?: number;
+  seed?: number;
+  vocabulary?: VocabularySet;
+  locale?: Locale;
+}
+
+export interface EmbedConfig extends EmbedSettings {
+  hostOrigin: string | null; // where events are posted and configure messages accepted from; null talks to no one
+  lrs?: LrsConfig;
+}
+
+interface LevelRef {
+  levelKey: string;
+  label: string;
+}
+
+// Steps and moves are counted from 1.
+export type EmbedEvent =
+  | { type: 'ready' }
+  | LevelRef & { type: 'level-started'; level: number; seed: number; totalSteps: number }
+  | LevelRef & { type: 'step-completed'; step: number; totalSteps: number }
+  | LevelRef & { type: 'move-wrong'; step: number; move: number; expected: Direction; given: Direction; livesLeft: number }
+  | LevelRef & { type: 'level-completed'; outcome: 'success' | 'fail'; score?: number; stars?: number; mistakes: number; durationMs: number };
+
+const VOCABULARIES: VocabularySet[] = ['basic', 'extended', 'full', 'compass'];
+const LOCALES: Locale[] = ['en', 'ja'];
+
+// Anything invalid is dropped rather than rejected, so a typo in one field keeps the rest.
+const readSettings = (raw: Record<string, unknown>): EmbedSettings => {
+  const settings: EmbedSettings = {};
+  const level = Number(raw.level);
+  if (Number.isInteger(level) && level >= 1) settings.level = level;
+  const seed = Number(raw.seed);
+  if (raw.seed !== undefined && raw.seed !== null && Number.isInteger(seed) && seed >= 0) settings.seed = seed;
+  if (VOCABULARIES.includes(raw.vocabulary as VocabularySet)) settings.vocabulary = raw.vocabulary as VocabularySet;
+  if (LOCALES.includes(raw.locale as Locale)) settings.locale = raw.locale as Locale;
+  return settings;
+};
+
+const readActor = (json: string | null): XapiActor | undefined => {
+  if (!json) return undefined;
+  try {
+    const actor = JSON.parse(json);
+    return actor && typeof actor === 'object' ? actor : undefined;
+  } catch {
+    console.warn('Ignoring an xAPI actor that is not valid JSON');
+    return undefined;
+  }
+};
+
+const originOf = (url: string | null | undefined): string | null => {
+  if (!url) return null;
+  try {
+    const { origin } = new URL(url);
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+};
+
+// Events carry student names, so they only go to a known host: the `origin` param, or else the
+// page that framed the game. Without either, the game plays on but posts and accepts nothing.
+export const readEmbedConfig = (search: string, referrer = document.referrer): EmbedConfig | null => {
+  const params = new URLSearchParams(search);
+  if (params.get('embed') !== '1') return null;
+  const endpoint = params.get('endpoint');
+  const hostOrigin = params.has('origin') ? originOf(params.get('origin')) : originOf(referrer);
+  if (!hostOrigin) console.warn('Embedded without a known host origin; add ?origin= to exchange messages with the host page');
+  return {
+    ...readSettings({ level: params.get('level') ?? undefined, seed: params.get('seed') ?? undefined, vocabulary: params.get('vocab'), locale: params.get('lang') }),
+    hostOrigin,
+    lrs: endpoint
+      ? {
+        endpoint: endpoint.endsWith('/') ? endpoint : `${endpoint}/`,
+        auth: params.get('auth') ?? undefined,
+        actor: readActor(params.get('actor')),
+        registration: params.get('registration') ?? undefined
+      }
+      : undefined
+  };
+};
+
+export const postToHost = (config: EmbedConfig, event: EmbedEvent) => {
+  if (window.parent === window || !config.hostOrigin) return;
+  window.parent.postMessage({ source: EMBED_SOURCE, ...event }, config.hostOrigin);
+};
+
+// Listens for `{ type: 'configure', level?, seed?, vocabulary?, locale? }` from the host page.
+export const listenToHost = (config: EmbedConfig, onConfigure: (settings: EmbedSettings) => void): (() => void) => {
+  const handler = (e: MessageEvent) => {
+    if (e.source !== window.parent || !config.hostOrigin || e.origin !== config.hostOrigin) return;
+    if (!e.data || typeof e.data !== 'object' || e.data.type !== 'configure') return;
+    onConfigure(readSettings(e.data));
+  };
+  window.addEventListener('message', handler);
+  return () => window.removeEventListener('message', handler);
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Direction, GameLevel, GameStatus } from '../types';
+import { GRID_SIZE } from '../constants';
+import { buildAuthoredLevel, buildLevel, evaluateProgram, gameReducer, initialGameState, simulate } from './gameEngine';
+import { createTown } from './townModel';
+import { levelConfigFor } from './difficulty';
+
+const { STRAIGHT, STRAIGHT_TWO, LEFT, RIGHT, TURN_AROUND } = Direction;
+
+const authored = (steps: Direction[][]): GameLevel => ({ id: 'test', title: 'Test', steps, town: { seed: 1 } });
+const levelOf = (steps: Direction[][]) => buildAuthoredLevel(authored(steps), createTown(1));
+
+describe('turn accumulation', () => {
+  it('keeps adding up turns instead of wrapping the rotation', () => {
+    const state = simulate(levelOf([[LEFT, LEFT, LEFT, LEFT, LEFT]]), [LEFT, LEFT, LEFT, LEFT, LEFT]);
+    expect(state.playerPos.rotation).toBe(450);
+  });
+
+  it('turns right and around by the expected angles', () => {
+    const state = simulate(levelOf([[RIGHT, TURN_AROUND]]), [RIGHT, TURN_AROUND]);
+    expect(state.playerPos.rotation).toBe(90);
+  });
+
+  it('walks in the direction the player faces after turning', () => {
+    const state = simulate(levelOf([[LEFT, STRAIGHT]]), [LEFT, STRAIGHT]);
+    expect(state.playerPos).toEqual({ x: -GRID_SIZE, z: 0, rotation: 90 });
+  });
+});
+
+describe('step boundaries', () => {
+  const level = levelOf([[STRAIGHT, LEFT], [STRAIGHT], [RIGHT, STRAIGHT]]);
+
+  it('moves on to the next step only when the current one is complete', () => {
+    const partway = simulate(level, [STRAIGHT]);
+    expect(partway.currentStep).toBe(0);
+    expect(partway.movesMadeInStep).toBe(1);
+
+    const nextStep = simulate(level, [STRAIGHT, LEFT]);
+    expect(nextStep.currentStep).toBe(1);
+    expect(nextStep.movesMadeInStep).toBe(0);
+    expect(nextStep.commandsForCurrentStep).toEqual([STRAIGHT]);
+  });
+
+  it('ignores moves while the step is still being read out', () => {
+    let state = gameReducer(initialGameState, { type: 'LOAD_LEVEL', level });
+    state = gameReducer(state, { type: 'START_STEP', step: 0 });
+    const listening = gameReducer(state, { type: 'MOVE', direction: STRAIGHT });
+    expect(listening).toBe(state);
+  });
+
+  it('does not complete the level before the last step', () => {
+    const state = simulate(level, [STRAIGHT, LEFT]);
+    expect(gameReducer(state, { type: 'COMPLETE_LEVEL' }).status).toBe(GameStatus.MOVING);
+  });
+});
+
+describe('fail cases', () => {
+  const level = levelOf([[STRAIGHT, LEFT], [RIGHT]]);
+
+  it('fails the level on the first wrong move with one life', () => {
+    const state = simulate(level, [STRAIGHT, RIGHT, RIGHT]);
+    expect(state.status).toBe(GameStatus.FAIL);
+    expect(state.mistakes).toEqual([{ step: 0, index: 1, expected: LEFT, given: RIGHT }]);
+    expect(state.playerPos).toEqual({ x: 0, z: -GRID_SIZE, rotation: 0 });
+  });
+
+  it('restarts the step from its checkpoint while lives are left', () => {
+    let state = gameReducer(initialGameState, { type: 'LOAD_LEVEL', level, lives: 2 });
+    state = gameReducer(state, { type: 'START_STEP', step: 0 });
+    state = gameReducer(state, { type: 'FINISH_LISTENING' });
+    state = gameReducer(state, { type: 'MOVE', direction: STRAIGHT });
+    state = gameReducer(state, { type: 'MOVE', direction: RIGHT });
+    expect(state.status).toBe(GameStatus.MISTAKE);
+    expect(state.livesLeft).toBe(1);
+
+    state = gameReducer(state, { type: 'START_STEP', step: 0 });
+    expect(state.playerPos).toEqual(level.start);
+    expect(state.movesMadeInStep).toBe(0);
+  });
+
+  it('ignores moves after the level has failed', () => {
+    const failed = simulate(level, [RIGHT]);
+    expect(gameReducer(failed, { type: 'MOVE', direction: STRAIGHT })).toBe(failed);
+  });
+});
+
+describe('final target position', () => {
+  it('ends an authored level on its finish', () => {
+    const level = levelOf([[STRAIGHT, RIGHT], [STRAIGHT, LEFT, STRAIGHT]]);
+    const state = simulate(level, level.path);
+    expect(state.status).toBe(GameStatus.SUCCESS);
+    expect(state.playerPos).toEqual(level.finish);
+    expect(state.playerPos).toEqual({ x: GRID_SIZE, z: -2 * GRID_SIZE, rotation: 0 });
+  });
+
+  it('ends generated levels on their finish', () => {
+    for (const seed of [1, 42, 1234]) {
+      for (const lvl of [1, 3, 5]) {
+        const level = buildLevel(levelConfigFor(lvl), createTown(seed));
+        const state = simulate(level, level.path);
+        expect(state.status).toBe(GameStatus.SUCCESS);
+        expect(state.playerPos).toEqual(level.finish);
+      }
+    }
+  });
+});
+
+describe('evaluateProgram', () => {
+  const level = buildAuthoredLevel(authored([[STRAIGHT, STRAIGHT]]), { ...createTown(1), closedStreets: new Set<string>() });
+
+  it('accepts a program that reaches the finish', () => {
+    const result = evaluateProgram(level, [STRAIGHT, RIGHT, LEFT, STRAIGHT]);
+    expect(result.success).toBe(true);
+    expect(result.wrongTurnAt).toBeNull();
+  });
+
+  it('flags the wrong turn rather than the drive after it', () => {
+    expect(evaluateProgram(level, [LEFT, STRAIGHT]).wrongTurnAt).toBe(0);
+    expect(evaluateProgram(level, [STRAIGHT, LEFT, LEFT, STRAIGHT]).wrongTurnAt).toBe(1);
+  });
+
+  it('flags a drive that overshoots the finish', () => {
+    expect(evaluateProgram(level, [STRAIGHT, STRAIGHT, STRAIGHT_TWO]).wrongTurnAt).toBe(2);
+  });
+});
@@ -0,0 +1,391 @@
+// Headless game rules. The UI drives this reducer; `simulate` runs a whole level without a browser.
+
+import { Direction, GameLevel, GameStatus, LevelConfig, MemoryStyle, Position, VocabularySet } from '../types';
+import { CARDINAL_DIRECTIONS, DIRECTION_BLOCKS, DIRECTION_PHRASES, DIRECTION_TURNS, GRID_SIZE, VOCABULARY_SETS } from '../constants';
+import { TownModel, applyMove, generateRoute, goalLotFor, headingOf, headingVector, isStreetOpen, lotCenter, streetDistances, toGridPoint, traceRoute } from './townModel';
+
+import { addLandmarks } from './landmarks';
+import { createRng, deriveSeed } from './random';
+
+export { applyMove, traceRoute };
+
+export interface EngineLevel {
+  config: LevelConfig;
+  title?: string;
+  goalLabel?: string;
+  town: TownModel;
+  phrases?: string[]; // spoken instead of DIRECTION_PHRASES, one per command in `path`
+  vocabulary: Direction[];
+  path: Direction[];
+  steps: Direction[][];
+  start: Position;
+  finish: Position;
+  target: { x: number; z: number };
+}
+
+export interface Mistake {
+  step: number;
+  index: number;
+  expected: Direction;
+  given: Direction;
+}
+
+export interface GameState {
+  status: GameStatus;
+  level: EngineLevel | null;
+  currentStep: number;
+  commandsForCurrentStep: Direction[];
+  movesMadeInStep: number;
+  playerPos: Position;
+  mistakes: Mistake[];
+  lives: number;
+  livesLeft: number;
+  stepStartPos: Position; // checkpoint a step restarts from after a mistake
+  hintLevel: number; // hints shown for the current step, up to MAX_HINT_LEVEL
+  hintsUsed: number;
+}
+
+export type GameAction =
+  | { type: 'LOAD_LEVEL'; level: EngineLevel; lives?: number }
+  | { type: 'START_STEP'; step: number }
+  | { type: 'FINISH_LISTENING' }
+  | { type: 'MOVE'; direction: Direction }
+  | { type: 'USE_HINT' }
+  | { type: 'COMPLETE_LEVEL' };
+
+// 1: replay the step slower, 2: show the first word, 3: show the arrow.
+export const MAX_HINT_LEVEL = 3;
+
+const ORIGIN: Position = { x: 0, z: 0, rotation: 0 };
+
+export const initialGameState: GameState = {
+  status: GameStatus.START,
+  level: null,
+  currentStep: 0,
+  commandsForCurrentStep: [],
+  movesMadeInStep: 0,
+  playerPos: ORIGIN,
+  mistakes: [],
+  lives: 1,
+  livesLeft: 1,
+  stepStartPos: ORIGIN,
+  hintLevel: 0,
+  hintsUsed: 0
+};
+
+const chunk = (path: Direction[], size: number): Direction[][] => {
+  const steps: Direction[][] = [];
+  for (let i = 0; i < path.length; i += size) steps.push(path.slice(i, i + size));
+  return steps;
+};
+
+// Span challenges start at MIN_SPAN commands and add one per step, like a digit-span test.
+export const MIN_SPAN = 2;
+export const MAX_SPAN = 9;
+
+const spanChunks = (path: Direction[]): Direction[][] => {
+  const steps: Direction[][] = [];
+  for (let i = 0, size = MIN_SPAN; i < path.length; i += size, size++) steps.push(path.slice(i, i + size));
+  return steps;
+};
+
+// A whole-route challenge is a little longer than one of the level's steps.
+const memoryRouteLength = (config: LevelConfig, style: MemoryStyle): number =>
+  style === 'span' ? ((MIN_SPAN + MAX_SPAN) * (MAX_SPAN - MIN_SPAN + 1)) / 2 : Math.min(MAX_SPAN, config.commandCountPerStep + 3);
+
+// The smallest vocabulary set that covers every command in the path.
+export const vocabularyFor = (path: Direction[]): VocabularySet => {
+  const sets: VocabularySet[] = ['basic', 'extended', 'full', 'compass'];
+  return sets.find(set => path.every(dir => VOCABULARY_SETS[set].includes(dir))) ?? 'full';
+};
+
+export interface BuildOptions {
+  landmarks?: boolean;
+  compass?: boolean;
+  weights?: Partial<Record<Direction, number>>;
+  memory?: MemoryStyle;
+}
+
+export const buildLevel = (config: LevelConfig, town: TownModel, options: BuildOptions = {}): EngineLevel => {
+  const moveCount = options.memory ? memoryRouteLength(config, options.memory) : config.totalSteps * config.commandCountPerStep;
+  const toSteps = (path: Direction[]) =>
+    options.memory === 'span' ? spanChunks(path) : options.memory === 'route' ? [path] : chunk(path, config.commandCountPerStep);
+
+  if (options.landmarks) {
+    // Landmark directions use the basic turns plus a closing "The ... is on your left/right."
+    const route = generateRoute(town, town.seed, moveCount - 1, VOCABULARY_SETS.basic, options.weights);
+    const named = addLandmarks(town, route, ORIGIN, createRng(deriveSeed(town.seed, 'landmarks')));
+    return {
+      config,
+      goalLabel: named.goalName,
+      town: named.town,
+      phrases: named.phrases,
+      vocabulary: [...VOCABULARY_SETS.basic, Direction.ON_LEFT, Direction.ON_RIGHT],
+      path: named.path,
+      steps: toSteps(named.path),
+      start: ORIGIN,
+      finish: route.end,
+      target: lotCenter(named.goal)
+    };
+  }
+
+  const vocabulary = VOCABULARY_SETS[options.compass ? 'compass' : config.vocabulary ?? 'basic'];
+  const route = generateRoute(town, town.seed, moveCount, vocabulary, options.weights);
+  return {
+    config,
+    town,
+    vocabulary,
+    path: route.path,
+    steps: toSteps(route.path),
+    start: ORIGIN,
+    finish: route.end,
+    target: lotCenter(route.goal)
+  };
+};
+
+// Authored levels are walked from the origin; the goal sits on the side named by the route's
+// "It's on your left/right", or on the right of the final intersection.
+export const buildAuthoredLevel = (level: GameLevel, town: TownModel): EngineLevel => {
+  const path = level.steps.flat();
+  const trace = traceRoute(ORIGIN, path);
+  const finish = trace[trace.length - 1];
+  const side = path.includes(Direction.ON_LEFT) ? 'left' : 'right';
+  return {
+    config: {
+      id: 0,
+      commandCountPerStep: Math.max(1, ...level.steps.map(step => step.length)),
+      totalSteps: level.steps.length
+    },
+    title: level.title,
+    goalLabel: level.goal?.label,
+    town,
+    vocabulary: VOCABULARY_SETS[level.vocabulary ?? vocabularyFor(path)],
+    path,
+    steps: level.steps,
+    start: ORIGIN,
+    finish,
+    target: lotCenter(goalLotFor(town, finish, side))
+  };
+};
+
+export const stepCommands = (level: EngineLevel, step: number): Direction[] => level.steps[step] ?? [];
+
+// The longest step the student has finished; in a memory challenge, their span.
+export const longestCompletedStep = (state: GameState): number => {
+  if (!state.level) return 0;
+  const done = state.status === GameStatus.SUCCESS ? state.level.steps.length : state.currentStep;
+  return Math.max(0, ...state.level.steps.slice(0, done).map(step => step.length));
+};
+
+export const isCompassLevel = (level: EngineLevel): boolean => level.vocabulary.includes(Direction.NORTH);
+
+// The buttons, keys and spoken answers a level accepts.
+export const inputsFor = (level: EngineLevel): Direction[] => (isCompassLevel(level) ? CARDINAL_DIRECTIONS : level.vocabulary);
+
+// Compass answers are checked by the way the player ends up facing, so "Turn left." while facing
+// north is answered with West, and "Go straight." with the way they already face.
+export const isCorrectMove = (pos: Position, expected: Direction, given: Direction): boolean => {
+  if (given === expected) return true;
+  const plainMove = expected === Direction.STRAIGHT || DIRECTION_TURNS[expected] !== undefined || CARDINAL_DIRECTIONS.includes(expected);
+  if (!plainMove || !CARDINAL_DIRECTIONS.includes(given)) return false;
+  return headingOf(applyMove(pos, expected).rotation) === headingOf(applyMove(pos, given).rotation);
+};
+
+// Position in `level.path` of move `index` of `step`.
+export const pathIndex = (level: EngineLevel, step: number, index = 0): number =>
+  level.steps.slice(0, step).reduce((sum, s) => sum + s.length, 0) + index;
+
+export const stepPhrases = (level: EngineLevel, step: number): string[] => {
+  const offset = pathIndex(level, step);
+  return stepCommands(level, step).map((dir, idx) => level.phrases?.[offset + idx] ?? DIRECTION_PHRASES[dir]);
+};
+
+// Every position the player has stood on so far, starting at the level's start.
+export const visitedTrail = (state: GameState): Position[] =>
+  state.level ? traceRoute(state.level.start, state.level.path.slice(0, pathIndex(state.level, state.currentStep, state.movesMadeInStep))) : [];
+
+export interface WrongTurn {
+  at: number; // index into the intended trace where the wrong button was pressed
+  mistake: Mistake;
+  points: Position[]; // a short stub showing where the wrong move would have led
+}
+
+export interface RouteReview {
+  intended: Position[];
+  actual: Position[];
+  wrongTurns: WrongTurn[];
+}
+
+// Wrong moves never move the player, so the student's route is the intended one up to where
+// they stopped, plus a stub for each wrong move.
+export const reviewRoute = (state: GameState): RouteReview | null => {
+  if (!state.level) return null;
+  const intended = traceRoute(state.level.start, state.level.path);
+  const actual = visitedTrail(state);
+  const wrongTurns = state.mistakes.map(mistake => {
+    const at = pathIndex(state.level!, mistake.step, mistake.index);
+    const from = intended[at];
+    const to = applyMove(from, mistake.given);
+    const ahead = headingVector(to.rotation);
+    const moved = to.x !== from.x || to.z !== from.z;
+    const tip = moved ? to : { ...to, x: to.x + ahead.i * GRID_SIZE * 0.5, z: to.z + ahead.j * GRID_SIZE * 0.5 };
+    return { at, mistake, points: [from, tip] };
+  });
+  return { intended, actual, wrongTurns };
+};
+
+export const isStepComplete = (state: GameState): boolean =>
+  state.commandsForCurrentStep.length > 0 && state.movesMadeInStep === state.commandsForCurrentStep.length;
+
+export const isLastStep = (state: GameState): boolean =>
+  !!state.level && state.currentStep + 1 >= state.level.steps.length;
+
+export const hasReachedFinish = (state: GameState): boolean => {
+  if (!state.level) return false;
+  const at = toGridPoint(state.playerPos);
+  const finish = toGridPoint(state.level.finish);
+  return at.i === finish.i && at.j === finish.j;
+};
+
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'LOAD_LEVEL': {
+      const lives = Math.max(1, action.lives ?? 1);
+      return { ...initialGameState, level: action.level, playerPos: action.level.start, stepStartPos: action.level.start, lives, livesLeft: lives };
+    }
+
+    case 'START_STEP': {
+      if (!state.level) return state;
+      const restart = state.status === GameStatus.MISTAKE;
+      const from = restart ? state.stepStartPos : state.playerPos;
+      return {
+        ...state,
+        status: GameStatus.LISTENING,
+        currentStep: action.step,
+        commandsForCurrentStep: stepCommands(state.level, action.step),
+        movesMadeInStep: 0,
+        playerPos: from,
+        stepStartPos: from,
+        hintLevel: restart ? state.hintLevel : 0
+      };
+    }
+
+    case 'FINISH_LISTENING':
+      if (state.status !== GameStatus.LISTENING) return state;
+      return { ...state, status: GameStatus.MOVING };
+
+    case 'MOVE': {
+      if (state.status !== GameStatus.MOVING || isStepComplete(state)) return state;
+      const expected = state.commandsForCurrentStep[state.movesMadeInStep];
+      if (!isCorrectMove(state.playerPos, expected, action.direction)) {
+        const mistake = { step: state.currentStep, index: state.movesMadeInStep, expected, given: action.direction };
+        const livesLeft = state.livesLeft - 1;
+        return {
+          ...state,
+          status: livesLeft > 0 ? GameStatus.MISTAKE : GameStatus.FAIL,
+          mistakes: [...state.mistakes, mistake],
+          livesLeft
+        };
+      }
+      return {
+        ...state,
+        playerPos: applyMove(state.playerPos, expected),
+        movesMadeInStep: state.movesMadeInStep + 1
+      };
+    }
+
+    case 'USE_HINT':
+      if (state.status !== GameStatus.MOVING || state.hintLevel >= MAX_HINT_LEVEL) return state;
+      return { ...state, hintLevel: state.hintLevel + 1, hintsUsed: state.hintsUsed + 1 };
+
+    case 'COMPLETE_LEVEL':
+      if (!isStepComplete(state) || !isLastStep(state)) return state;
+      return { ...state, status: GameStatus.SUCCESS };
+
+    default:
+      return state;
+  }
+};
+
+// Plays a level with the given inputs, listening to each step instantly and advancing as the UI would.
+export const simulate = (level: EngineLevel, inputs: Direction[]): GameState => {
+  let state = gameReducer(initialGameState, { type: 'LOAD_LEVEL', level });
+  state = gameReducer(state, { type: 'START_STEP', step: 0 });
+  state = gameReducer(state, { type: 'FINISH_LISTENING' });
+
+  for (const direction of inputs) {
+    if (state.status !== GameStatus.MOVING) break;
+    state = gameReducer(state, { type: 'MOVE', direction });
+    if (!isStepComplete(state)) continue;
+    if (isLastStep(state)) {
+      state = gameReducer(state, { type: 'COMPLETE_LEVEL' });
+    } else {
+      state = gameReducer(state, { type: 'START_STEP', step: state.currentStep + 1 });
+      state = gameReducer(state, { type: 'FINISH_LISTENING' });
+    }
+  }
+  return state;
+};
+
+export interface ProgramResult {
+  trace: Position[]; // where the player actually went, stopping in front of a closed street
+  blockedAt: number | null; // command that ran into a closed street
+  wrongTurnAt: number | null; // first command that took the player further from the goal, or the turn that set them off that way
+  success: boolean;
+}
+
+// "Give directions" mode: runs a student-built program over the level's town and judges it by
+// whether it ends at the level's finish intersection.
+export const evaluateProgram = (level: EngineLevel, program: Direction[]): ProgramResult => {
+  const distances = streetDistances(level.town, toGridPoint(level.finish));
+  const distanceAt = (pos: Position) => {
+    const p = toGridPoint(pos);
+    return distances.get(`${p.i},${p.j}`) ?? Infinity;
+  };
+
+  const trace = [level.start];
+  let blockedAt: number | null = null;
+  let wrongTurnAt: number | null = null;
+  let pendingTurn: number | null = null; // first turn since the player last moved
+
+  for (const [idx, dir] of program.entries()) {
+    const from = trace[trace.length - 1];
+    let pos = applyMove(from, dir);
+    const blocks = DIRECTION_BLOCKS[dir] ?? 0;
+    if (blocks > 0) {
+      // Drive block by block so a closed street stops the player where it is.
+      let at = { ...from, rotation: pos.rotation };
+      for (let b = 0; b < blocks; b++) {
+        const next = applyMove(at, Direction.STRAIGHT);
+        if (!isStreetOpen(level.town, toGridPoint(at), toGridPoint(next))) {
+          blockedAt = idx;
+          break;
+        }
+        at = next;
+      }
+      pos = at;
+    }
+    trace.push(pos);
+    if (blockedAt !== null) break;
+    if (pos.x === from.x && pos.z === from.z) {
+      if (pos.rotation !== from.rotation && pendingTurn === null) pendingTurn = idx;
+      continue;
+    }
+    if (wrongTurnAt === null && distanceAt(pos) > distanceAt(from)) {
+      // Heading away from the very first block means the turn before the drive was the mistake;
+      // otherwise the drive itself went too far.
+      const firstBlock = applyMove({ ...from, rotation: pos.rotation }, Direction.STRAIGHT);
+      wrongTurnAt = pendingTurn !== null && distanceAt(firstBlock) > distanceAt(from) ? pendingTurn : idx;
+    }
+    pendingTurn = null;
+  }
+
+  const end = toGridPoint(trace[trace.length - 1]);
+  const finish = toGridPoint(level.finish);
+  return {
+    trace,
+    blockedAt,
+    wrongTurnAt,
+    success: blockedAt === null && end.i === finish.i && end.j === finish.j
+  };
+};
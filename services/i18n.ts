@@ -0,0 +1,328 @@
+// UI message catalogue. Only the game's chrome is translated; the directions themselves are the
+// English being practised and always stay in English.
+//
+// Messages use two kinds of markup: `{漢字|かんじ}` attaches furigana to kanji, and `{name}` is a
+// placeholder filled in by the caller (see components/Msg.tsx).
+
+import { Direction } from '../types';
+
+export type Locale = 'en' | 'ja';
+
+export interface LanguageSettings {
+  locale: Locale;
+  furigana: boolean;
+  hints: boolean; // show the Japanese meaning of the directions after a mistake
+}
+
+const en = {
+  level: 'Level {n}',
+  stepOf: 'Step {n} / {total}',
+  moves: '{n} moves',
+  guest: 'Guest',
+  myProgress: 'My progress',
+  pickStudent: 'Pick a student',
+  listenAgain: 'Listen Again',
+  speak: 'Speak',
+  speakingMode: 'Speaking mode',
+  speechUnavailable: 'Speech recognition is not available on this device',
+  useButtons: 'Use the buttons.',
+  sayTurns: 'Say "Turn left", "Go straight"…',
+  sayCompass: 'Say "North", "East"…',
+  buildingTown: 'Building Town...',
+  ready: 'READY?',
+  landmarkPrompt: '"Where is the {goal}?" Listen and find it!',
+  listenPrompt: 'Listen to the directions and find the {goal}!',
+  landmarkMode: 'Landmark Mode',
+  compassMode: 'Compass Mode',
+  memoryMode: 'Memory Challenge',
+  rememberAll: 'Remember them all, then move!',
+  memorySpan: 'You remembered {n} directions in a row!',
+  on: 'ON',
+  off: 'OFF',
+  giveDirections: 'Give Directions',
+  projector: 'Projector',
+  joinClass: 'Join Class',
+  lesson: 'Lesson',
+  levelCode: 'Level Code',
+  madeForYou: 'This level was made just for you, so it has no code.',
+  start: 'START!',
+  load: 'Load',
+  listen: 'Listen...',
+  amazing: 'AMAZING!',
+  foundIt: 'You found the {goal}!',
+  nextLevel: 'NEXT LEVEL',
+  ohNo: 'OH NO!',
+  tryAgain: 'Try one more time!',
+  retry: 'RETRY',
+  instructions: 'Instructions',
+  help1: '1. Listen to the voice.',
+  help2: '2. Use Arrows or Buttons to move.',
+  help3: '3. Reach the {goal}!',
+  gotIt: 'GOT IT!',
+  language: 'Language',
+  furigana: 'Furigana',
+  japaneseHints: 'Japanese hints',
+  done: 'DONE',
+  hintTitle: 'What did you hear?',
+  youPressed: 'You pressed',
+  shouldBe: 'The answer',
+  notQuite: 'Not quite!',
+  tryStep: 'TRY THIS STEP AGAIN',
+  livesLeft: 'Lives left',
+  hint: 'Hint',
+  newBest: 'New high score!',
+  levelMap: 'Levels',
+  minimap: 'Map',
+  reviewRoute: 'Review my route',
+  watchReplay: 'Watch the replay',
+  cameraFirst: 'My eyes',
+  cameraShoulder: 'Behind me',
+  cameraOverhead: 'From above',
+  whoIsPlaying: 'Who is playing?',
+  newStudent: 'New',
+  yourName: 'Your name',
+  letsGo: "LET'S GO!",
+  playAsGuest: 'Play as guest',
+  howToGetTo: 'How do you get to the {goal}?',
+  gotThere: 'You got there!',
+  cardBlocked: 'Card {n} runs into a closed street.',
+  cardWrongWay: 'Card {n} goes the wrong way.',
+  notThereYet: 'Not there yet. Add more cards!',
+  tapCards: 'Tap the cards below…',
+  next: 'NEXT',
+  go: 'GO!',
+  room: 'ROOM',
+  join: 'JOIN',
+  lookAtScreen: 'Look at the big screen!',
+  waitingForTeacher: 'Waiting for your teacher…',
+  send: 'SEND',
+  sent: 'Sent!',
+  watchForAnswer: 'Watch the big screen for the answer.',
+  correct: 'Correct!',
+  score: 'Score: {n}',
+  classOver: 'Class is over!',
+  yourScore: 'Your score: {n}',
+  ok: 'OK',
+  directions: 'Directions',
+  playToSeeResults: 'Play a level to see your results here.',
+  confusedWith: 'confused with {direction} {percent}%',
+  timePerStep: 'Time per step',
+  memorySpanLabel: 'Memory span',
+  switchStudent: 'SWITCH',
+  resetProgress: 'Reset all progress for {name}?',
+  dirStraight: 'Straight',
+  dirLeft: 'Turn Left',
+  dirRight: 'Turn Right',
+  dirStraightTwo: '2 Blocks',
+  dirStraightThree: '3 Blocks',
+  dirTurnAround: 'Turn Around',
+  dirStop: 'Stop',
+  dirOnLeft: 'On Left',
+  dirOnRight: 'On Right',
+  dirNorth: 'North',
+  dirEast: 'East',
+  dirSouth: 'South',
+  dirWest: 'West',
+  routeReview: 'Route Review',
+  theDirections: 'The directions',
+  yourRoute: 'Your route',
+  noWrongTurns: 'No wrong turns!',
+  stepN: 'Step {n}',
+  firstWrongTurn: 'first wrong turn',
+  replay: 'Replay'
+};
+
+export type MessageKey = keyof typeof en;
+
+const ja: Record<MessageKey, string> = {
+  level: 'レベル {n}',
+  stepOf: 'ステップ {n} / {total}',
+  moves: '{n}かい うごく',
+  guest: 'ゲスト',
+  myProgress: 'わたしの きろく',
+  pickStudent: 'なまえを えらぶ',
+  listenAgain: 'もういちど',
+  speak: 'はなす',
+  speakingMode: 'はなして うごく',
+  speechUnavailable: 'この きかいでは {音声|おんせい}にんしきが つかえません',
+  useButtons: 'ボタンを つかってね。',
+  sayTurns: '「Turn left」「Go straight」と いってみよう…',
+  sayCompass: '「North」「East」と いってみよう…',
+  buildingTown: '{町|まち}を つくっているよ…',
+  ready: 'じゅんびは いい？',
+  landmarkPrompt: '「Where is the {goal}?」 よく きいて さがそう！',
+  landmarkMode: 'たてものモード',
+  compassMode: 'コンパスモード',
+  memoryMode: 'きおく チャレンジ',
+  rememberAll: 'ぜんぶ おぼえてから うごこう！',
+  memorySpan: '{n}こ つづけて おぼえられたね！',
+  listenPrompt: 'みちあんないを よく きいて {goal}を さがそう！',
+  on: 'オン',
+  off: 'オフ',
+  giveDirections: 'みちを おしえる',
+  projector: 'プロジェクター',
+  joinClass: 'クラスに さんか',
+  lesson: 'レッスン',
+  levelCode: 'レベルコード',
+  madeForYou: 'あなただけの レベルなので コードは ありません。',
+  start: 'スタート！',
+  load: 'よみこむ',
+  listen: 'きいてね…',
+  amazing: 'すごい！',
+  foundIt: '{goal}を みつけたね！',
+  nextLevel: 'つぎの レベル',
+  ohNo: 'ざんねん！',
+  tryAgain: 'もう いちど やってみよう！',
+  retry: 'もう いちど',
+  instructions: 'あそびかた',
+  help1: '1. {声|こえ}を よく きこう。',
+  help2: '2. やじるしキーか ボタンで うごこう。',
+  help3: '3. {goal}まで いこう！',
+  gotIt: 'わかった！',
+  language: 'ことば',
+  furigana: 'ふりがな',
+  japaneseHints: '{日本語|にほんご}の ヒント',
+  done: 'OK',
+  hintTitle: 'なんて いったかな？',
+  youPressed: 'おしたボタン',
+  shouldBe: 'こたえ',
+  notQuite: 'おしい！',
+  tryStep: 'この ステップを もう いちど',
+  livesLeft: 'のこりの ハート',
+  hint: 'ヒント',
+  newBest: 'ハイスコア こうしん！',
+  levelMap: 'レベル いちらん',
+  minimap: 'ちず',
+  reviewRoute: 'みちを ふりかえる',
+  watchReplay: 'リプレイを みる',
+  cameraFirst: 'じぶんの め',
+  cameraShoulder: 'うしろから',
+  cameraOverhead: 'うえから',
+  whoIsPlaying: 'だれが あそぶ？',
+  newStudent: 'あたらしく',
+  yourName: 'なまえ',
+  letsGo: 'はじめよう！',
+  playAsGuest: 'ゲストで あそぶ',
+  howToGetTo: '{goal}まで どう いく？',
+  gotThere: 'ついたね！',
+  cardBlocked: '{n}まいめの カードで とおれない みちに ぶつかるよ。',
+  cardWrongWay: '{n}まいめの カードで ちがう ほうへ いっちゃうよ。',
+  notThereYet: 'まだ つかないよ。カードを たそう！',
+  tapCards: 'したの カードを タップしてね…',
+  next: 'つぎへ',
+  go: 'しゅっぱつ！',
+  room: 'ルーム',
+  join: 'さんか',
+  lookAtScreen: 'おおきな がめんを みてね！',
+  waitingForTeacher: '{先生|せんせい}を まっているよ…',
+  send: 'おくる',
+  sent: 'おくったよ！',
+  watchForAnswer: 'こたえは おおきな がめんで みてね。',
+  correct: 'せいかい！',
+  score: 'とくてん: {n}',
+  classOver: 'おしまい！',
+  yourScore: 'あなたの とくてん: {n}',
+  ok: 'OK',
+  directions: 'みちあんない',
+  playToSeeResults: 'レベルを あそぶと ここに けっかが でるよ。',
+  confusedWith: '{direction}と まちがえた {percent}%',
+  timePerStep: '1ステップの じかん',
+  memorySpanLabel: 'おぼえた かず',
+  switchStudent: 'こうたい',
+  resetProgress: '{name}の きろくを ぜんぶ けしますか？',
+  dirStraight: 'まっすぐ',
+  dirLeft: '{左|ひだり}へ',
+  dirRight: '{右|みぎ}へ',
+  dirStraightTwo: '2ブロック',
+  dirStraightThree: '3ブロック',
+  dirTurnAround: 'うしろを むく',
+  dirStop: '{止|と}まる',
+  dirOnLeft: '{左|ひだり}がわ',
+  dirOnRight: '{右|みぎ}がわ',
+  dirNorth: '{北|きた}',
+  dirEast: '{東|ひがし}',
+  dirSouth: '{南|みなみ}',
+  dirWest: '{西|にし}',
+  routeReview: 'みちの ふりかえり',
+  theDirections: 'みちあんない',
+  yourRoute: 'あなたの みち',
+  noWrongTurns: 'まちがいなし！',
+  stepN: 'ステップ {n}',
+  firstWrongTurn: 'さいしょの まちがい',
+  replay: 'もういちど みる'
+};
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, ja };
+
+// What each spoken direction means, shown as a hint after a mistake.
+// The short name of each direction, as shown on buttons and in feedback.
+export const DIRECTION_LABEL_KEYS: Record<Direction, MessageKey> = {
+  [Direction.STRAIGHT]: 'dirStraight',
+  [Direction.LEFT]: 'dirLeft',
+  [Direction.RIGHT]: 'dirRight',
+  [Direction.STRAIGHT_TWO]: 'dirStraightTwo',
+  [Direction.STRAIGHT_THREE]: 'dirStraightThree',
+  [Direction.TURN_AROUND]: 'dirTurnAround',
+  [Direction.STOP]: 'dirStop',
+  [Direction.ON_LEFT]: 'dirOnLeft',
+  [Direction.ON_RIGHT]: 'dirOnRight',
+  [Direction.NORTH]: 'dirNorth',
+  [Direction.EAST]: 'dirEast',
+  [Direction.SOUTH]: 'dirSouth',
+  [Direction.WEST]: 'dirWest'
+};
+
+export const DIRECTION_MEANINGS_JA: Record<Direction, string> = {
+  [Direction.STRAIGHT]: 'まっすぐ {進|すす}んで。',
+  [Direction.LEFT]: '{左|ひだり}に {曲|ま}がって。',
+  [Direction.RIGHT]: '{右|みぎ}に {曲|ま}がって。',
+  [Direction.STRAIGHT_TWO]: 'まっすぐ 2ブロック {進|すす}んで。',
+  [Direction.STRAIGHT_THREE]: 'まっすぐ 3ブロック {進|すす}んで。',
+  [Direction.TURN_AROUND]: 'ぐるっと {後|うし}ろを {向|む}いて。',
+  [Direction.STOP]: '{止|と}まって。',
+  [Direction.ON_LEFT]: '{左|ひだり}がわに あるよ。',
+  [Direction.ON_RIGHT]: '{右|みぎ}がわに あるよ。',
+  [Direction.NORTH]: '{北|きた}へ {進|すす}んで。',
+  [Direction.EAST]: '{東|ひがし}へ {進|すす}んで。',
+  [Direction.SOUTH]: '{南|みなみ}へ {進|すす}んで。',
+  [Direction.WEST]: '{西|にし}へ {進|すす}んで。'
+};
+
+export type MessagePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'ruby'; base: string; reading: string }
+  | { kind: 'var'; name: string };
+
+export const parseMessage = (message: string): MessagePart[] =>
+  message.split(/(\{[^}]+\})/).filter(Boolean).map(part => {
+    const match = /^\{([^}|]+)(?:\|([^}]+))?\}$/.exec(part);
+    if (!match) return { kind: 'text', text: part };
+    return match[2] ? { kind: 'ruby', base: match[1], reading: match[2] } : { kind: 'var', name: match[1] };
+  });
+
+// Plain-text form for attributes such as title and placeholder.
+export const plainMessage = (message: string, vars: Record<string, string | number> = {}): string =>
+  parseMessage(message).map(part =>
+    part.kind === 'text' ? part.text : part.kind === 'ruby' ? part.base : String(vars[part.name] ?? '')
+  ).join('');
+
+const LANGUAGE_KEY = 'direction-detective.language';
+
+export const DEFAULT_LANGUAGE: LanguageSettings = {
+  locale: typeof navigator !== 'undefined' && navigator.language.startsWith('ja') ? 'ja' : 'en',
+  furigana: true,
+  hints: true
+};
+
+export const loadLanguageSettings = (): LanguageSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LANGUAGE_KEY) ?? 'null');
+    if (parsed && parsed.locale in MESSAGES) return { ...DEFAULT_LANGUAGE, ...parsed };
+  } catch {
+    // fall through to the default
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+export const saveLanguageSettings = (settings: LanguageSettings) =>
+  localStorage.setItem(LANGUAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,104 @@
+// Landmark mode: names buildings along a generated route so the directions can refer to them
+// ("Go straight to the park. Turn right at the station. The hospital is on your left.").
+
+import { Direction, Position } from '../types';
+import { Lot, LotKind, Route, TownModel, applyMove, goalLotFor } from './townModel';
+import { Rng, randomInt } from './random';
+
+export interface Landmark {
+  name: string;
+  kind: LotKind;
+}
+
+// Goals are always one of the big public buildings; shops and parks only mark turns.
+export const GOAL_LANDMARKS: Landmark[] = [
+  { name: 'station', kind: 'station' },
+  { name: 'school', kind: 'school' },
+  { name: 'hospital', kind: 'hospital' },
+  { name: 'post office', kind: 'postOffice' },
+  { name: 'library', kind: 'library' }
+];
+
+const TURN_LANDMARKS: Landmark[] = [
+  ...GOAL_LANDMARKS,
+  { name: 'park', kind: 'park' },
+  { name: 'bookstore', kind: 'store' },
+  { name: 'bakery', kind: 'store' },
+  { name: 'flower shop', kind: 'store' },
+  { name: 'supermarket', kind: 'store' },
+  { name: 'toy shop', kind: 'store' },
+  { name: 'café', kind: 'store' }
+];
+
+export interface LandmarkRoute {
+  town: TownModel;
+  path: Direction[];
+  phrases: string[];
+  goal: Lot;
+  goalName: string;
+}
+
+const lotKey = (lot: { i: number; j: number }) => `${lot.i},${lot.j}`;
+
+const shuffled = <T>(rng: Rng, items: T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+const turnWord = (dir: Direction) => (dir === Direction.LEFT ? 'left' : 'right');
+
+// Places a unique landmark at the corner of every turn and a named goal building, then writes a
+// phrase for each command. The route gains a final "on your left/right" command naming the goal.
+export const addLandmarks = (town: TownModel, route: Route, start: Position, rng: Rng): LandmarkRoute => {
+  const named = new Map<string, Lot>();
+  const pool = shuffled(rng, TURN_LANDMARKS);
+
+  const goalLandmark = GOAL_LANDMARKS[randomInt(rng, GOAL_LANDMARKS.length)];
+  const goal: Lot = { ...route.goal, kind: goalLandmark.kind, label: goalLandmark.name };
+  named.set(lotKey(goal), goal);
+  const available = pool.filter(l => l.name !== goalLandmark.name);
+
+  // Name the corner on the turning side of each intersection where the route turns.
+  const turnLandmarks: (Lot | null)[] = [];
+  let pos = start;
+  for (const dir of route.path) {
+    let landmark: Lot | null = null;
+    if (dir === Direction.LEFT || dir === Direction.RIGHT) {
+      const corner = goalLotFor(town, pos, turnWord(dir));
+      landmark = named.get(lotKey(corner)) ?? null;
+      if (!landmark && available.length > 0) {
+        const next = available.shift()!;
+        landmark = { ...corner, kind: next.kind, label: next.name };
+        named.set(lotKey(corner), landmark);
+      }
+    }
+    turnLandmarks.push(landmark);
+    pos = applyMove(pos, dir);
+  }
+
+  const phrases = route.path.map((dir, idx) => {
+    if (dir === Direction.STRAIGHT) {
+      const nextTurn = turnLandmarks[idx + 1];
+      return nextTurn ? `Go straight to the ${nextTurn.label}.` : 'Go straight.';
+    }
+    const landmark = turnLandmarks[idx];
+    const cameStraight = route.path[idx - 1] === Direction.STRAIGHT;
+    return landmark && !cameStraight ? `Turn ${turnWord(dir)} at the ${landmark.label}.` : `Turn ${turnWord(dir)}.`;
+  });
+
+  const sideCommand = route.goalSide === 'left' ? Direction.ON_LEFT : Direction.ON_RIGHT;
+  phrases.push(`The ${goalLandmark.name} is on your ${route.goalSide}.`);
+
+  const lots = town.lots.map(lot => named.get(lotKey(lot)) ?? lot);
+  return {
+    town: { ...town, lots },
+    path: [...route.path, sideCommand],
+    phrases,
+    goal,
+    goalName: goalLandmark.name
+  };
+};
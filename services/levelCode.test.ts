@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { decodeLevelCode, encodeLevelCode } from './levelCode';
+
+describe('level codes', () => {
+  it('round-trips the level, seed and mode', () => {
+    for (const code of [
+      { level: 2, seed: 1234, landmarks: false, compass: false, memory: undefined },
+      { level: 5, seed: 0, landmarks: true, compass: false, memory: undefined },
+      { level: 12, seed: 98765, landmarks: false, compass: true, memory: undefined }
+    ]) {
+      expect(decodeLevelCode(encodeLevelCode(code))).toEqual(code);
+    }
+  });
+
+  it('keeps the memory style so the shared route is the same', () => {
+    expect(encodeLevelCode({ level: 3, seed: 42, memory: 'span' })).toBe('L3-223C-S');
+    expect(decodeLevelCode('l3-223c-r')).toMatchObject({ level: 3, seed: 42, memory: 'route' });
+    expect(decodeLevelCode('L3-223C')?.memory).toBeUndefined();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(decodeLevelCode('L3-222')).toBeNull();
+    expect(decodeLevelCode('L3-2220')).toBeNull();
+    expect(decodeLevelCode('L3-223C-X')).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+// Short, classroom-friendly level codes such as "L2-7QX4".
+// The letters encode the seed; ambiguous characters (0/O, 1/I) are left out so codes can be read aloud.
+// Landmark ("Where is the...?") levels start with W instead of L, and compass levels with C.
+// Memory challenges end in -R (whole route) or -S (growing span), since the style changes the route.
+
+import { MemoryStyle } from '../types';
+
+const ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+export const SEED_SPACE = ALPHABET.length ** CODE_LENGTH;
+
+export interface LevelCode {
+  level: number;
+  seed: number;
+  landmarks?: boolean;
+  compass?: boolean;
+  memory?: MemoryStyle;
+}
+
+const MEMORY_SUFFIXES: Record<MemoryStyle, string> = { route: 'R', span: 'S' };
+
+export const randomSeed = (): number => Math.floor(Math.random() * SEED_SPACE);
+
+export const encodeLevelCode = ({ level, seed, landmarks, compass, memory }: LevelCode): string => {
+  let n = ((seed % SEED_SPACE) + SEED_SPACE) % SEED_SPACE;
+  let chars = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    chars = ALPHABET[n % ALPHABET.length] + chars;
+    n = Math.floor(n / ALPHABET.length);
+  }
+  return `${landmarks ? 'W' : compass ? 'C' : 'L'}${level}-${chars}${memory ? `-${MEMORY_SUFFIXES[memory]}` : ''}`;
+};
+
+export const decodeLevelCode = (code: string): LevelCode | null => {
+  const match = /^([LWC])(\d+)-([0-9A-Z]+)(?:-([RS]))?$/.exec(code.trim().toUpperCase());
+  if (!match || match[3].length !== CODE_LENGTH) return null;
+
+  let seed = 0;
+  for (const ch of match[3]) {
+    const idx = ALPHABET.indexOf(ch);
+    if (idx < 0) return null;
+    seed = seed * ALPHABET.length + idx;
+  }
+  const memory = (Object.keys(MEMORY_SUFFIXES) as MemoryStyle[]).find(style => MEMORY_SUFFIXES[style] === match[4]);
+  return { level: parseInt(match[2], 10), seed, landmarks: match[1] === 'W', compass: match[1] === 'C', memory };
+};
+
+export const readLevelCodeFromUrl = (): LevelCode | null => {
+  const param = new URLSearchParams(window.location.search).get('code');
+  return param ? decodeLevelCode(param) : null;
+};
+
+export const writeLevelCodeToUrl = (code: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('code', code);
+  window.history.replaceState(null, '', url.toString());
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { parseLevelFile, serializeLevelFile, validateLevel } from './levelFiles';
+
+const level = { id: 'lvl-1', title: 'Park', steps: [[Direction.STRAIGHT, Direction.LEFT]] };
+
+describe('validateLevel', () => {
+  it('keeps a known vocabulary set', () => {
+    expect(validateLevel({ ...level, vocabulary: 'extended' }).vocabulary).toBe('extended');
+  });
+
+  it('drops vocabularies that are only inherited object keys', () => {
+    expect(validateLevel({ ...level, vocabulary: 'toString' }).vocabulary).toBeUndefined();
+    expect(validateLevel({ ...level, vocabulary: '__proto__' }).vocabulary).toBeUndefined();
+  });
+
+  it('rejects steps with unknown directions', () => {
+    expect(() => validateLevel({ ...level, steps: [['FLY']] })).toThrow('invalid step');
+  });
+});
+
+describe('parseLevelFile', () => {
+  it('reads back a saved file', () => {
+    const text = serializeLevelFile([level], { title: 'Lesson', levelIds: [level.id] });
+    expect(parseLevelFile(text)).toEqual({ version: 1, levels: [level], playlist: { title: 'Lesson', levelIds: [level.id] } });
+  });
+
+  it('accepts a bare level', () => {
+    expect(parseLevelFile(JSON.stringify(level)).levels).toEqual([level]);
+  });
+
+  it('rejects files without levels', () => {
+    expect(() => parseLevelFile('[]')).toThrow('does not contain any levels');
+    expect(() => parseLevelFile('{')).toThrow('not valid JSON');
+  });
+});
@@ -0,0 +1,82 @@
+// JSON file format for teacher-authored levels and lesson playlists.
+
+import { Direction, GameLevel, LessonPlaylist, VocabularySet } from '../types';
+import { VOCABULARY_SETS } from '../constants';
+import { TownModel, createTown, toGridPoint, withStreetsOpen } from './townModel';
+import { traceRoute } from './gameEngine';
+
+export const LEVEL_FILE_VERSION = 1;
+
+export interface LevelFile {
+  version: number;
+  levels: GameLevel[];
+  playlist?: LessonPlaylist;
+}
+
+const DIRECTIONS = Object.values(Direction) as string[];
+
+export const isDirection = (value: unknown): value is Direction => typeof value === 'string' && DIRECTIONS.includes(value);
+
+export const isVocabularySet = (value: unknown): value is VocabularySet => typeof value === 'string' && Object.hasOwn(VOCABULARY_SETS, value);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStep = (value: unknown): value is Direction[] => Array.isArray(value) && value.length > 0 && value.every(isDirection);
+
+export const validateLevel = (raw: unknown): GameLevel => {
+  if (!isRecord(raw)) throw new Error('Level must be an object');
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error('Level is missing an id');
+  if (typeof raw.title !== 'string') throw new Error(`Level "${raw.id}" is missing a title`);
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) throw new Error(`Level "${raw.title}" has no steps`);
+  const steps: unknown[] = raw.steps;
+  if (!steps.every(isStep)) throw new Error(`Level "${raw.title}" has an invalid step`);
+
+  const level: GameLevel = { id: raw.id, title: raw.title, steps };
+  if (isRecord(raw.town) && typeof raw.town.seed === 'number' && Number.isFinite(raw.town.seed)) level.town = { seed: raw.town.seed };
+  if (isRecord(raw.goal) && typeof raw.goal.label === 'string') level.goal = { label: raw.goal.label };
+  if (isVocabularySet(raw.vocabulary)) level.vocabulary = raw.vocabulary;
+  return level;
+};
+
+export const parseLevelFile = (text: string): LevelFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  // A bare level is accepted as well as a full file.
+  if (isRecord(raw) && Array.isArray(raw.steps)) return { version: LEVEL_FILE_VERSION, levels: [validateLevel(raw)] };
+  if (!isRecord(raw) || !Array.isArray(raw.levels)) throw new Error('The file does not contain any levels');
+
+  const file: LevelFile = { version: LEVEL_FILE_VERSION, levels: raw.levels.map(validateLevel) };
+  if (isRecord(raw.playlist) && Array.isArray(raw.playlist.levelIds)) {
+    const levelIds: unknown[] = raw.playlist.levelIds;
+    file.playlist = {
+      title: String(raw.playlist.title ?? ''),
+      levelIds: levelIds.filter((id): id is string => typeof id === 'string')
+    };
+  }
+  return file;
+};
+
+export const serializeLevelFile = (levels: GameLevel[], playlist?: LessonPlaylist): string =>
+  JSON.stringify({ version: LEVEL_FILE_VERSION, levels, playlist } satisfies LevelFile, null, 2);
+
+export const downloadTextFile = (filename: string, text: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// The seeded town with every street on the authored route opened up.
+export const authoredTown = (level: GameLevel): TownModel => {
+  const walk = traceRoute({ x: 0, z: 0, rotation: 0 }, level.steps.flat()).map(toGridPoint);
+  return withStreetsOpen(createTown(level.town?.seed ?? 0), walk);
+};
+
+export const newLevelId = (): string => `lvl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Direction } from '../types';
+import { loadLevels, loadPlaylist } from './levelStore';
+
+const stored = new Map<string, string>();
+
+beforeEach(() => {
+  stored.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key)
+  });
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('loadLevels', () => {
+  it('keeps the valid levels', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    stored.set('direction-detective.levels', JSON.stringify([{ id: 'a', title: 'A', steps: [[Direction.LEFT]] }, { id: 'b' }]));
+    expect(loadLevels().map(l => l.id)).toEqual(['a']);
+  });
+
+  it('falls back to no levels when the stored value is not a list', () => {
+    for (const value of ['7', 'null', '{"id":"a"}', 'not json']) {
+      stored.set('direction-detective.levels', value);
+      expect(loadLevels()).toEqual([]);
+    }
+  });
+});
+
+describe('loadPlaylist', () => {
+  it('falls back to an empty lesson when the stored value is not a playlist', () => {
+    for (const value of ['null', '[]', '3']) {
+      stored.set('direction-detective.playlist', value);
+      expect(loadPlaylist()).toEqual({ title: 'My Lesson', levelIds: [] });
+    }
+  });
+
+  it('keeps only string level ids', () => {
+    stored.set('direction-detective.playlist', JSON.stringify({ title: 'Week 3', levelIds: ['a', 4, null, 'b'] }));
+    expect(loadPlaylist()).toEqual({ title: 'Week 3', levelIds: ['a', 'b'] });
+  });
+});
@@ -0,0 +1,65 @@
+// localStorage persistence for authored levels and the lesson playlist.
+
+import { GameLevel, LessonPlaylist } from '../types';
+import { isRecord, validateLevel } from './levelFiles';
+
+const LEVELS_KEY = 'direction-detective.levels';
+const PLAYLIST_KEY = 'direction-detective.playlist';
+
+const DEFAULT_PLAYLIST: LessonPlaylist = { title: 'My Lesson', levelIds: [] };
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadLevels = (): GameLevel[] => {
+  const stored = readJson(LEVELS_KEY);
+  const levels: GameLevel[] = [];
+  for (const raw of Array.isArray(stored) ? stored : []) {
+    try {
+      levels.push(validateLevel(raw));
+    } catch (err) {
+      console.warn('Skipping invalid stored level', err);
+    }
+  }
+  return levels;
+};
+
+export const saveLevels = (levels: GameLevel[]) => {
+  localStorage.setItem(LEVELS_KEY, JSON.stringify(levels));
+};
+
+// Inserts or replaces by id and returns the new list.
+export const upsertLevel = (level: GameLevel): GameLevel[] => {
+  const levels = loadLevels();
+  const idx = levels.findIndex(l => l.id === level.id);
+  if (idx >= 0) levels[idx] = level; else levels.push(level);
+  saveLevels(levels);
+  return levels;
+};
+
+export const deleteLevel = (id: string): GameLevel[] => {
+  const levels = loadLevels().filter(l => l.id !== id);
+  saveLevels(levels);
+  const playlist = loadPlaylist();
+  savePlaylist({ ...playlist, levelIds: playlist.levelIds.filter(l => l !== id) });
+  return levels;
+};
+
+export const loadPlaylist = (): LessonPlaylist => {
+  const playlist = readJson(PLAYLIST_KEY);
+  if (!isRecord(playlist)) return DEFAULT_PLAYLIST;
+  return {
+    title: String(playlist.title ?? ''),
+    levelIds: Array.isArray(playlist.levelIds) ? playlist.levelIds.filter((id): id is string => typeof id === 'string') : []
+  };
+};
+
+export const savePlaylist = (playlist: LessonPlaylist) => {
+  localStorage.setItem(PLAYLIST_KEY, JSON.stringify(playlist));
+};
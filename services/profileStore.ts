@@ -0,0 +1,139 @@
+// Student profiles for shared classroom tablets, persisted in localStorage.
+// The record* helpers are pure; callers save the profile they return.
+
+import { Direction } from '../types';
+
+export interface DirectionStats {
+  attempts: number;
+  correct: number;
+  confusions: Partial<Record<Direction, number>>; // what was pressed instead, by count
+}
+
+export interface LevelProgress {
+  attempts: number;
+  completions: number;
+  stars?: number; // best star rating, see services/scoring.ts
+}
+
+export interface StudentProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  createdAt: number;
+  unlockedLevel: number;
+  levels: Record<string, LevelProgress>;
+  directions: Partial<Record<Direction, DirectionStats>>;
+  stepTime: { totalMs: number; count: number };
+  replays: number;
+  adaptive?: { cleanStreak: number; extraCommands: number }; // see services/difficulty.ts
+  memorySpan?: number; // most commands remembered in one go in a memory challenge
+}
+
+export const AVATARS = ['🦊', '🐼', '🐸', '🐯', '🐨', '🐧', '🦁', '🐰', '🐻', '🐱', '🐶', '🐙'];
+
+const PROFILES_KEY = 'direction-detective.profiles';
+const ACTIVE_KEY = 'direction-detective.activeProfile';
+
+export const loadProfiles = (): StudentProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveProfiles = (profiles: StudentProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const saveProfile = (profile: StudentProfile) => {
+  const profiles = loadProfiles();
+  const idx = profiles.findIndex(p => p.id === profile.id);
+  if (idx >= 0) profiles[idx] = profile; else profiles.push(profile);
+  saveProfiles(profiles);
+};
+
+export const deleteProfile = (id: string) => {
+  saveProfiles(loadProfiles().filter(p => p.id !== id));
+  if (getActiveProfileId() === id) setActiveProfileId(null);
+};
+
+export const getActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+export const setActiveProfileId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_KEY, id); else localStorage.removeItem(ACTIVE_KEY);
+};
+
+const emptyProgress = () => ({
+  unlockedLevel: 1,
+  levels: {},
+  directions: {},
+  stepTime: { totalMs: 0, count: 0 },
+  replays: 0,
+  adaptive: { cleanStreak: 0, extraCommands: 0 },
+  memorySpan: 0
+});
+
+export const createProfile = (name: string, avatar: string): StudentProfile => ({
+  id: `stu-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+  avatar,
+  createdAt: Date.now(),
+  ...emptyProgress()
+});
+
+export const resetProgress = (profile: StudentProfile): StudentProfile => ({ ...profile, ...emptyProgress() });
+
+export const recordMove = (profile: StudentProfile, expected: Direction, given: Direction): StudentProfile => {
+  const stats = profile.directions[expected] ?? { attempts: 0, correct: 0, confusions: {} };
+  const next: DirectionStats = {
+    attempts: stats.attempts + 1,
+    correct: stats.correct + (expected === given ? 1 : 0),
+    confusions: expected === given ? stats.confusions : { ...stats.confusions, [given]: (stats.confusions[given] ?? 0) + 1 }
+  };
+  return { ...profile, directions: { ...profile.directions, [expected]: next } };
+};
+
+export const recordStepTime = (profile: StudentProfile, ms: number): StudentProfile => ({
+  ...profile,
+  stepTime: { totalMs: profile.stepTime.totalMs + ms, count: profile.stepTime.count + 1 }
+});
+
+export const recordReplay = (profile: StudentProfile): StudentProfile => ({ ...profile, replays: profile.replays + 1 });
+
+export const recordMemorySpan = (profile: StudentProfile, span: number): StudentProfile =>
+  span > (profile.memorySpan ?? 0) ? { ...profile, memorySpan: span } : profile;
+
+export const recordAttempt = (profile: StudentProfile, levelKey: string): StudentProfile => {
+  const progress = profile.levels[levelKey] ?? { attempts: 0, completions: 0 };
+  return { ...profile, levels: { ...profile.levels, [levelKey]: { ...progress, attempts: progress.attempts + 1 } } };
+};
+
+export const recordCompletion = (profile: StudentProfile, levelKey: string, unlocks?: number, stars = 0): StudentProfile => {
+  const progress = profile.levels[levelKey] ?? { attempts: 1, completions: 0 };
+  return {
+    ...profile,
+    unlockedLevel: unlocks ? Math.max(profile.unlockedLevel, unlocks) : profile.unlockedLevel,
+    levels: {
+      ...profile.levels,
+      [levelKey]: { ...progress, completions: progress.completions + 1, stars: Math.max(progress.stars ?? 0, stars) }
+    }
+  };
+};
+
+export const accuracy = (stats?: DirectionStats): number | null =>
+  stats && stats.attempts > 0 ? stats.correct / stats.attempts : null;
+
+// The direction most often pressed instead of `expected`, with its share of all attempts.
+export const topConfusion = (stats?: DirectionStats): { given: Direction; rate: number } | null => {
+  if (!stats || stats.attempts === 0) return null;
+  const entries = Object.entries(stats.confusions) as [Direction, number][];
+  if (entries.length === 0) return null;
+  const [given, count] = entries.sort((a, b) => b[1] - a[1])[0];
+  return { given, rate: count / stats.attempts };
+};
+
+export const averageStepMs = (profile: StudentProfile): number | null =>
+  profile.stepTime.count > 0 ? profile.stepTime.totalMs / profile.stepTime.count : null;
@@ -0,0 +1,29 @@
+// Small seeded PRNG so a level (route + town) can be reproduced from a single number.
+
+export type Rng = () => number;
+
+// mulberry32: fast, 32-bit state, good enough for shuffling a town.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derives an independent stream from a base seed, e.g. one for the route and one for the town.
+export const deriveSeed = (seed: number, salt: string): number => {
+  let h = (seed ^ 0x811c9dc5) >>> 0;
+  for (let i = 0; i < salt.length; i++) {
+    h ^= salt.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+export const randomInt = (rng: Rng, maxExclusive: number): number => Math.floor(rng() * maxExclusive);
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T => items[randomInt(rng, items.length)];
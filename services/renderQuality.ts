@@ -0,0 +1,69 @@
+// Graphics quality for the 3D town. 'auto' starts from a guess about the device and drops to
+// 'low' if the frame rate stays poor (see components/Town.tsx).
+
+export type QualityLevel = 'low' | 'medium' | 'high';
+export type QualitySetting = QualityLevel | 'auto';
+
+export interface QualityProfile {
+  shadows: boolean;
+  shadowMapSize: number;
+  environment: boolean; // image-based lighting and contact shadows
+  drawDistance: number; // in blocks around the player
+  dpr: [number, number];
+  stars: number;
+}
+
+export const QUALITY_PROFILES: Record<QualityLevel, QualityProfile> = {
+  low: { shadows: false, shadowMapSize: 512, environment: false, drawDistance: 6, dpr: [0.75, 1], stars: 0 },
+  medium: { shadows: true, shadowMapSize: 1024, environment: false, drawDistance: 10, dpr: [1, 1.5], stars: 500 },
+  high: { shadows: true, shadowMapSize: 2048, environment: true, drawDistance: 16, dpr: [1, 2], stars: 1000 }
+};
+
+export const QUALITY_SETTINGS: QualitySetting[] = ['auto', 'low', 'medium', 'high'];
+
+interface DeviceMemoryNavigator {
+  deviceMemory?: number; // GiB, Chromium only
+}
+
+// Few cores, little memory or a software renderer mean a classroom Chromebook or an old tablet.
+export const isLowPowerDevice = (): boolean => {
+  if (typeof navigator === 'undefined') return false;
+  const cores = navigator.hardwareConcurrency ?? 8;
+  const memory = (navigator as Navigator & DeviceMemoryNavigator).deviceMemory ?? 8;
+  if (cores <= 4 || memory <= 4) return true;
+  try {
+    const gl = document.createElement('canvas').getContext('webgl');
+    const info = gl?.getExtension('WEBGL_debug_renderer_info');
+    const renderer = info ? String(gl!.getParameter(info.UNMASKED_RENDERER_WEBGL)) : '';
+    return /swiftshader|llvmpipe|mali-[gt]?[1-7]\d\b|adreno \(tm\) [1-5]\d\d/i.test(renderer);
+  } catch {
+    return false;
+  }
+};
+
+export const resolveQuality = (setting: QualitySetting): QualityLevel =>
+  setting === 'auto' ? (isLowPowerDevice() ? 'low' : 'medium') : setting;
+
+const QUALITY_KEY = 'direction-detective.quality';
+
+export const loadQualitySetting = (): QualitySetting => {
+  const stored = localStorage.getItem(QUALITY_KEY) as QualitySetting | null;
+  return stored && QUALITY_SETTINGS.includes(stored) ? stored : 'auto';
+};
+
+export const saveQualitySetting = (setting: QualitySetting) => localStorage.setItem(QUALITY_KEY, setting);
+
+
+// How the town is seen: through the detective's eyes, from just behind them, or from above with north up.
+export type CameraMode = 'first' | 'shoulder' | 'overhead';
+
+export const CAMERA_MODES: CameraMode[] = ['first', 'shoulder', 'overhead'];
+
+const CAMERA_KEY = 'direction-detective.camera';
+
+export const loadCameraMode = (): CameraMode => {
+  const stored = localStorage.getItem(CAMERA_KEY) as CameraMode | null;
+  return stored && CAMERA_MODES.includes(stored) ? stored : 'shoulder';
+};
+
+export const saveCameraMode = (mode: CameraMode) => localStorage.setItem(CAMERA_KEY, mode);
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { scoreRun } from './scoring';
+
+const run = (moveTimesMs: number[], mistakes = 0) => scoreRun({ moveTimesMs, bestStreak: moveTimesMs.length, mistakes, replays: 0, hintsUsed: 0 });
+
+describe('scoreRun', () => {
+  it('gives three stars to a fast, clean run', () => {
+    const result = run([1000, 1200, 900, 1400]);
+    expect(result.speedBonus).toBe(200);
+    expect(result.stars).toBe(3);
+  });
+
+  it('always costs points for a mistake, however fast', () => {
+    const clean = run([1000, 1000, 1000, 1000]);
+    const messy = run([1000, 1000, 1000, 1000], 1);
+    expect(messy.score).toBe(clean.score - 150);
+    expect(messy.stars).toBeLessThan(3);
+  });
+});
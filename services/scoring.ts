@@ -0,0 +1,88 @@
+// Level scores and star ratings, plus a per-device leaderboard persisted in localStorage.
+// Scores come from what App.tsx already tracks for a run: moves, reaction times, mistakes,
+// replays and hints.
+
+export interface RunStats {
+  moveTimesMs: number[]; // from the end of listening (or the previous move) to each correct move
+  bestStreak: number; // longest run of correct moves in a row
+  mistakes: number;
+  replays: number;
+  hintsUsed: number;
+}
+
+export interface ScoreResult {
+  score: number;
+  stars: number; // 1–3
+  base: number;
+  speedBonus: number;
+  streakBonus: number;
+  penalty: number;
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  avatar: string;
+  score: number;
+  stars: number;
+  at: number;
+}
+
+const POINTS_PER_MOVE = 100;
+const MAX_SPEED_BONUS = 50; // for a move made within FAST_MOVE_MS
+const FAST_MOVE_MS = 1500;
+const SLOW_MOVE_MS = 6000; // no speed bonus from here on
+const STREAK_FROM = 3;
+const POINTS_PER_STREAK_MOVE = 25;
+const MISTAKE_PENALTY = 150;
+const REPLAY_PENALTY = 40;
+const HINT_PENALTY = 75;
+const LEADERBOARD_SIZE = 10;
+
+const speedBonusFor = (ms: number) =>
+  Math.round(MAX_SPEED_BONUS * Math.min(1, Math.max(0, (SLOW_MOVE_MS - ms) / (SLOW_MOVE_MS - FAST_MOVE_MS))));
+
+export const scoreRun = (stats: RunStats): ScoreResult => {
+  const moves = stats.moveTimesMs.length;
+  const base = moves * POINTS_PER_MOVE;
+  const speedBonus = stats.moveTimesMs.reduce((sum, ms) => sum + speedBonusFor(ms), 0);
+  const streakBonus = Math.max(0, stats.bestStreak - STREAK_FROM) * POINTS_PER_STREAK_MOVE;
+  const penalty = stats.mistakes * MISTAKE_PENALTY + stats.replays * REPLAY_PENALTY + stats.hintsUsed * HINT_PENALTY;
+  const score = Math.max(0, base + speedBonus + streakBonus - penalty);
+
+  // Three stars need a clean run; the rest is judged against a perfect score for the same moves.
+  const perfect = base + moves * MAX_SPEED_BONUS + Math.max(0, moves - STREAK_FROM) * POINTS_PER_STREAK_MOVE;
+  const ratio = perfect > 0 ? score / perfect : 0;
+  const clean = stats.mistakes === 0 && stats.hintsUsed === 0;
+  const stars = clean && ratio >= 0.75 ? 3 : ratio >= 0.45 ? 2 : 1;
+  return { score, stars, base, speedBonus, streakBonus, penalty };
+};
+
+const LEADERBOARD_KEY = 'direction-detective.leaderboard';
+
+const loadAll = (): Record<string, LeaderboardEntry[]> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const loadLeaderboard = (key: string): LeaderboardEntry[] => loadAll()[key] ?? [];
+
+// Adds an entry and returns the board with the entry's 0-based rank, or -1 if it didn't make it.
+export const addLeaderboardEntry = (key: string, entry: LeaderboardEntry): { entries: LeaderboardEntry[]; rank: number } => {
+  const all = loadAll();
+  const entries = [...(all[key] ?? []), entry]
+    .sort((a, b) => b.score - a.score || a.at - b.at)
+    .slice(0, LEADERBOARD_SIZE);
+  localStorage.setItem(LEADERBOARD_KEY, JSON.stringify({ ...all, [key]: entries }));
+  return { entries, rank: entries.indexOf(entry) };
+};
+
+// Best stars earned on this device for each leaderboard key, used for guests on the level map.
+export const bestStarsByKey = (): Record<string, number> => {
+  const best: Record<string, number> = {};
+  for (const [key, entries] of Object.entries(loadAll())) best[key] = Math.max(0, ...entries.map(e => e.stars));
+  return best;
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecord, sessionsToCsv } from './sessionLog';
+
+const session = (studentName: string): SessionRecord => ({
+  id: 'ses-1',
+  studentId: null,
+  studentName,
+  levelKey: '1',
+  levelLabel: 'Level 1',
+  startedAt: Date.UTC(2026, 0, 5),
+  durationMs: 42000,
+  outcome: 'success',
+  stepReached: 4,
+  totalSteps: 4,
+  mistakes: [],
+  replays: 0
+});
+
+const studentCell = (csv: string) => csv.split('\n')[1].split(',')[1];
+
+describe('sessionsToCsv', () => {
+  it('keeps formulas in student names from running in a spreadsheet', () => {
+    for (const name of ['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', '\tTab']) {
+      expect(studentCell(sessionsToCsv([session(name)]))).toMatch(/^"?'/);
+    }
+  });
+
+  it('leaves ordinary names and numbers alone', () => {
+    const csv = sessionsToCsv([session('Aki')]);
+    expect(studentCell(csv)).toBe('Aki');
+    expect(csv.split('\n')[1].endsWith(',42.0')).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+// Finished play sessions for the teacher dashboard, persisted in localStorage.
+
+import { Mistake } from './gameEngine';
+
+export type SessionOutcome = 'success' | 'fail';
+
+export interface SessionRecord {
+  id: string;
+  studentId: string | null; // null for guests
+  studentName: string;
+  levelKey: string;
+  levelLabel: string;
+  startedAt: number;
+  durationMs: number;
+  outcome: SessionOutcome;
+  stepReached: number; // 1-based step the student was on when the session ended
+  totalSteps: number;
+  mistakes: Mistake[];
+  replays: number;
+  hintsUsed?: number; // missing on sessions recorded before hints existed
+  score?: number; // successful runs only
+  memorySpan?: number; // memory challenges only
+}
+
+const SESSIONS_KEY = 'direction-detective.sessions';
+const PIN_KEY = 'direction-detective.teacherPin';
+const MAX_SESSIONS = 2000;
+
+export const loadSessions = (): SessionRecord[] => {
+  try {
+    const raw = localStorage.getItem(SESSIONS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const appendSession = (session: SessionRecord) => {
+  const sessions = [...loadSessions(), session].slice(-MAX_SESSIONS);
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+export const clearSessions = () => localStorage.removeItem(SESSIONS_KEY);
+
+export const newSessionId = () => `ses-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// The PIN keeps students out of the dashboard on a shared tablet; it is not a security boundary.
+export const getTeacherPin = (): string | null => localStorage.getItem(PIN_KEY);
+export const setTeacherPin = (pin: string) => localStorage.setItem(PIN_KEY, pin);
+export const clearTeacherPin = () => localStorage.removeItem(PIN_KEY);
+
+export const describeMistake = (m: Mistake) => `step ${m.step + 1} move ${m.index + 1}: expected ${m.expected}, given ${m.given}`;
+
+// Text starting with a formula character is prefixed with ' so spreadsheets show it instead of running it.
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionsToCsv = (sessions: SessionRecord[]): string => {
+  const header = ['started', 'student', 'level', 'outcome', 'step_reached', 'total_steps', 'mistake_count', 'mistakes', 'replays', 'hints', 'score', 'memory_span', 'duration_s'];
+  const rows = sessions.map(s => [
+    new Date(s.startedAt).toISOString(),
+    s.studentName,
+    s.levelLabel,
+    s.outcome,
+    s.stepReached,
+    s.totalSteps,
+    s.mistakes.length,
+    s.mistakes.map(describeMistake).join('; '),
+    s.replays,
+    s.hintsUsed ?? 0,
+    s.score ?? '',
+    s.memorySpan ?? '',
+    (s.durationMs / 1000).toFixed(1)
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
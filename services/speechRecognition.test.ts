@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import { CARDINAL_DIRECTIONS, VOCABULARY_SETS } from '../constants';
+import { createScriptedRecognizer, matchAlternatives, matchDirection } from './speechRecognition';
+
+const full = VOCABULARY_SETS.full;
+
+describe('matchDirection', () => {
+  it('understands the basic phrases', () => {
+    expect(matchDirection('Turn left.', full)).toBe(Direction.LEFT);
+    expect(matchDirection('turn right', full)).toBe(Direction.RIGHT);
+    expect(matchDirection('go straight', full)).toBe(Direction.STRAIGHT);
+  });
+
+  it('accepts spellings produced for Japanese-accented English', () => {
+    expect(matchDirection('turn light', full)).toBe(Direction.RIGHT);
+    expect(matchDirection('lefto', full)).toBe(Direction.LEFT);
+    expect(matchDirection('sutoreeto', full)).toBe(Direction.STRAIGHT);
+  });
+
+  it('prefers the most specific direction', () => {
+    expect(matchDirection("it's on your left", full)).toBe(Direction.ON_LEFT);
+    expect(matchDirection('go straight for three blocks', full)).toBe(Direction.STRAIGHT_THREE);
+    expect(matchDirection('turn around', full)).toBe(Direction.TURN_AROUND);
+  });
+
+  it('only answers with directions in the vocabulary', () => {
+    expect(matchDirection('turn around', VOCABULARY_SETS.basic)).toBeNull();
+    expect(matchDirection('hello', full)).toBeNull();
+  });
+
+  it('does not hear moves in everyday words', () => {
+    for (const word of ['night', 'fight', 'light', 'might', 'write', 'lift', 'lest', 'ground']) {
+      expect(matchDirection(word, full)).toBeNull();
+    }
+    expect(matchDirection('turn on the light', full)).toBeNull();
+    expect(matchDirection("it's on your light", full)).toBe(Direction.ON_RIGHT);
+  });
+
+  it('does not answer turns on a compass level', () => {
+    expect(matchDirection('turn left', CARDINAL_DIRECTIONS)).toBeNull();
+    expect(matchDirection('go straight', CARDINAL_DIRECTIONS)).toBeNull();
+    expect(matchDirection('go north', CARDINAL_DIRECTIONS)).toBe(Direction.NORTH);
+  });
+});
+
+describe('scripted recognizer', () => {
+  it('delivers what is said while started, and nothing once stopped', () => {
+    const recognizer = createScriptedRecognizer();
+    const heard: (Direction | null)[] = [];
+    recognizer.start({ onTranscript: (alternatives, isFinal) => { if (isFinal) heard.push(matchAlternatives(alternatives, full)); } });
+    expect(recognizer.isListening()).toBe(true);
+
+    recognizer.say('turn left');
+    recognizer.say('turn right', false);
+    recognizer.stop();
+    recognizer.say('go straight');
+
+    expect(heard).toEqual([Direction.LEFT]);
+    expect(recognizer.isListening()).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+// Speaking mode: turns what the student says into a Direction.
+// The game only talks to the SpeechRecognizer interface, so tests can drive it with a scripted fake.
+
+import { Direction } from '../types';
+
+export interface RecognizerHandlers {
+  onTranscript: (alternatives: string[], isFinal: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+export interface SpeechRecognizer {
+  isSupported: () => boolean;
+  start: (handlers: RecognizerHandlers) => void;
+  stop: () => void;
+}
+
+// Minimal typing for the Web Speech API, which is not part of the TypeScript DOM lib.
+interface WebSpeechAlternative { transcript: string; }
+interface WebSpeechResult { isFinal: boolean; length: number; [index: number]: WebSpeechAlternative; }
+interface WebSpeechEvent { resultIndex: number; results: { length: number; [index: number]: WebSpeechResult }; }
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((e: WebSpeechEvent) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+interface SpeechWindow {
+  SpeechRecognition?: new () => WebSpeechRecognition;
+  webkitSpeechRecognition?: new () => WebSpeechRecognition;
+}
+
+const getRecognitionClass = (): (new () => WebSpeechRecognition) | undefined => {
+  const speechWindow = window as Window & SpeechWindow;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+export const createWebSpeechRecognizer = (lang = 'en-US'): SpeechRecognizer => {
+  let recognition: WebSpeechRecognition | null = null;
+  let active = false;
+
+  return {
+    isSupported: () => !!getRecognitionClass(),
+
+    start: (handlers) => {
+      const Recognition = getRecognitionClass();
+      if (!Recognition) {
+        handlers.onError?.('Speech recognition is not supported in this browser.');
+        return;
+      }
+      recognition?.stop();
+      recognition = new Recognition();
+      recognition.lang = lang;
+      recognition.continuous = true;
+      recognition.interimResults = true;
+      recognition.maxAlternatives = 3;
+      recognition.onresult = (e) => {
+        for (let r = e.resultIndex; r < e.results.length; r++) {
+          const result = e.results[r];
+          const alternatives: string[] = [];
+          for (let a = 0; a < result.length; a++) alternatives.push(result[a].transcript);
+          handlers.onTranscript(alternatives, result.isFinal);
+        }
+      };
+      recognition.onerror = (e) => {
+        if (e.error === 'no-speech' || e.error === 'aborted') return;
+        active = false;
+        handlers.onError?.(e.error === 'not-allowed' ? 'Microphone access was blocked.' : `Speech recognition error: ${e.error}`);
+      };
+      // Browsers end continuous recognition after a pause; keep listening until stopped.
+      recognition.onend = () => {
+        if (active) {
+          try { recognition?.start(); } catch { active = false; }
+        }
+      };
+      active = true;
+      recognition.start();
+    },
+
+    stop: () => {
+      active = false;
+      recognition?.stop();
+      recognition = null;
+    }
+  };
+};
+
+// A recognizer that never touches a microphone: `say` delivers a final transcript to the game.
+export const createScriptedRecognizer = () => {
+  let handlers: RecognizerHandlers | null = null;
+  return {
+    isSupported: () => true,
+    start: (h: RecognizerHandlers) => { handlers = h; },
+    stop: () => { handlers = null; },
+    isListening: () => handlers !== null,
+    say: (text: string, isFinal = true) => handlers?.onTranscript([text], isFinal)
+  };
+};
+
+// Keywords per direction, including spellings recognisers produce for Japanese-accented English
+// (L/R swaps such as "light" for "right", and katakana-style endings such as "lefto").
+const KEYWORDS: Record<'left' | 'right' | 'straight' | 'around' | 'stop' | 'two' | 'three' | 'on' | 'north' | 'east' | 'south' | 'west', string[]> = {
+  left: ['left', 'lefto', 'reft'],
+  right: ['right', 'raito'],
+  straight: ['straight', 'strait', 'straighto', 'sutoreeto', 'forward', 'ahead', 'go'],
+  around: ['around', 'round', 'araundo', 'u-turn', 'uturn'],
+  stop: ['stop', 'stoppu', 'sutoppu', 'halt'],
+  two: ['two', 'to', 'too', '2', 'tsu'],
+  three: ['three', 'tree', 'free', 'suri', '3'],
+  on: ['on', 'your', 'its', "it's"],
+  north: ['north', 'nose', 'noosu'],
+  east: ['east', 'iisuto'],
+  south: ['south', 'sausu', 'mouth'],
+  west: ['west', 'vest', 'uesuto']
+};
+
+// Everyday words a recogniser hears for "left" and "right"; they only count after "turn" or "your".
+const SOUNDALIKES: Partial<Record<keyof typeof KEYWORDS, string[]>> = {
+  left: ['lift', 'laughed'],
+  right: ['light', 'write', 'rite', 'wright', 'ride']
+};
+
+const editDistance = (a: string, b: string): number => {
+  const dp = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = dp[0];
+    dp[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = dp[j];
+      dp[j] = Math.min(dp[j] + 1, dp[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return dp[b.length];
+};
+
+// Only long keywords are matched loosely, and only with the same first letter: one letter off is
+// often another word ("night" for "right", "ground" for "around"). "turn" is one letter away from
+// "uturn", so it is never matched loosely either.
+const mentions = (words: string[], key: keyof typeof KEYWORDS): boolean =>
+  words.some((word, idx) =>
+    KEYWORDS[key].some(k => word === k || (k.length >= 6 && word.length >= 5 && word[0] === k[0] && word !== 'turn' && editDistance(word, k) <= 1)) ||
+    (idx > 0 && ['turn', 'your'].includes(words[idx - 1]) && !!SOUNDALIKES[key]?.includes(word))
+  );
+
+// Matches a (possibly partial) phrase to a direction in the vocabulary, most specific first.
+export const matchDirection = (transcript: string, vocabulary: Direction[]): Direction | null => {
+  const words = transcript.toLowerCase().replace(/[^a-z0-9'\- ]/g, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const allowed = (dir: Direction) => vocabulary.includes(dir);
+  const left = mentions(words, 'left');
+  const right = mentions(words, 'right');
+
+  for (const [key, dir] of [['north', Direction.NORTH], ['east', Direction.EAST], ['south', Direction.SOUTH], ['west', Direction.WEST]] as const) {
+    if (mentions(words, key) && allowed(dir)) return dir;
+  }
+
+  if (mentions(words, 'on') && !words.includes('turn')) {
+    if (left && allowed(Direction.ON_LEFT)) return Direction.ON_LEFT;
+    if (right && allowed(Direction.ON_RIGHT)) return Direction.ON_RIGHT;
+  }
+  if (mentions(words, 'around') && allowed(Direction.TURN_AROUND)) return Direction.TURN_AROUND;
+  if (mentions(words, 'stop') && allowed(Direction.STOP)) return Direction.STOP;
+  if (left && !right) return allowed(Direction.LEFT) ? Direction.LEFT : null;
+  if (right && !left) return allowed(Direction.RIGHT) ? Direction.RIGHT : null;
+  if (mentions(words, 'straight') || words.includes('blocks') || words.includes('block')) {
+    if (mentions(words, 'three') && allowed(Direction.STRAIGHT_THREE)) return Direction.STRAIGHT_THREE;
+    if (mentions(words, 'two') && words.some(w => w.startsWith('block')) && allowed(Direction.STRAIGHT_TWO)) return Direction.STRAIGHT_TWO;
+    return allowed(Direction.STRAIGHT) ? Direction.STRAIGHT : null;
+  }
+  return null;
+};
+
+export const matchAlternatives = (alternatives: string[], vocabulary: Direction[]): Direction | null => {
+  for (const text of alternatives) {
+    const dir = matchDirection(text, vocabulary);
+    if (dir) return dir;
+  }
+  return null;
+};
@@ -0,0 +1,296 @@
+// Shared town model: a grid road graph with some street segments closed off, blocks that hold
+// buildings, and a route generator that only walks along open streets.
+// Intersections sit on multiples of GRID_SIZE; block (i, j) fills the square between
+// intersections (i, j) and (i + 1, j + 1).
+
+import { Direction, Position } from '../types';
+import { CARDINAL_DIRECTIONS, DIRECTION_BLOCKS, DIRECTION_HEADINGS, DIRECTION_TURNS, GRID_SIZE, TURN_ANGLE, VOCABULARY_SETS } from '../constants';
+import { Rng, createRng, deriveSeed, pick, randomInt } from './random';
+
+export type LandmarkKind = 'station' | 'school' | 'hospital' | 'postOffice' | 'library';
+export type LotKind = 'house' | 'store' | 'park' | 'tree' | 'empty' | LandmarkKind;
+
+export const LANDMARK_KINDS: LandmarkKind[] = ['station', 'school', 'hospital', 'postOffice', 'library'];
+
+export interface Lot {
+  i: number;
+  j: number;
+  kind: LotKind;
+  color: string;
+  rotation: number; // in radians
+  label?: string; // shown on the sign of landmarks and named shops
+}
+
+export const isLandmarkKind = (kind: LotKind): kind is LandmarkKind => (LANDMARK_KINDS as LotKind[]).includes(kind);
+
+export interface GridPoint {
+  i: number;
+  j: number;
+}
+
+export interface StreetSegment {
+  from: GridPoint;
+  to: GridPoint;
+}
+
+export interface TownModel {
+  seed: number;
+  range: number;
+  closedStreets: Set<string>;
+  lots: Lot[];
+}
+
+export interface Route {
+  path: Direction[];
+  end: Position;
+  goal: Lot;
+  goalSide: 'left' | 'right';
+}
+
+const TOWN_RANGE = 20;
+const ROUTE_MARGIN = 2;
+const CLOSED_STREET_CHANCE = 0.18;
+const BUILDING_COLORS = ["#fbbf24", "#60a5fa", "#f87171", "#a78bfa", "#34d399", "#fb923c"];
+
+// Unit steps for each heading, in grid units. Heading 0 faces -z, and LEFT adds TURN_ANGLE.
+const HEADING_VECTORS: GridPoint[] = [
+  { i: 0, j: -1 },
+  { i: -1, j: 0 },
+  { i: 0, j: 1 },
+  { i: 1, j: 0 }
+];
+
+export const headingOf = (rotation: number): number => {
+  const steps = Math.round(rotation / TURN_ANGLE);
+  return ((steps % 4) + 4) % 4;
+};
+
+export const headingVector = (rotation: number): GridPoint => HEADING_VECTORS[headingOf(rotation)];
+
+// The smallest turn, in degrees, from one rotation to another. Rotations grow without bound as
+// the player keeps turning, so 450 to 0 is a 90 degree right turn, not a spin. Half turns go left.
+export const turnBetween = (from: number, to: number): number => {
+  const delta = (((to - from) % 360) + 360) % 360;
+  return delta > 180 ? delta - 360 : delta;
+};
+
+// The rotation after a command. Compass moves swing round the shorter way to face their heading.
+export const facingAfter = (rotation: number, dir: Direction): number => {
+  const heading = DIRECTION_HEADINGS[dir];
+  return heading === undefined ? rotation + (DIRECTION_TURNS[dir] ?? 0) : rotation + turnBetween(rotation, heading);
+};
+
+export const streetKey = (a: GridPoint, b: GridPoint): string => {
+  const [p, q] = a.i < b.i || (a.i === b.i && a.j < b.j) ? [a, b] : [b, a];
+  return `${p.i},${p.j}:${q.i},${q.j}`;
+};
+
+export const toGridPoint = (pos: { x: number; z: number }): GridPoint => ({
+  i: Math.round(pos.x / GRID_SIZE),
+  j: Math.round(pos.z / GRID_SIZE)
+});
+
+export const lotCenter = (lot: GridPoint): { x: number; z: number } => ({
+  x: (lot.i + 0.5) * GRID_SIZE,
+  z: (lot.j + 0.5) * GRID_SIZE
+});
+
+const inTown = (town: TownModel, p: GridPoint, margin = 0) =>
+  Math.abs(p.i) <= town.range - margin && Math.abs(p.j) <= town.range - margin;
+
+export const isStreetOpen = (town: TownModel, a: GridPoint, b: GridPoint): boolean =>
+  inTown(town, a) && inTown(town, b) && !town.closedStreets.has(streetKey(a, b));
+
+export const closedStreetSegments = (town: TownModel): StreetSegment[] =>
+  Array.from(town.closedStreets).map(key => {
+    const [from, to] = key.split(':').map(part => {
+      const [i, j] = part.split(',').map(Number);
+      return { i, j };
+    });
+    return { from, to };
+  });
+
+const neighbours = (p: GridPoint): GridPoint[] => HEADING_VECTORS.map(v => ({ i: p.i + v.i, j: p.j + v.j }));
+
+const buildLot = (rng: Rng, i: number, j: number): Lot => {
+  const rand = rng();
+  let kind: LotKind = 'empty';
+  if (rand < 0.4) kind = rand < 0.1 ? 'store' : 'house';
+  else if (rand < 0.5) kind = 'park';
+  else if (rand < 0.6) kind = 'tree';
+  return {
+    i,
+    j,
+    kind,
+    color: pick(rng, BUILDING_COLORS),
+    rotation: randomInt(rng, 4) * (Math.PI / 2)
+  };
+};
+
+export const createTown = (seed: number): TownModel => {
+  const rng = createRng(deriveSeed(seed, 'town'));
+  const range = TOWN_RANGE;
+  const town: TownModel = { seed, range, closedStreets: new Set(), lots: [] };
+
+  for (let i = -range; i < range; i++) {
+    for (let j = -range; j < range; j++) {
+      town.lots.push(buildLot(rng, i, j));
+    }
+  }
+
+  // Close a few segments to form larger blocks, but never strand an intersection:
+  // every interior intersection keeps at least three open streets.
+  const degree = (p: GridPoint) => neighbours(p).filter(n => isStreetOpen(town, p, n)).length;
+  for (let i = -range; i <= range; i++) {
+    for (let j = -range; j <= range; j++) {
+      const p = { i, j };
+      for (const q of [{ i: i + 1, j }, { i, j: j + 1 }]) {
+        if (!inTown(town, q) || rng() >= CLOSED_STREET_CHANCE) continue;
+        if (degree(p) > 3 && degree(q) > 3) town.closedStreets.add(streetKey(p, q));
+      }
+    }
+  }
+
+  return town;
+};
+
+// "Stop" and "It's on your left/right" are checked like any other command but do not move the player.
+export const applyMove = (pos: Position, dir: Direction): Position => {
+  const blocks = DIRECTION_BLOCKS[dir] ?? 0;
+  const rotation = facingAfter(pos.rotation, dir);
+  const v = headingVector(rotation);
+  return {
+    x: pos.x + v.i * GRID_SIZE * blocks,
+    z: pos.z + v.j * GRID_SIZE * blocks,
+    rotation
+  };
+};
+
+// Every position along the path, starting with `start` itself.
+export const traceRoute = (start: Position, path: Direction[]): Position[] => {
+  const trace = [start];
+  for (const dir of path) trace.push(applyMove(trace[trace.length - 1], dir));
+  return trace;
+};
+
+// Number of blocks from every intersection to `target`, driving only along open streets.
+export const streetDistances = (town: TownModel, target: GridPoint): Map<string, number> => {
+  const key = (p: GridPoint) => `${p.i},${p.j}`;
+  const dist = new Map<string, number>([[key(target), 0]]);
+  const queue = [target];
+  while (queue.length > 0) {
+    const p = queue.shift()!;
+    for (const n of neighbours(p)) {
+      if (dist.has(key(n)) || !isStreetOpen(town, p, n)) continue;
+      dist.set(key(n), dist.get(key(p))! + 1);
+      queue.push(n);
+    }
+  }
+  return dist;
+};
+
+// Reopens every street the given walk uses, for routes drawn by hand over a seeded town.
+export const withStreetsOpen = (town: TownModel, walk: GridPoint[]): TownModel => {
+  const closedStreets = new Set(town.closedStreets);
+  for (let n = 1; n < walk.length; n++) closedStreets.delete(streetKey(walk[n - 1], walk[n]));
+  return { ...town, closedStreets };
+};
+
+// Walks the street graph from the origin facing -z. Turns are only generated towards an open
+// street, and a turn is always followed by driving down that street. When the vocabulary has
+// them, the route closes with "Stop." and "It's on your left/right." describing the goal.
+// A compass vocabulary drives by compass points, with the odd relative turn mixed in.
+export const generateRoute = (
+  town: TownModel,
+  seed: number,
+  moveCount: number,
+  vocabulary: Direction[] = VOCABULARY_SETS.basic,
+  weights: Partial<Record<Direction, number>> = {} // extra draws per direction, to practise weak spots
+): Route => {
+  const rng = createRng(deriveSeed(seed, 'route'));
+  const uses = (dir: Direction) => vocabulary.includes(dir);
+  const compass = uses(Direction.NORTH);
+  const path: Direction[] = [];
+  let at: GridPoint = { i: 0, j: 0 };
+  let rotation = 0;
+
+  const goalSide = rng() < 0.5 ? 'left' : 'right';
+  const closing: Direction[] = [];
+  if (uses(Direction.ON_LEFT) && uses(Direction.ON_RIGHT) && moveCount > 1) {
+    closing.push(goalSide === 'left' ? Direction.ON_LEFT : Direction.ON_RIGHT);
+  }
+  if (uses(Direction.STOP) && moveCount - closing.length > 1) closing.unshift(Direction.STOP);
+
+  const canDrive = (from: GridPoint, rot: number, blocks = 1) => {
+    const v = headingVector(rot);
+    let p = from;
+    for (let b = 0; b < blocks; b++) {
+      const next = { i: p.i + v.i, j: p.j + v.j };
+      if (!inTown(town, next, ROUTE_MARGIN) || !isStreetOpen(town, p, next)) return false;
+      p = next;
+    }
+    return true;
+  };
+
+  for (let n = 0; n < moveCount - closing.length; n++) {
+    const last = path[path.length - 1];
+    const justTurned = last !== undefined && DIRECTION_TURNS[last] !== undefined;
+    const options: Direction[] = [];
+    if (compass) {
+      // Never straight back the way we came, and straight on after a relative turn.
+      const facing = headingOf(rotation);
+      for (const dir of CARDINAL_DIRECTIONS) {
+        const heading = headingOf(facingAfter(rotation, dir));
+        const fits = justTurned ? heading === facing : heading !== (facing + 2) % 4;
+        if (fits && canDrive(at, facingAfter(rotation, dir))) options.push(dir);
+      }
+      if (!justTurned && rng() < 0.3) {
+        for (const dir of [Direction.LEFT, Direction.RIGHT]) {
+          if (uses(dir) && canDrive(at, facingAfter(rotation, dir))) options.push(dir);
+        }
+      }
+      const back = CARDINAL_DIRECTIONS.find(dir => headingOf(facingAfter(rotation, dir)) === (facing + 2) % 4)!;
+      if (options.length === 0 && canDrive(at, facingAfter(rotation, back))) options.push(back);
+    } else {
+      if (canDrive(at, rotation)) options.push(Direction.STRAIGHT, Direction.STRAIGHT);
+      if (uses(Direction.STRAIGHT_TWO) && canDrive(at, rotation, 2)) options.push(Direction.STRAIGHT_TWO);
+      if (uses(Direction.STRAIGHT_THREE) && canDrive(at, rotation, 3)) options.push(Direction.STRAIGHT_THREE);
+      if (!justTurned || options.length === 0) {
+        for (const dir of [Direction.LEFT, Direction.RIGHT]) {
+          if (canDrive(at, facingAfter(rotation, dir))) options.push(dir);
+        }
+        // Doubling back is kept rare so routes still explore the town.
+        const back = facingAfter(rotation, Direction.TURN_AROUND);
+        if (uses(Direction.TURN_AROUND) && (options.length === 0 || rng() < 0.1) && canDrive(at, back)) {
+          options.push(Direction.TURN_AROUND);
+        }
+      }
+    }
+    // Only a dead end is left; turn and try again on the next move.
+    const fallback = uses(Direction.TURN_AROUND) ? Direction.TURN_AROUND : Direction.LEFT;
+    for (const dir of new Set(options)) {
+      for (let w = 0; w < (weights[dir] ?? 0); w++) options.push(dir);
+    }
+    const move = options.length > 0 ? pick(rng, options) : fallback;
+
+    path.push(move);
+    rotation = facingAfter(rotation, move);
+    const v = headingVector(rotation);
+    const blocks = DIRECTION_BLOCKS[move] ?? 0;
+    at = { i: at.i + v.i * blocks, j: at.j + v.j * blocks };
+  }
+  path.push(...closing);
+
+  const end = { x: at.i * GRID_SIZE, z: at.j * GRID_SIZE, rotation };
+  return { path, end, goal: goalLotFor(town, end, goalSide), goalSide };
+};
+
+// The goal is the block just ahead of the final intersection, on the left or the right.
+export const goalLotFor = (town: TownModel, end: Position, side: 'left' | 'right'): Lot => {
+  const at = toGridPoint(end);
+  const forward = headingVector(end.rotation);
+  const across = headingVector(facingAfter(end.rotation, side === 'left' ? Direction.LEFT : Direction.RIGHT));
+  const i = Math.floor(at.i + 0.5 * (forward.i + across.i));
+  const j = Math.floor(at.j + 0.5 * (forward.j + across.j));
+  return town.lots.find(l => l.i === i && l.j === j) ?? { i, j, kind: 'empty', color: BUILDING_COLORS[0], rotation: 0 };
+};
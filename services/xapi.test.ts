@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Direction } from '../types';
+import { XAPI_VERSION, createLrsClient, statementFor } from './xapi';
+
+const BASE = 'https://games.example/xapi/';
+const actor = { objectType: 'Agent' as const, name: 'Aki', account: { homePage: 'https://games.example', name: 'aki' } };
+const ref = { levelKey: '3 memory', label: 'Level 3 (memory)' };
+const levelId = `${BASE}level/3%20memory`;
+
+describe('statementFor', () => {
+  it('sends nothing for ready', () => {
+    expect(statementFor({ type: 'ready' }, actor, BASE)).toBeNull();
+  });
+
+  it('marks a started level as attempted, with the registration', () => {
+    const statement = statementFor({ type: 'level-started', ...ref, level: 3, seed: 42, totalSteps: 8 }, actor, BASE, 'reg-1');
+    expect(statement).toMatchObject({
+      actor,
+      verb: { id: 'http://adlnet.gov/expapi/verbs/attempted' },
+      object: { objectType: 'Activity', id: levelId, definition: { name: { 'en-US': ref.label } } },
+      context: { registration: 'reg-1', extensions: { [`${BASE}extensions/seed`]: 42 } }
+    });
+  });
+
+  it('answers a wrong move as a choice interaction inside the level', () => {
+    const statement = statementFor(
+      { type: 'move-wrong', ...ref, step: 2, move: 1, expected: Direction.LEFT, given: Direction.RIGHT, livesLeft: 0 },
+      actor,
+      BASE
+    );
+    expect(statement).toMatchObject({
+      verb: { id: 'http://adlnet.gov/expapi/verbs/answered' },
+      object: { id: `${levelId}/step/2/move/1`, definition: { interactionType: 'choice', correctResponsesPattern: [Direction.LEFT] } },
+      result: { success: false, response: Direction.RIGHT },
+      context: { contextActivities: { parent: [{ id: levelId }] } }
+    });
+    expect(statement!.context).not.toHaveProperty('registration');
+  });
+
+  it('passes or fails a finished level with its score and duration', () => {
+    const finished = { type: 'level-completed' as const, ...ref, mistakes: 1, durationMs: 61500 };
+    expect(statementFor({ ...finished, outcome: 'success', score: 850, stars: 2 }, actor, BASE)).toMatchObject({
+      verb: { id: 'http://adlnet.gov/expapi/verbs/passed' },
+      object: { id: levelId },
+      result: {
+        success: true,
+        completion: true,
+        score: { raw: 850, min: 0 },
+        duration: 'PT61.5S',
+        extensions: { [`${BASE}extensions/mistakes`]: 1, [`${BASE}extensions/stars`]: 2 }
+      }
+    });
+    const failed = statementFor({ ...finished, outcome: 'fail' }, actor, BASE);
+    expect(failed).toMatchObject({ verb: { id: 'http://adlnet.gov/expapi/verbs/failed' }, result: { success: false, completion: false } });
+    expect(failed!.result).not.toHaveProperty('score');
+  });
+});
+
+describe('createLrsClient', () => {
+  const statement = statementFor({ type: 'level-started', ...ref, level: 3, seed: 42, totalSteps: 8 }, actor, BASE)!;
+
+  it('posts statements to the LRS with the xAPI headers', async () => {
+    const fetchImpl = vi.fn(async () => new Response(null, { status: 200 }));
+    createLrsClient({ endpoint: 'https://lrs.example/xapi/', auth: 'Basic dXNlcjpwYXNz' }, fetchImpl).send(statement);
+    await vi.waitFor(() => expect(fetchImpl).toHaveBeenCalledTimes(1));
+    expect(fetchImpl).toHaveBeenCalledWith('https://lrs.example/xapi/statements', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Experience-API-Version': XAPI_VERSION, Authorization: 'Basic dXNlcjpwYXNz' },
+      body: JSON.stringify(statement)
+    });
+  });
+
+  it('leaves out Authorization without auth and posts in order', async () => {
+    const bodies: string[] = [];
+    const fetchImpl = vi.fn(async (_url: string, init: RequestInit) => {
+      // The first post is the slowest, so only the queue keeps the order.
+      await new Promise(r => setTimeout(r, bodies.length === 0 ? 20 : 0));
+      bodies.push(init.body as string);
+      return new Response(null, { status: 200 });
+    });
+    const client = createLrsClient({ endpoint: 'https://lrs.example/xapi/' }, fetchImpl as unknown as typeof fetch);
+    const second = { ...statement, verb: { ...statement.verb, id: 'second' } };
+    client.send(statement);
+    client.send(second);
+    await vi.waitFor(() => expect(bodies).toHaveLength(2));
+    expect(bodies).toEqual([JSON.stringify(statement), JSON.stringify(second)]);
+    expect((fetchImpl.mock.calls[0][1].headers as Record<string, string>)).not.toHaveProperty('Authorization');
+  });
+
+  it('keeps sending after the LRS fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchImpl = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValueOnce(new Response(null, { status: 401 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const client = createLrsClient({ endpoint: 'https://lrs.example/xapi/' }, fetchImpl);
+    client.send(statement);
+    client.send(statement);
+    client.send(statement);
+    await vi.waitFor(() => expect(fetchImpl).toHaveBeenCalledTimes(3));
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
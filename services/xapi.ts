@@ -0,0 +1,137 @@
+// xAPI (Tin Can) statements for learning platforms with a Learning Record Store. Embedded games
+// post one statement per EmbedEvent; see services/embed.ts for when they are sent.
+// The LRS is configured with the usual launch parameters: endpoint, auth, actor and registration.
+
+import { EmbedEvent } from './embed';
+import { StudentProfile } from './profileStore';
+
+export interface XapiActor {
+  objectType?: 'Agent';
+  name?: string;
+  mbox?: string;
+  account?: { homePage: string; name: string };
+}
+
+export interface LrsConfig {
+  endpoint: string; // ends with a slash; statements go to `${endpoint}statements`
+  auth?: string; // sent as the Authorization header, e.g. "Basic dXNlcjpwYXNz"
+  actor?: XapiActor; // the platform's learner; otherwise the picked student
+  registration?: string;
+}
+
+export interface XapiStatement {
+  actor: XapiActor;
+  verb: { id: string; display: Record<string, string> };
+  object: {
+    objectType: 'Activity';
+    id: string;
+    definition: { name: Record<string, string>; type: string; interactionType?: string; correctResponsesPattern?: string[] };
+  };
+  result?: {
+    success?: boolean;
+    completion?: boolean;
+    response?: string;
+    score?: { raw: number; min: number };
+    duration?: string;
+    extensions?: Record<string, number>;
+  };
+  context?: { registration?: string; contextActivities?: { parent: { id: string }[] }; extensions?: Record<string, number | string> };
+  timestamp: string;
+}
+
+export const XAPI_VERSION = '1.0.3';
+
+const verb = (name: string) => ({ id: `http://adlnet.gov/expapi/verbs/${name}`, display: { 'en-US': name } });
+const ACTIVITY_TYPE = 'http://adlnet.gov/expapi/activities/';
+
+// Activities and extensions are named after where the game is served from.
+export const xapiBase = (): string => new URL('xapi/', window.location.href).toString();
+
+const isoDuration = (ms: number) => `PT${(ms / 1000).toFixed(1)}S`;
+
+export const statementFor = (event: EmbedEvent, actor: XapiActor, base: string, registration?: string): XapiStatement | null => {
+  if (event.type === 'ready') return null;
+  const levelId = `${base}level/${encodeURIComponent(event.levelKey)}`;
+  const level = { objectType: 'Activity' as const, id: levelId, definition: { name: { 'en-US': event.label }, type: `${ACTIVITY_TYPE}assessment` } };
+  const context = (extra: XapiStatement['context'] = {}): XapiStatement['context'] => ({ ...(registration ? { registration } : {}), ...extra });
+  const timestamp = new Date().toISOString();
+
+  switch (event.type) {
+    case 'level-started':
+      return { actor, verb: verb('attempted'), object: level, context: context({ extensions: { [`${base}extensions/seed`]: event.seed } }), timestamp };
+    case 'step-completed':
+      return {
+        actor,
+        verb: verb('progressed'),
+        object: level,
+        result: { completion: false, extensions: { [`${base}extensions/step`]: event.step, [`${base}extensions/total-steps`]: event.totalSteps } },
+        context: context(),
+        timestamp
+      };
+    case 'move-wrong':
+      return {
+        actor,
+        verb: verb('answered'),
+        object: {
+          objectType: 'Activity',
+          id: `${levelId}/step/${event.step}/move/${event.move}`,
+          definition: { name: { 'en-US': `${event.label}, step ${event.step}, move ${event.move}` }, type: `${ACTIVITY_TYPE}cmi.interaction`, interactionType: 'choice', correctResponsesPattern: [event.expected] }
+        },
+        result: { success: false, response: event.given },
+        context: context({ contextActivities: { parent: [{ id: levelId }] } }),
+        timestamp
+      };
+    case 'level-completed':
+      return {
+        actor,
+        verb: verb(event.outcome === 'success' ? 'passed' : 'failed'),
+        object: level,
+        result: {
+          success: event.outcome === 'success',
+          completion: event.outcome === 'success',
+          ...(event.score !== undefined ? { score: { raw: event.score, min: 0 } } : {}),
+          duration: isoDuration(event.durationMs),
+          extensions: { [`${base}extensions/mistakes`]: event.mistakes, [`${base}extensions/stars`]: event.stars ?? 0 }
+        },
+        context: context(),
+        timestamp
+      };
+  }
+};
+
+export interface LrsClient {
+  send: (statement: XapiStatement) => void;
+}
+
+// Statements are posted one at a time so the LRS stores them in the order they happened.
+// A failed post is logged and skipped; the game never waits on the LRS.
+export const createLrsClient = (config: LrsConfig, fetchImpl: typeof fetch = fetch): LrsClient => {
+  let queue = Promise.resolve();
+  return {
+    send: (statement) => {
+      queue = queue.then(async () => {
+        try {
+          const res = await fetchImpl(`${config.endpoint}statements`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Experience-API-Version': XAPI_VERSION,
+              ...(config.auth ? { Authorization: config.auth } : {})
+            },
+            body: JSON.stringify(statement)
+          });
+          if (!res.ok) console.warn(`The LRS rejected a statement (${res.status})`);
+        } catch (err) {
+          console.warn('Could not reach the LRS', err);
+        }
+      });
+    }
+  };
+};
+
+// Without a learner from the platform, statements name the picked student on this device.
+export const studentActor = (profile: StudentProfile | null): XapiActor => ({
+  objectType: 'Agent',
+  name: profile?.name ?? 'Guest',
+  account: { homePage: window.location.origin, name: profile?.id ?? 'guest' }
+});
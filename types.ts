@@ -2,13 +2,31 @@
 export enum Direction {
   STRAIGHT = 'STRAIGHT',
   LEFT = 'LEFT',
-  RIGHT = 'RIGHT'
+  RIGHT = 'RIGHT',
+  STRAIGHT_TWO = 'STRAIGHT_TWO',
+  STRAIGHT_THREE = 'STRAIGHT_THREE',
+  TURN_AROUND = 'TURN_AROUND',
+  STOP = 'STOP',
+  ON_LEFT = 'ON_LEFT',
+  ON_RIGHT = 'ON_RIGHT',
+  NORTH = 'NORTH',
+  EAST = 'EAST',
+  SOUTH = 'SOUTH',
+  WEST = 'WEST'
 }
 
+// Which directions a level may use, from the first lesson's three phrases up to the full curriculum.
+// Compass levels are answered with the four compass points.
+export type VocabularySet = 'basic' | 'extended' | 'full' | 'compass';
+
+// Memory challenges play the whole route in one go, or steps that grow one command at a time.
+export type MemoryStyle = 'route' | 'span';
+
 export enum GameStatus {
   START = 'START',
   LISTENING = 'LISTENING',
   MOVING = 'MOVING',
+  MISTAKE = 'MISTAKE', // a life was lost; the step restarts from its checkpoint
   SUCCESS = 'SUCCESS',
   FAIL = 'FAIL'
 }
@@ -19,8 +37,43 @@ export interface Position {
   rotation: number; // in degrees
 }
 
-export interface GameLevel {
+export interface LevelConfig {
   id: number;
-  commandCount: number;
-  commands: Direction[];
+  commandCountPerStep: number;
+  totalSteps: number;
+  vocabulary?: VocabularySet;
+}
+
+// A teacher-authored level, stored and shared as JSON.
+export interface GameLevel {
+  id: string;
+  title: string;
+  steps: Direction[][]; // commands grouped into the steps played together
+  town?: { seed: number };
+  goal?: { label: string };
+  vocabulary?: VocabularySet;
+}
+
+export interface LessonPlaylist {
+  title: string;
+  levelIds: string[];
+}
+
+export type VoiceSpeed = 'normal' | 'slow';
+
+// An entry in the voice pack manifest. Directions without a recorded clip are spoken by the
+// browser voice that best matches `lang` and `voiceHints`.
+export interface VoicePack {
+  id: string;
+  label: string;
+  lang: string;
+  gender: 'female' | 'male';
+  voiceHints: string[]; // substrings of speechSynthesis voice names, best first
+  clips?: Partial<Record<Direction, string>>;
+  slowClips?: Partial<Record<Direction, string>>;
+}
+
+export interface VoiceSettings {
+  packId: string;
+  speed: VoiceSpeed;
 }
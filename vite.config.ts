@@ -1,8 +1,48 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, relative } from 'node:path';
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  );
+
+// Writes sw.js with every built file and public asset precached, so the game runs offline
+// after one visit. The cache name hashes the file list and the public files, so a new build
+// replaces the old cache.
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'direction-detective-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_options, bundle) {
+      const built = Object.keys(bundle);
+      const copied = publicDir ? listFiles(publicDir).map(file => relative(publicDir, file).split('\\').join('/')) : [];
+      const files = [...new Set(['index.html', ...built, ...copied])].sort().map(file => `./${file}`);
+      const hash = createHash('sha256').update(files.join('\n'));
+      copied.forEach(file => hash.update(readFileSync(join(publicDir, file))));
+      const version = hash.digest('hex').slice(0, 12);
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: [
+          `const CACHE_NAME = 'direction-detective-${version}';`,
+          `const PRECACHE = ${JSON.stringify(['./', ...files], null, 2)};`,
+          readFileSync('scripts/service-worker.js', 'utf8')
+        ].join('\n')
+      });
+    }
+  };
+};
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: './',
   build: {
     outDir: 'dist',